@@ -0,0 +1,127 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, BacktestRebalance, BacktestResult } from '@/types/stock';
+import { getMarketDataProvider } from '@/lib/providers';
+import { backtestFixture, backtestSnapshots, listBacktestFixtures, loadBacktestFixture } from '@/lib/backtest';
+import { withUpstreamAccounting } from '@/lib/upstream';
+import { getScoringModel, SCORING_MODELS } from '@/lib/scoringModels';
+
+const REBALANCE_OPTIONS: BacktestRebalance[] = ['weekly', 'monthly', 'quarterly'];
+const DEFAULT_QUANTILES = 5;
+const MAX_UNIVERSE_SYMBOLS = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/backtest
+ *
+ * Quantile backtest of the FactorFive score (see lib/backtest):
+ * - ?fixture=sample-tech - point-in-time fixture under fixtures/backtest, fully offline
+ * - ?symbols=AAPL,MSFT,... - recorded daily score snapshots for those symbols
+ *
+ * Optional: rebalance=weekly|monthly|quarterly (default monthly),
+ * quantiles=2-10 (default 5, i.e. top/bottom quintile), from/to (YYYY-MM-DD),
+ * model=v2 to re-score a fixture with an older scoring model (snapshots keep
+ * the model they were recorded with).
+ */
+export const GET = withUpstreamAccounting(async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const fixtureName = searchParams.get('fixture');
+  const symbols = Array.from(
+    new Set(
+      (searchParams.get('symbols') || '')
+        .split(',')
+        .map(s => s.trim().toUpperCase())
+        .filter(s => s.length > 0)
+    )
+  );
+  const rebalance = (searchParams.get('rebalance') || 'monthly') as BacktestRebalance;
+  const quantiles = Number(searchParams.get('quantiles') || DEFAULT_QUANTILES);
+  const from = searchParams.get('from') || undefined;
+  const to = searchParams.get('to') || undefined;
+  const scoringModel = getScoringModel(searchParams.get('model'));
+
+  if (!fixtureName && symbols.length === 0) {
+    const fixtures = await listBacktestFixtures();
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Missing required parameter',
+        details: `fixture or symbols is required${fixtures.length > 0 ? ` (fixtures: ${fixtures.join(', ')})` : ''}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (symbols.length > MAX_UNIVERSE_SYMBOLS) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `symbols may list at most ${MAX_UNIVERSE_SYMBOLS} symbols` },
+      { status: 400 }
+    );
+  }
+
+  if (!REBALANCE_OPTIONS.includes(rebalance)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `rebalance must be one of ${REBALANCE_OPTIONS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isInteger(quantiles) || quantiles < 2 || quantiles > 10) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'quantiles must be an integer from 2 to 10' },
+      { status: 400 }
+    );
+  }
+
+  if (!scoringModel) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `model must be one of ${Object.keys(SCORING_MODELS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (searchParams.has('model') && !fixtureName) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'model only applies to fixture backtests - snapshots keep the model they were recorded with' },
+      { status: 400 }
+    );
+  }
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to)) || (from && to && from >= to)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'from and to must be YYYY-MM-DD dates with from < to' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const options = { rebalance, quantiles, from, to };
+
+    if (fixtureName) {
+      const fixture = await loadBacktestFixture(fixtureName);
+      if (!fixture) {
+        return NextResponse.json<ApiError>(
+          { error: 'Fixture not found', details: `No backtest fixture named ${fixtureName}` },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json<BacktestResult>(backtestFixture(fixture, options, scoringModel));
+    }
+
+    // Snapshots are local; prices fall back to snapshot closes without an API key
+    const provider = getMarketDataProvider();
+    const result = await backtestSnapshots(provider.isConfigured() ? provider : null, symbols, options);
+    return NextResponse.json<BacktestResult>(result);
+
+  } catch (error) {
+    console.error('Error running backtest:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to run backtest',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
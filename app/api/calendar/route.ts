@@ -18,25 +18,10 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextResponse } from 'next/server';
-
-const NEWS_API_KEY = process.env.NEWS_API_KEY;
-
-// 24-hour cache for calendar data
-const calendarCache = new Map<string, { data: any; expires: number }>();
-
-interface MarketEvent {
-  id: string;
-  date: string; // ISO format YYYY-MM-DD
-  displayDate: string;
-  time?: string;
-  title: string;
-  description: string;
-  category: 'monetary' | 'inflation' | 'employment' | 'consumer' | 'growth' | 'other';
-  impact: 'High' | 'Medium' | 'Low';
-  icon: string;
-  sources: string[]; // News sources that mentioned this event
-  confidence: 'Verified' | 'Estimated'; // Verified if 2+ sources confirm
-}
+import { isNewsAPIConfigured, searchNewsAPI, NewsAPIError } from '@/lib/newsApi';
+import { withUpstreamAccounting } from '@/lib/upstream';
+import { calendarCache } from '@/lib/cache';
+import type { MarketEvent } from '@/types/stock';
 
 /**
  * Search queries for different event types
@@ -302,18 +287,13 @@ async function fetchNewsArticles(query: string): Promise<any[]> {
     fromDate.setDate(fromDate.getDate() - 7);
     const fromStr = fromDate.toISOString().split('T')[0];
 
-    const url = `https://newsapi.org/v2/everything?q=${encodeURIComponent(query)}&language=en&sortBy=publishedAt&pageSize=20&from=${fromStr}&apiKey=${NEWS_API_KEY}`;
-
-    const response = await fetch(url, { cache: 'no-store' });
-
-    if (!response.ok) {
-      console.warn(`[NewsAPI] Query "${query}" failed: ${response.status}`);
-      return [];
-    }
-
-    const data = await response.json();
+    const data = await searchNewsAPI({ q: query, pageSize: 20, from: fromStr });
     return data.articles || [];
   } catch (error) {
+    if (error instanceof NewsAPIError) {
+      console.warn(`[NewsAPI] Query "${query}" failed: ${error.status}`);
+      return [];
+    }
     console.error('[NewsAPI] Error fetching articles:', error);
     return [];
   }
@@ -401,23 +381,22 @@ async function parseNewsForEvents(): Promise<MarketEvent[]> {
 /**
  * GET /api/calendar
  */
-export async function GET() {
+export const GET = withUpstreamAccounting(async function GET() {
   const startTime = Date.now();
 
   try {
-    if (!NEWS_API_KEY) {
+    if (!isNewsAPIConfigured()) {
       return NextResponse.json({
         error: 'Server configuration error: NEWS_API_KEY not set',
       }, { status: 500 });
     }
 
-    // Check cache (24-hour TTL)
+    // Check cache (24-hour TTL, shared cache backend)
     const cacheKey = 'news_calendar';
-    const cached = calendarCache.get(cacheKey);
-    const now = Date.now();
+    const cached = calendarCache.getEntry(cacheKey);
 
-    if (cached && cached.expires > now) {
-      const age = Math.round((now - (cached.expires - 24 * 60 * 60 * 1000)) / 1000);
+    if (cached) {
+      const age = Math.round((Date.now() - cached.timestamp) / 1000);
       console.log(`[Calendar] Returning cached data (age: ${age}s)`);
 
       return NextResponse.json({
@@ -434,10 +413,7 @@ export async function GET() {
     const events = await parseNewsForEvents();
 
     // Cache for 24 hours
-    calendarCache.set(cacheKey, {
-      data: events,
-      expires: now + 24 * 60 * 60 * 1000,
-    });
+    calendarCache.set(cacheKey, events);
 
     const duration = Date.now() - startTime;
     console.log(`[Calendar] API processed in ${duration}ms`);
@@ -477,4 +453,4 @@ export async function GET() {
       status: 500,
     });
   }
-}
+});
@@ -0,0 +1,89 @@
+/**
+ * Historical Candles Endpoint - /api/candles?symbol=AAPL&resolution=D&from=&to=
+ * 
+ * Returns OHLCV bars from the configured market data provider.
+ * 
+ * Query parameters:
+ * - symbol (required): Stock ticker
+ * - resolution: 1, 5, 15, 30, 60, D, W or M (default: D)
+ * - from / to: Unix timestamps in seconds (default: the last 365 days)
+ * 
+ * Includes trailing 1/3/6/12 month returns when daily bars are requested.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, CandleResolution } from '@/types/stock';
+import { getMarketDataProvider } from '@/lib/providers';
+import { toCandleBars, calculateMomentumReturns } from '@/lib/candles';
+import { withUpstreamAccounting } from '@/lib/upstream';
+
+const RESOLUTIONS: CandleResolution[] = ['1', '5', '15', '30', '60', 'D', 'W', 'M'];
+
+/**
+ * GET /api/candles
+ */
+export const GET = withUpstreamAccounting(async function GET(request: NextRequest) {
+  const provider = getMarketDataProvider();
+
+  if (!provider.isConfigured()) {
+    return NextResponse.json<ApiError>(
+      { error: 'Server configuration error', details: 'API key not configured' },
+      { status: 500 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const symbol = searchParams.get('symbol')?.toUpperCase();
+  const resolution = (searchParams.get('resolution') || 'D').toUpperCase() as CandleResolution;
+
+  if (!symbol) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'symbol is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!RESOLUTIONS.includes(resolution)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `resolution must be one of ${RESOLUTIONS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const to = searchParams.has('to') ? Number(searchParams.get('to')) : now;
+  const from = searchParams.has('from') ? Number(searchParams.get('from')) : to - 365 * 24 * 60 * 60;
+
+  if (!Number.isFinite(from) || !Number.isFinite(to) || from >= to) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'from and to must be Unix timestamps (seconds) with from < to' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const candles = await provider.getCandles(symbol, resolution, from, to);
+
+    return NextResponse.json({
+      symbol,
+      resolution,
+      from,
+      to,
+      count: candles.t.length,
+      candles: toCandleBars(candles),
+      momentum: resolution === 'D' ? calculateMomentumReturns(candles) : undefined,
+    });
+  } catch (error) {
+    console.error('Error fetching candles:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to fetch candle data',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,84 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, CompareResponse } from '@/types/stock';
+import { getMarketDataProvider } from '@/lib/providers';
+import { scoreSymbols, ScoredSymbol, FailedSymbol } from '@/lib/stockScore';
+import { buildComparison } from '@/lib/compare';
+import { withUpstreamAccounting } from '@/lib/upstream';
+
+// Columns beyond this stop being readable side by side
+const MIN_COMPARE_SYMBOLS = 2;
+const MAX_COMPARE_SYMBOLS = 5;
+const COMPARE_CONCURRENCY = 3;
+
+/**
+ * GET /api/compare?symbols=AAPL,MSFT,GOOGL
+ *
+ * Scores 2-5 symbols and returns them aligned for a side-by-side table:
+ * - columns: name, price and total score per symbol
+ * - breakdowns: the full ScoreBreakdown per symbol, same order as columns
+ * - rows: factor scores, key basic-financials metrics and price-target upside,
+ *   each with a direction (higher/lower is better) for best/worst highlighting
+ *
+ * Symbols in the same industry are scored against the same peer set.
+ * Symbols that fail are listed under `errors` instead of failing the request.
+ */
+export const GET = withUpstreamAccounting(async function GET(request: NextRequest) {
+  const provider = getMarketDataProvider();
+
+  if (!provider.isConfigured()) {
+    return NextResponse.json<ApiError>(
+      { error: 'Server configuration error', details: 'API key not configured' },
+      { status: 500 }
+    );
+  }
+
+  const symbols = Array.from(
+    new Set(
+      (request.nextUrl.searchParams.get('symbols') || '')
+        .split(',')
+        .map(s => s.trim().toUpperCase())
+        .filter(s => s.length > 0)
+    )
+  );
+
+  if (symbols.length < MIN_COMPARE_SYMBOLS || symbols.length > MAX_COMPARE_SYMBOLS) {
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Invalid parameter',
+        details: `symbols must list ${MIN_COMPARE_SYMBOLS}-${MAX_COMPARE_SYMBOLS} comma-separated symbols`,
+      },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { results } = await scoreSymbols(provider, symbols, COMPARE_CONCURRENCY);
+
+    const scored = results.filter((result): result is ScoredSymbol => result.ok);
+    const errors = results
+      .filter((result): result is FailedSymbol => !result.ok)
+      .map(({ symbol, error, details }) => ({ symbol, error, details }));
+
+    if (scored.length === 0) {
+      return NextResponse.json<ApiError>(
+        { error: 'No valid symbols', details: errors.map(e => `${e.symbol}: ${e.details || e.error}`).join('; ') },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<CompareResponse>({ ...buildComparison(scored), errors });
+
+  } catch (error) {
+    console.error('Error comparing stocks:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to compare stocks',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
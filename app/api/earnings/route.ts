@@ -0,0 +1,50 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, EarningsData } from '@/types/stock';
+import { getMarketDataProvider, upstreamErrorStatus } from '@/lib/providers';
+import { fetchEarnings } from '@/lib/earnings';
+import { withUpstreamAccounting } from '@/lib/upstream';
+
+/**
+ * GET /api/earnings?symbol=AAPL
+ *
+ * Next earnings date (with a confidence flag and the cross-checks behind it)
+ * and the last 8 quarters of EPS/revenue actual vs. estimate with surprise %.
+ * See lib/earnings for how the provider sources are combined.
+ */
+export const GET = withUpstreamAccounting(async function GET(request: NextRequest) {
+  const provider = getMarketDataProvider();
+
+  if (!provider.isConfigured()) {
+    return NextResponse.json<ApiError>(
+      { error: 'Server configuration error', details: 'API key not configured' },
+      { status: 500 }
+    );
+  }
+
+  const symbol = request.nextUrl.searchParams.get('symbol')?.toUpperCase();
+
+  if (!symbol) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'symbol is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const earnings = await fetchEarnings(provider, symbol);
+    return NextResponse.json<EarningsData & { symbol: string }>({ symbol, ...earnings });
+  } catch (error) {
+    console.error('Error fetching earnings data:', error);
+    const { status, headers } = upstreamErrorStatus(error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to fetch earnings data',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status, headers }
+    );
+  }
+});
@@ -0,0 +1,90 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, FinancialStatementsResponse, FinancialStatementType, StatementFrequency } from '@/types/stock';
+import { getMarketDataProvider, upstreamErrorStatus } from '@/lib/providers';
+import { latestFundamentals, parseStatements, reportingCurrency } from '@/lib/financialStatements';
+import { withUpstreamAccounting } from '@/lib/upstream';
+
+const STATEMENTS: FinancialStatementType[] = ['income', 'balance', 'cashflow'];
+const FREQUENCIES: StatementFrequency[] = ['annual', 'quarterly'];
+
+/**
+ * GET /api/financials?symbol=AAPL[&statement=income|balance|cashflow][&freq=annual|quarterly]
+ *
+ * Income statement (default), balance sheet or cash flow statement for every
+ * filing the provider has, most recent first, as typed line items (see
+ * lib/financialStatements for the concepts each field is read from).
+ * Quarterly cash flows are fiscal year-to-date, as filed. Annual requests also
+ * return the fundamentals the quality score uses (FCF margin, cash conversion,
+ * ROIC, interest coverage) from the latest filing.
+ */
+export const GET = withUpstreamAccounting(async function GET(request: NextRequest) {
+  const provider = getMarketDataProvider();
+
+  if (!provider.isConfigured()) {
+    return NextResponse.json<ApiError>(
+      { error: 'Server configuration error', details: 'API key not configured' },
+      { status: 500 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const symbol = searchParams.get('symbol')?.toUpperCase();
+  const statement = (searchParams.get('statement') ?? 'income').toLowerCase() as FinancialStatementType;
+  const freq = (searchParams.get('freq') ?? 'annual').toLowerCase() as StatementFrequency;
+
+  if (!symbol) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'symbol is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!STATEMENTS.includes(statement)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `statement must be one of ${STATEMENTS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (!FREQUENCIES.includes(freq)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `freq must be one of ${FREQUENCIES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const reported = await provider.getReportedFinancials(symbol, freq);
+    const periods = parseStatements(reported, statement);
+
+    if (periods.length === 0) {
+      return NextResponse.json<ApiError>(
+        { error: 'Financial statements not found', details: `No ${freq} filings found for symbol: ${symbol}` },
+        { status: 404 }
+      );
+    }
+
+    const fundamentals = freq === 'annual' ? latestFundamentals(reported) : null;
+    return NextResponse.json<FinancialStatementsResponse>({
+      symbol,
+      statement,
+      freq,
+      currency: reportingCurrency(reported),
+      periods,
+      ...(fundamentals ? { fundamentals } : {}),
+    });
+  } catch (error) {
+    console.error('Error fetching financial statements:', error);
+    const { status, headers } = upstreamErrorStatus(error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to fetch financial statements',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status, headers }
+    );
+  }
+});
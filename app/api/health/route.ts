@@ -9,9 +9,15 @@
  * - timestamp: Current server time
  * - environment: NODE_ENV value
  * - env: Check if required environment variables are set (without exposing values)
+ * - fixtureMode: live, record or replay (see lib/fixtures)
+ * - cache: per-namespace entry counts and hit/miss stats (see lib/cache)
+ * - inflight: upstream requests in flight and how many were coalesced
  */
 
 import { NextResponse } from 'next/server';
+import { getFixtureMode } from '@/lib/fixtures';
+import { getCacheStats } from '@/lib/cache';
+import { getInflightStats } from '@/lib/inflight';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -27,6 +33,9 @@ export async function GET() {
     timestamp: new Date().toISOString(),
     environment: process.env.NODE_ENV || 'development',
     vercel: process.env.VERCEL === '1',
+    fixtureMode: getFixtureMode(),
+    cache: getCacheStats(),
+    inflight: getInflightStats(),
     env: {
       hasNewsApiKey,
       hasFinnhubKey,
@@ -0,0 +1,115 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, ModelComparison } from '@/types/stock';
+import { listBacktestFixtures, loadBacktestFixture } from '@/lib/backtest';
+import { compareScoringModels } from '@/lib/modelComparison';
+import { getScoringModel, previousScoringModel, SCORING_MODELS } from '@/lib/scoringModels';
+
+const DEFAULT_QUANTILES = 5;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/model-compare?fixture=sample-sectors[&base=v2][&candidate=v3]
+ *
+ * How a scoring model version reorders a backtest fixture universe compared
+ * with another one (see lib/modelComparison). Fully offline.
+ *
+ * Optional: candidate (default: current model), base (default: the version
+ * before the candidate), date (YYYY-MM-DD, default: latest fixture date),
+ * quantiles=2-10 for the top/bottom overlap (default 5).
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const fixtureName = searchParams.get('fixture');
+  const candidate = getScoringModel(searchParams.get('candidate'));
+  const baseParam = searchParams.get('base') || (candidate ? previousScoringModel(candidate.version) : undefined);
+  const base = getScoringModel(baseParam);
+  const quantiles = Number(searchParams.get('quantiles') || DEFAULT_QUANTILES);
+  const date = searchParams.get('date') || undefined;
+  const versions = Object.keys(SCORING_MODELS).join(', ');
+
+  if (!fixtureName) {
+    const fixtures = await listBacktestFixtures();
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Missing required parameter',
+        details: `fixture is required${fixtures.length > 0 ? ` (fixtures: ${fixtures.join(', ')})` : ''}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  if (!candidate) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `candidate must be one of ${versions}` },
+      { status: 400 }
+    );
+  }
+
+  if (!baseParam) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `${candidate.version} is the first model version - pass base explicitly` },
+      { status: 400 }
+    );
+  }
+
+  if (!base) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `base must be one of ${versions}` },
+      { status: 400 }
+    );
+  }
+
+  if (base.version === candidate.version) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'base and candidate must be different model versions' },
+      { status: 400 }
+    );
+  }
+
+  if (!Number.isInteger(quantiles) || quantiles < 2 || quantiles > 10) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'quantiles must be an integer from 2 to 10' },
+      { status: 400 }
+    );
+  }
+
+  if (date && !DATE_PATTERN.test(date)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'date must be a YYYY-MM-DD date' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const fixture = await loadBacktestFixture(fixtureName);
+    if (!fixture) {
+      return NextResponse.json<ApiError>(
+        { error: 'Fixture not found', details: `No backtest fixture named ${fixtureName}` },
+        { status: 404 }
+      );
+    }
+
+    const comparison = compareScoringModels(fixture, base, candidate, { quantiles, date });
+    if (!comparison) {
+      return NextResponse.json<ApiError>(
+        { error: 'No scores', details: `${fixtureName} has no scored records${date ? ` on or before ${date}` : ''}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ModelComparison>(comparison);
+
+  } catch (error) {
+    console.error('Error comparing scoring models:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to compare scoring models',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,7 @@
  * Fetches recent news articles from NewsAPI for a given stock ticker
  * 
  * Flow:
- * 1. Resolve ticker symbol to company name via Finnhub
+ * 1. Resolve ticker symbol to company name via the market data provider
  * 2. Fetch top 20 recent articles from NewsAPI using company name
  * 3. Analyze sentiment of headlines
  * 4. Return articles with sentiment analysis
@@ -17,14 +17,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { NewsAPIArticle, SentimentAnalysis } from '@/types/stock';
 import { analyzeNewsSentiment } from '@/lib/sentiment';
 import { newsAPICache } from '@/lib/cache';
-
-const FINNHUB_KEY = process.env.FINNHUB_KEY;
-const NEWS_API_KEY = process.env.NEWS_API_KEY;
+import { getMarketDataProvider } from '@/lib/providers';
+import { isNewsAPIConfigured, searchNewsAPI } from '@/lib/newsApi';
+import { withUpstreamAccounting } from '@/lib/upstream';
 
 /**
  * GET /api/news?symbol=AAPL
  */
-export async function GET(request: NextRequest) {
+export const GET = withUpstreamAccounting(async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const symbol = searchParams.get('symbol')?.toUpperCase();
 
@@ -36,14 +36,16 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  if (!FINNHUB_KEY) {
+  const provider = getMarketDataProvider();
+
+  if (!provider.isConfigured()) {
     return NextResponse.json(
-      { error: 'Server configuration error: FINNHUB_KEY not set' },
+      { error: `Server configuration error: ${provider.name} provider not configured` },
       { status: 500 }
     );
   }
 
-  if (!NEWS_API_KEY) {
+  if (!isNewsAPIConfigured()) {
     return NextResponse.json(
       { error: 'Server configuration error: NEWS_API_KEY not set' },
       { status: 500 }
@@ -51,17 +53,10 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    // Step 1: Get company name from Finnhub
-    const profileResponse = await fetch(
-      `https://finnhub.io/api/v1/stock/profile2?symbol=${symbol}&token=${FINNHUB_KEY}`,
-      { cache: 'no-store' }
-    );
-
-    if (!profileResponse.ok) {
-      throw new Error('Failed to fetch company profile from Finnhub');
-    }
-
-    const profile = await profileResponse.json();
+    // Step 1: Get company name from the market data provider
+    const profile = await provider.getProfile(symbol).catch(() => {
+      throw new Error(`Failed to fetch company profile from ${provider.name}`);
+    });
     const companyName = profile.name;
 
     if (!companyName) {
@@ -83,25 +78,14 @@ export async function GET(request: NextRequest) {
       totalResults = cachedData.totalResults || 0;
     } else {
       // Fetch from NewsAPI if not cached
-      const newsAPIUrl = `https://newsapi.org/v2/everything?q=${encodeURIComponent(
-        companyName
-      )}&language=en&sortBy=publishedAt&pageSize=20&apiKey=${NEWS_API_KEY}`;
-
-      const newsResponse = await fetch(newsAPIUrl, { cache: 'no-store' });
-
-      if (!newsResponse.ok) {
-        const errorData = await newsResponse.json();
-        throw new Error(
-          `NewsAPI error: ${errorData.message || 'Failed to fetch news'}`
-        );
-      }
-
-      const newsData = await newsResponse.json();
+      const newsData = await searchNewsAPI({ q: companyName, pageSize: 20 }).catch((error: Error) => {
+        throw new Error(`NewsAPI error: ${error.message || 'Failed to fetch news'}`);
+      });
       articles = newsData.articles || [];
       totalResults = newsData.totalResults || 0;
       
       // Cache the successful response
-      newsAPICache.set(cacheKey, { articles, totalResults });
+      newsAPICache.set(cacheKey, { status: 'ok', articles, totalResults });
     }
 
     // Step 3: Analyze sentiment
@@ -126,4 +110,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
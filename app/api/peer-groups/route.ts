@@ -0,0 +1,176 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, PeerGroup } from '@/types/stock';
+import { MAX_PEERS } from '@/lib/peerStore';
+import {
+  deletePeerGroup,
+  getPeerGroup,
+  listPeerGroups,
+  MAX_EXCLUDED_PEERS,
+  PEER_GROUP_NAME_PATTERN,
+  savePeerGroup,
+  validatePeerList,
+} from '@/lib/peerGroups';
+
+/**
+ * GET /api/peer-groups[?name=cloud]
+ *
+ * Saved peer groups (see lib/peerGroups), or a single one by name.
+ * Apply one with /api/stock?symbol=XYZ&peerGroup=cloud.
+ */
+export async function GET(request: NextRequest) {
+  const name = request.nextUrl.searchParams.get('name');
+
+  try {
+    if (!name) {
+      return NextResponse.json<{ groups: PeerGroup[] }>({ groups: await listPeerGroups() });
+    }
+
+    const group = await getPeerGroup(name);
+    if (!group) {
+      return NextResponse.json<ApiError>(
+        { error: 'Peer group not found', details: `No saved peer group named ${name}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json<PeerGroup>(group);
+
+  } catch (error) {
+    console.error('Error fetching peer groups:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to fetch peer groups',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/peer-groups
+ * Body: { "name": "cloud", "peers": ["MSFT", "ORCL"], "exclude": ["IBM"], "includeProviderPeers": false }
+ *
+ * Creates or replaces a saved peer group. `exclude` and `includeProviderPeers`
+ * are optional; provider peers top up the group by default only when it lists
+ * no peers of its own.
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid request body', details: 'Body must be JSON: { "name": string, "peers": string[] }' },
+      { status: 400 }
+    );
+  }
+
+  const { name, peers, exclude = [], includeProviderPeers } = (body ?? {}) as {
+    name?: unknown;
+    peers?: unknown;
+    exclude?: unknown;
+    includeProviderPeers?: unknown;
+  };
+  const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(s => typeof s === 'string');
+
+  if (typeof name !== 'string' || !isStringArray(peers)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'name must be a string and peers an array of strings' },
+      { status: 400 }
+    );
+  }
+
+  if (!PEER_GROUP_NAME_PATTERN.test(name.toLowerCase())) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'name must be 1-40 letters, digits, "-" or "_"' },
+      { status: 400 }
+    );
+  }
+
+  if (!isStringArray(exclude) || (includeProviderPeers !== undefined && typeof includeProviderPeers !== 'boolean')) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'exclude must be an array of strings and includeProviderPeers a boolean' },
+      { status: 400 }
+    );
+  }
+
+  // Normalize and de-duplicate while keeping request order
+  const normalize = (symbols: string[]) =>
+    Array.from(new Set(symbols.map(s => s.trim().toUpperCase()).filter(s => s.length > 0)));
+  const groupPeers = normalize(peers);
+  const groupExclude = normalize(exclude);
+
+  const peerListError = validatePeerList('peers', groupPeers, MAX_PEERS)
+    ?? validatePeerList('exclude', groupExclude, MAX_EXCLUDED_PEERS);
+  if (peerListError) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: peerListError },
+      { status: 400 }
+    );
+  }
+
+  if (groupPeers.length === 0 && includeProviderPeers === false) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'A group without provider peers must list at least one peer' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const group = await savePeerGroup({
+      name,
+      peers: groupPeers,
+      exclude: groupExclude,
+      includeProviderPeers: includeProviderPeers ?? groupPeers.length === 0,
+    });
+    return NextResponse.json<PeerGroup>(group);
+
+  } catch (error) {
+    console.error('Error saving peer group:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to save peer group',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/peer-groups?name=cloud
+ */
+export async function DELETE(request: NextRequest) {
+  const name = request.nextUrl.searchParams.get('name');
+
+  if (!name) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'name is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (!(await deletePeerGroup(name))) {
+      return NextResponse.json<ApiError>(
+        { error: 'Peer group not found', details: `No saved peer group named ${name}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json<{ deleted: string }>({ deleted: name.toLowerCase() });
+
+  } catch (error) {
+    console.error('Error deleting peer group:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to delete peer group',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
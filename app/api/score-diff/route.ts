@@ -0,0 +1,80 @@
+/**
+ * Score Diff Endpoint - /api/score-diff?symbol=AAPL&from=2025-01-02&to=2025-03-31
+ *
+ * Explains why a symbol's score moved between two daily snapshots: factor
+ * contributions, the compound adjustment, metric moves, peer set changes and
+ * the analyst mix (see lib/scoreDiff).
+ *
+ * Query parameters:
+ * - symbol (required): Stock ticker
+ * - to: YYYY-MM-DD - compares the latest snapshot on or before it (default: latest)
+ * - from: YYYY-MM-DD - latest snapshot on or before it (default: the one before `to`)
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, ScoreDiff } from '@/types/stock';
+import { getScoreHistory } from '@/lib/snapshots';
+import { SYMBOL_PATTERN } from '@/lib/peerGroups';
+import { diffSnapshots, snapshotOnOrBefore } from '@/lib/scoreDiff';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/score-diff
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const symbol = searchParams.get('symbol')?.toUpperCase();
+  const from = searchParams.get('from') || undefined;
+  const to = searchParams.get('to') || undefined;
+
+  if (!symbol) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'symbol is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'symbol must be a ticker of up to 15 letters, digits, ".", ":" or "-"' },
+      { status: 400 }
+    );
+  }
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to)) || (from && to && from >= to)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'from and to must be YYYY-MM-DD dates with from < to' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snapshots = await getScoreHistory(symbol);
+    const toSnapshot = to ? snapshotOnOrBefore(snapshots, to) : snapshots[snapshots.length - 1];
+    const fromSnapshot = toSnapshot && (from
+      ? snapshotOnOrBefore(snapshots, from)
+      : snapshots[snapshots.indexOf(toSnapshot) - 1]);
+
+    if (!toSnapshot || !fromSnapshot || fromSnapshot.date === toSnapshot.date) {
+      return NextResponse.json<ApiError>(
+        { error: 'Not enough history', details: `No two distinct snapshots of ${symbol} in the requested range` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json<ScoreDiff>(diffSnapshots(fromSnapshot, toSnapshot));
+  } catch (error) {
+    console.error('Error computing score diff:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to compute score diff',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
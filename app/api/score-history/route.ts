@@ -0,0 +1,65 @@
+/**
+ * Score History Endpoint - /api/score-history?symbol=AAPL&from=2025-01-01&to=2025-06-30
+ *
+ * Returns the daily score snapshots recorded for a symbol (see lib/snapshots).
+ * A snapshot is written whenever the symbol is scored, at most one per day.
+ *
+ * Query parameters:
+ * - symbol (required): Stock ticker
+ * - from / to: YYYY-MM-DD, inclusive (default: all recorded history)
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, ScoreHistoryResponse } from '@/types/stock';
+import { getScoreHistory } from '@/lib/snapshots';
+import { SYMBOL_PATTERN } from '@/lib/peerGroups';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/score-history
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const symbol = searchParams.get('symbol')?.toUpperCase();
+  const from = searchParams.get('from') || undefined;
+  const to = searchParams.get('to') || undefined;
+
+  if (!symbol) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'symbol is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!SYMBOL_PATTERN.test(symbol)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'symbol must be a ticker of up to 15 letters, digits, ".", ":" or "-"' },
+      { status: 400 }
+    );
+  }
+
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to)) || (from && to && from > to)) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'from and to must be YYYY-MM-DD dates with from <= to' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const snapshots = await getScoreHistory(symbol, from, to);
+    return NextResponse.json<ScoreHistoryResponse>({ symbol, from, to, snapshots });
+  } catch (error) {
+    console.error('Error reading score history:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to read score history',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
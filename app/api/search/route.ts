@@ -0,0 +1,82 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, SymbolSearchResponse } from '@/types/stock';
+import { getMarketDataProvider } from '@/lib/providers';
+import { getSymbolMaster, nextSymbolMasterRefresh, refreshSymbolMaster, searchSymbols } from '@/lib/symbolMaster';
+import { withUpstreamAccounting } from '@/lib/upstream';
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 25;
+
+/**
+ * GET /api/search?q=apple&limit=8
+ *
+ * Fuzzy ticker/company-name search over the local symbol master
+ * (see lib/symbolMaster). The first call after a cold start loads the full
+ * symbol list from the provider; later calls are served from memory.
+ */
+export const GET = withUpstreamAccounting(async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = (searchParams.get('q') || '').trim();
+
+  if (!query) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'q is required' },
+      { status: 400 }
+    );
+  }
+
+  const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+  const master = await getSymbolMaster(getMarketDataProvider());
+
+  return NextResponse.json<SymbolSearchResponse>({
+    query,
+    results: searchSymbols(master, query, limit),
+    source: master.source,
+    indexSize: master.records.length,
+    indexAsOf: master.asOf,
+  });
+});
+
+/**
+ * POST /api/search
+ *
+ * Re-fetches the symbol list from the provider now instead of waiting for
+ * the daily background refresh. Allowed once per refresh interval since the
+ * last fetch; earlier calls get 429 with the time the next one is allowed.
+ */
+export const POST = withUpstreamAccounting(async function POST() {
+  const provider = getMarketDataProvider();
+
+  if (!provider.isConfigured()) {
+    return NextResponse.json<ApiError>(
+      { error: 'Server configuration error', details: 'API key not configured' },
+      { status: 500 }
+    );
+  }
+
+  const nextRefresh = nextSymbolMasterRefresh(provider);
+  if (nextRefresh) {
+    return NextResponse.json<ApiError>(
+      { error: 'Too many requests', details: `The symbol list was refreshed recently; next refresh allowed at ${nextRefresh}` },
+      { status: 429, headers: { 'Retry-After': String(Math.ceil((Date.parse(nextRefresh) - Date.now()) / 1000)) } }
+    );
+  }
+
+  try {
+    const master = await refreshSymbolMaster(provider);
+    return NextResponse.json({ source: master.source, indexSize: master.records.length, indexAsOf: master.asOf });
+  } catch (error) {
+    console.error('Error refreshing symbol master:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to refresh symbol list',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 502 }
+    );
+  }
+});
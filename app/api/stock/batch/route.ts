@@ -0,0 +1,115 @@
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, BatchStockResponse, BatchStockResult } from '@/types/stock';
+import { getMarketDataProvider } from '@/lib/providers';
+import { scoreSymbols } from '@/lib/stockScore';
+import { withUpstreamAccounting } from '@/lib/upstream';
+import { CURRENT_SCORING_MODEL } from '@/lib/scoringModels';
+
+// Keep a single request's upstream fan-out bounded
+const MAX_BATCH_SYMBOLS = 50;
+const BATCH_CONCURRENCY = 4;
+
+/**
+ * POST /api/stock/batch
+ * Body: { "symbols": ["AAPL", "MSFT", ...] }
+ *
+ * Scores a list of symbols (watchlists, screeners) and returns a slim summary
+ * per symbol: score, breakdown, quote and profile. News and sentiment are
+ * skipped. Symbols in the same industry share one peer set, so peer metrics
+ * are fetched once and every symbol in the industry is scored against the
+ * same benchmarks (returned once under `industries`).
+ *
+ * A symbol that fails is reported in its own result entry; the batch as a
+ * whole only fails on invalid input or configuration.
+ */
+export const POST = withUpstreamAccounting(async function POST(request: NextRequest) {
+  const provider = getMarketDataProvider();
+
+  if (!provider.isConfigured()) {
+    return NextResponse.json<ApiError>(
+      { error: 'Server configuration error', details: 'API key not configured' },
+      { status: 500 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid request body', details: 'Body must be JSON: { "symbols": string[] }' },
+      { status: 400 }
+    );
+  }
+
+  const rawSymbols = (body as { symbols?: unknown } | null)?.symbols;
+  if (!Array.isArray(rawSymbols) || rawSymbols.some(s => typeof s !== 'string')) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'symbols must be an array of strings' },
+      { status: 400 }
+    );
+  }
+
+  // Normalize and de-duplicate while keeping request order
+  const symbols = Array.from(
+    new Set((rawSymbols as string[]).map(s => s.trim().toUpperCase()).filter(s => s.length > 0))
+  );
+
+  if (symbols.length === 0) {
+    return NextResponse.json<ApiError>(
+      { error: 'Missing required parameter', details: 'symbols must contain at least one symbol' },
+      { status: 400 }
+    );
+  }
+
+  if (symbols.length > MAX_BATCH_SYMBOLS) {
+    return NextResponse.json<ApiError>(
+      { error: 'Too many symbols', details: `A batch may contain at most ${MAX_BATCH_SYMBOLS} symbols` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { results: scored, industries } = await scoreSymbols(provider, symbols, BATCH_CONCURRENCY);
+
+    // Slim summaries only - no news, financials or sentiment
+    const results: BatchStockResult[] = scored.map(result => {
+      if (!result.ok) return result;
+      return {
+        symbol: result.symbol,
+        ok: true,
+        data: {
+          symbol: result.symbol,
+          profile: result.inputs.profile,
+          quote: result.inputs.quote,
+          stockScore: result.score,
+          scoreBreakdown: result.breakdown,
+          industry: result.industry,
+        },
+      };
+    });
+
+    const succeeded = results.filter(result => result.ok).length;
+
+    return NextResponse.json<BatchStockResponse>({
+      results,
+      industries,
+      succeeded,
+      failed: results.length - succeeded,
+      scoreModelVersion: CURRENT_SCORING_MODEL,
+    });
+
+  } catch (error) {
+    console.error('Error scoring stock batch:', error);
+    return NextResponse.json<ApiError>(
+      {
+        error: 'Failed to score batch',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+});
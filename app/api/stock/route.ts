@@ -3,92 +3,57 @@ export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
-  FinnhubQuote,
-  FinnhubProfile,
   FinnhubNewsArticle,
-  FinnhubBasicFinancials,
-  FinnhubRecommendationTrend,
-  FinnhubPriceTarget,
-  PeerMetrics,
   StockData,
   ApiError,
   NewsAPIArticle,
   SentimentAnalysis
 } from '@/types/stock';
-import { calculateIntelligentStockScore } from '@/lib/scoring';
 import { analyzeNewsSentiment } from '@/lib/sentiment';
 import { newsAPICache } from '@/lib/cache';
-
-// Finnhub API base URL
-const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
-
-// Server-side API keys (never exposed to client)
-const FINNHUB_API_KEY = process.env.FINNHUB_KEY;
-const NEWS_API_KEY = process.env.NEWS_API_KEY;
-
-// Timeout for API requests (10 seconds)
-const API_TIMEOUT = 10000;
-
-// Helper function to fetch with timeout
-async function fetchWithTimeout(url: string, options: RequestInit = {}, timeout: number = API_TIMEOUT): Promise<Response> {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
-
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-    clearTimeout(id);
-    return response;
-  } catch (error) {
-    clearTimeout(id);
-    if ((error as Error).name === 'AbortError') {
-      throw new Error('Request timeout');
-    }
-    throw error;
-  }
-}
-
-// Helper function to retry failed requests
-async function fetchWithRetry(url: string, options: RequestInit = {}, maxRetries: number = 2): Promise<Response> {
-  let lastError: Error | undefined;
-  
-  for (let i = 0; i <= maxRetries; i++) {
-    try {
-      return await fetchWithTimeout(url, options);
-    } catch (error) {
-      lastError = error as Error;
-      if (i < maxRetries) {
-        // Exponential backoff: wait 1s, then 2s
-        await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
-      }
-    }
-  }
-  
-  throw lastError;
-}
+import { getMarketDataProvider } from '@/lib/providers';
+import { fetchPeerMetrics, isDefaultPeerSelection, MAX_PEERS } from '@/lib/peerStore';
+import { getPeerGroup, MAX_EXCLUDED_PEERS, mergePeerSelection, parseSymbolList, validatePeerList } from '@/lib/peerGroups';
+import { fetchScoringInputs, fetchMarketMomentum, scoreStock } from '@/lib/stockScore';
+import { isNewsAPIConfigured, searchNewsAPI, NewsAPIError } from '@/lib/newsApi';
+import { withUpstreamAccounting, withUpstreamPriority } from '@/lib/upstream';
+import { getScoringProfile, SCORING_PROFILES } from '@/lib/scoringProfiles';
+import { getScoringModel, SCORING_MODELS } from '@/lib/scoringModels';
 
 /**
- * GET /api/stock?symbol=XYZ
+ * GET /api/stock?symbol=XYZ[&profile=value][&model=v2][&peers=MSFT,ORCL][&peerGroup=cloud][&exclude=IBM]
  * 
- * Server-side endpoint that aggregates data from multiple Finnhub endpoints:
+ * Server-side endpoint that aggregates data from the configured market data
+ * provider (Finnhub by default, see lib/providers):
  * - /quote - Current price and daily change
  * - /stock/profile2 - Company profile (name, logo, industry, market cap)
  * - /company-news - Last 14 days of news headlines
- * - /calendar/earnings - Next earnings date with EPS/revenue estimates
+ * - /calendar/earnings + /stock/earnings - Next earnings date and last 8 quarters (see lib/earnings)
+ * - /stock/financials-reported - Latest annual filing: FCF, ROIC and interest coverage (see lib/financialStatements)
  * 
  * Returns a combined JSON payload with a computed Stock Score (0-100).
- * All API calls use cache: "no-store" to avoid stale data during development.
+ * `profile` picks the scoring style (balanced, value, growth, quality, income -
+ * see lib/scoringProfiles); the one used is reported in scoreBreakdown.profile.
+ * `model` re-scores the same inputs under an older scoring model version (see
+ * lib/scoringModels); the version used is returned as scoreModelVersion.
+ * `peers` benchmarks against the listed symbols instead of the provider's
+ * peers (`providerPeers=true` tops up with provider peers), `peerGroup` applies
+ * a saved group (see lib/peerGroups) and `exclude` drops symbols from the set;
+ * industryBenchmarks.peers lists the peers used and where each came from.
+ * Scores with custom peers are not recorded in the score history.
+ * Upstream retry/timeout/rate-limit policy lives in the provider implementation;
+ * the number of upstream calls used is reported in the X-Upstream-Calls header.
  * 
  * Future enhancement points:
  * - Add NewsAPI integration for additional news sources
  * - Add Financial Modeling Prep (FMP) for more financial metrics
  * - Add Reddit sentiment analysis via Reddit API
  */
-export async function GET(request: NextRequest) {
-  // Validate API key is configured
-  if (!FINNHUB_API_KEY) {
+export const GET = withUpstreamAccounting(async function GET(request: NextRequest) {
+  const provider = getMarketDataProvider();
+
+  // Validate provider is configured (API key, fixtures, ...)
+  if (!provider.isConfigured()) {
     return NextResponse.json<ApiError>(
       { error: 'Server configuration error', details: 'API key not configured' },
       { status: 500 }
@@ -98,6 +63,12 @@ export async function GET(request: NextRequest) {
   // Extract symbol from query parameters
   const searchParams = request.nextUrl.searchParams;
   const symbol = searchParams.get('symbol')?.toUpperCase();
+  const scoringProfile = getScoringProfile(searchParams.get('profile'));
+  const scoringModel = getScoringModel(searchParams.get('model'));
+  const peers = parseSymbolList(searchParams.get('peers'));
+  const exclude = parseSymbolList(searchParams.get('exclude'));
+  const peerGroupName = searchParams.get('peerGroup');
+  const providerPeersParam = searchParams.get('providerPeers');
 
   if (!symbol) {
     return NextResponse.json<ApiError>(
@@ -106,7 +77,50 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  if (!scoringProfile) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `profile must be one of ${Object.keys(SCORING_PROFILES).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (!scoringModel) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: `model must be one of ${Object.keys(SCORING_MODELS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const peerListError = validatePeerList('peers', peers, MAX_PEERS) ?? validatePeerList('exclude', exclude, MAX_EXCLUDED_PEERS);
+  if (peerListError) {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: peerListError },
+      { status: 400 }
+    );
+  }
+
+  if (providerPeersParam !== null && providerPeersParam !== 'true' && providerPeersParam !== 'false') {
+    return NextResponse.json<ApiError>(
+      { error: 'Invalid parameter', details: 'providerPeers must be true or false' },
+      { status: 400 }
+    );
+  }
+
   try {
+    const peerGroup = peerGroupName ? await getPeerGroup(peerGroupName) : undefined;
+    if (peerGroupName && !peerGroup) {
+      return NextResponse.json<ApiError>(
+        { error: 'Peer group not found', details: `No saved peer group named ${peerGroupName}` },
+        { status: 404 }
+      );
+    }
+    const peerSelection = mergePeerSelection(
+      peerGroup,
+      peers,
+      exclude,
+      providerPeersParam === null ? null : providerPeersParam === 'true'
+    );
+
     // Calculate date range for news (last 14 days)
     const today = new Date();
     const twoWeeksAgo = new Date(today);
@@ -115,55 +129,16 @@ export async function GET(request: NextRequest) {
     const toDate = today.toISOString().split('T')[0];
     const fromDate = twoWeeksAgo.toISOString().split('T')[0];
 
-    // Fetch all data in parallel from Finnhub with retry logic and timeouts
-    // Using cache: "no-store" to ensure fresh data during development
-    const [quoteRes, profileRes, newsRes, financialsRes, recommendationsRes, priceTargetRes, newsAPIRes] = await Promise.all([
-      // Quote endpoint - current price and daily change (CRITICAL - no fallback)
-      fetchWithRetry(
-        `${FINNHUB_BASE_URL}/quote?symbol=${symbol}&token=${FINNHUB_API_KEY}`,
-        { cache: 'no-store' }
-      ),
-      // Profile endpoint - company information (CRITICAL - no fallback)
-      fetchWithRetry(
-        `${FINNHUB_BASE_URL}/stock/profile2?symbol=${symbol}&token=${FINNHUB_API_KEY}`,
-        { cache: 'no-store' }
-      ),
-      // News endpoint - last 14 days of company news (NON-CRITICAL - graceful degradation)
-      fetchWithRetry(
-        `${FINNHUB_BASE_URL}/company-news?symbol=${symbol}&from=${fromDate}&to=${toDate}&token=${FINNHUB_API_KEY}`,
-        { cache: 'no-store' }
-      ).catch(() => new Response(JSON.stringify([]), { status: 200 })),
-      // Basic financials - comprehensive metrics (NON-CRITICAL - graceful degradation)
-      fetchWithRetry(
-        `${FINNHUB_BASE_URL}/stock/metric?symbol=${symbol}&metric=all&token=${FINNHUB_API_KEY}`,
-        { cache: 'no-store' }
-      ).catch(() => new Response(JSON.stringify(null), { status: 200 })),
-      // Recommendation trends - analyst ratings (NON-CRITICAL - graceful degradation)
-      fetchWithRetry(
-        `${FINNHUB_BASE_URL}/stock/recommendation?symbol=${symbol}&token=${FINNHUB_API_KEY}`,
-        { cache: 'no-store' }
-      ).catch(() => new Response(JSON.stringify([]), { status: 200 })),
-      // Price target - analyst consensus targets (NON-CRITICAL - graceful degradation)
-      fetchWithRetry(
-        `${FINNHUB_BASE_URL}/stock/price-target?symbol=${symbol}&token=${FINNHUB_API_KEY}`,
-        { cache: 'no-store' }
-      ).catch(() => new Response(JSON.stringify(null), { status: 200 })),
-      // NewsAPI - placeholder (will be fetched after profile is available)
-      Promise.resolve(null),
+    // Fetch all data in parallel through the market data provider
+    const [inputs, news, marketMomentum] = await Promise.all([
+      // Quote, profile, financials, ratings, price target, momentum and earnings
+      fetchScoringInputs(provider, symbol),
+      // News - last 14 days of company news (NON-CRITICAL - graceful degradation)
+      provider.getCompanyNews(symbol, fromDate, toDate).catch((): FinnhubNewsArticle[] => []),
+      // SPY candles - market benchmark for relative strength (NON-CRITICAL)
+      fetchMarketMomentum(provider),
     ]);
-
-    // Check for API errors on core endpoints
-    if (!quoteRes.ok || !profileRes.ok) {
-      throw new Error('Failed to fetch data from Finnhub API');
-    }
-
-    // Parse responses
-    const quote: FinnhubQuote = await quoteRes.json();
-    const profile: FinnhubProfile = await profileRes.json();
-    const news: FinnhubNewsArticle[] = newsRes.ok ? await newsRes.json() : [];
-    const financials: FinnhubBasicFinancials | null = financialsRes.ok ? await financialsRes.json() : null;
-    const recommendations: FinnhubRecommendationTrend[] = recommendationsRes.ok ? await recommendationsRes.json() : [];
-    const priceTarget: FinnhubPriceTarget | null = priceTargetRes.ok ? await priceTargetRes.json() : null;
+    const { quote, profile, financials, recommendations, priceTarget, momentum, earnings } = inputs;
 
     // Validate that we got valid data (profile name is a good indicator)
     if (!profile.name) {
@@ -179,7 +154,7 @@ export async function GET(request: NextRequest) {
     let newsAPIArticles: NewsAPIArticle[] = [];
     let sentiment: SentimentAnalysis | undefined = undefined;
 
-    if (NEWS_API_KEY && profile.name) {
+    if (isNewsAPIConfigured() && profile.name) {
       const cacheKey = `news_${symbol}_${profile.name}`;
       
       // Check cache first
@@ -192,36 +167,24 @@ export async function GET(request: NextRequest) {
       } else {
         // Fetch from NewsAPI if not cached
         try {
-          const newsAPIUrl = `https://newsapi.org/v2/everything?q=${encodeURIComponent(
-            profile.name
-          )}&language=en&sortBy=publishedAt&pageSize=20&apiKey=${NEWS_API_KEY}`;
+          // 8s timeout, no retry for NewsAPI due to rate limits
+          const newsAPIData = await searchNewsAPI({ q: profile.name, pageSize: 20 }, 8000);
+          newsAPIArticles = newsAPIData.articles || [];
 
-          // Use fetchWithTimeout (no retry for NewsAPI due to rate limits)
-          const newsAPIResponse = await fetchWithTimeout(newsAPIUrl, { cache: 'no-store' }, 8000);
+          // Cache the successful response
+          newsAPICache.set(cacheKey, { status: 'ok', articles: newsAPIArticles });
 
-          if (newsAPIResponse.ok) {
-            const newsAPIData = await newsAPIResponse.json();
-            
-            // Handle rate limit response
-            if (newsAPIData.status === 'error' && newsAPIData.code === 'rateLimited') {
-              console.warn('NewsAPI rate limit exceeded - continuing without news sentiment');
-            } else {
-              newsAPIArticles = newsAPIData.articles || [];
-
-              // Cache the successful response
-              newsAPICache.set(cacheKey, { articles: newsAPIArticles });
-
-              // Analyze sentiment if we have articles
-              if (newsAPIArticles.length > 0) {
-                sentiment = analyzeNewsSentiment(newsAPIArticles);
-              }
-            }
-          } else if (newsAPIResponse.status === 429) {
-            console.warn('NewsAPI rate limit exceeded (429) - continuing without news sentiment');
+          // Analyze sentiment if we have articles
+          if (newsAPIArticles.length > 0) {
+            sentiment = analyzeNewsSentiment(newsAPIArticles);
           }
         } catch (error) {
           // NewsAPI failures are logged but don't break the entire response
-          console.warn('Failed to fetch NewsAPI data, continuing without it:', error);
+          if (error instanceof NewsAPIError && error.isRateLimited) {
+            console.warn('NewsAPI rate limit exceeded - continuing without news sentiment');
+          } else {
+            console.warn('Failed to fetch NewsAPI data, continuing without it:', error);
+          }
           // Gracefully continue without NewsAPI data
         }
       }
@@ -229,18 +192,18 @@ export async function GET(request: NextRequest) {
 
     // Fetch peer companies for industry comparison
     // This enables context-aware scoring relative to industry benchmarks
-    const peerMetrics = await fetchPeerMetrics(symbol, profile.finnhubIndustry || 'Technology');
+    // Peer calls run at low priority so other users' quote/profile calls go first
+    const peerSet = await withUpstreamPriority('low', () => fetchPeerMetrics(provider, symbol, peerSelection));
 
     // Compute intelligent Stock Score (0-100) using context-aware algorithm
     // Scores are normalized using z-scores and percentile rankings against industry peers
-    const intelligentScore = calculateIntelligentStockScore(
-      symbol,
-      quote,
-      financials,
-      recommendations,
-      priceTarget,
-      peerMetrics,
-      profile.finnhubIndustry || 'Technology'
+    const intelligentScore = scoreStock(
+      inputs,
+      peerSet.metrics,
+      marketMomentum,
+      scoringProfile,
+      scoringModel,
+      isDefaultPeerSelection(peerSelection)
     );
 
     // Combine all data into single response
@@ -251,13 +214,19 @@ export async function GET(request: NextRequest) {
       news: news,
       newsAPIArticles: newsAPIArticles.length > 0 ? newsAPIArticles : undefined,
       sentiment: sentiment,
-      earnings: null, // Earnings data removed due to unreliable free API data
+      earnings: earnings,
       financials: financials,
       recommendations: recommendations,
       priceTarget: priceTarget,
       stockScore: intelligentScore.score,
+      scoreModelVersion: scoringModel.version,
       scoreBreakdown: intelligentScore.breakdown,
-      industryBenchmarks: intelligentScore.benchmarks,
+      industryBenchmarks: {
+        ...intelligentScore.benchmarks,
+        peers: peerSet.peers,
+        excludedPeers: peerSet.excluded.length > 0 ? peerSet.excluded : undefined,
+      },
+      momentum: momentum,
     };
 
     return NextResponse.json<StockData>(stockData);
@@ -272,7 +241,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 
 
@@ -284,79 +253,3 @@ function getFutureDate(daysAhead: number): string {
   date.setDate(date.getDate() + daysAhead);
   return date.toISOString().split('T')[0];
 }
-
-/**
- * Fetch peer company metrics for industry comparison
- * Uses Finnhub's /stock/peers endpoint to get similar companies,
- * then fetches their financial metrics for benchmarking
- */
-async function fetchPeerMetrics(symbol: string, industry: string): Promise<PeerMetrics[]> {
-  try {
-    // Fetch peer companies with retry logic
-    const peersRes = await fetchWithRetry(
-      `${FINNHUB_BASE_URL}/stock/peers?symbol=${symbol}&token=${FINNHUB_API_KEY}`,
-      { cache: 'no-store' }
-    );
-
-    if (!peersRes.ok) {
-      console.warn('Failed to fetch peers, using empty peer list');
-      return [];
-    }
-
-    const peers: string[] = await peersRes.json();
-    
-    // Limit to top 10 peers to avoid excessive API calls
-    const limitedPeers = peers.slice(0, 10);
-
-    // Fetch metrics for each peer in parallel with retry logic
-    const peerMetricsPromises = limitedPeers.map(async (peerSymbol) => {
-      try {
-        const [quoteRes, metricsRes] = await Promise.all([
-          fetchWithRetry(
-            `${FINNHUB_BASE_URL}/quote?symbol=${peerSymbol}&token=${FINNHUB_API_KEY}`,
-            { cache: 'no-store' }
-          ).catch(() => null),
-          fetchWithRetry(
-            `${FINNHUB_BASE_URL}/stock/metric?symbol=${peerSymbol}&metric=all&token=${FINNHUB_API_KEY}`,
-            { cache: 'no-store' }
-          ).catch(() => null),
-        ]);
-
-        if (!quoteRes || !metricsRes || !quoteRes.ok || !metricsRes.ok) {
-          return null;
-        }
-
-        const quoteData: FinnhubQuote = await quoteRes.json();
-        const metricsData: FinnhubBasicFinancials = await metricsRes.json();
-
-        const peerMetric: PeerMetrics = {
-          symbol: peerSymbol,
-          revenueGrowth: metricsData.metric?.revenueGrowthQuarterlyYoy ?? metricsData.metric?.revenueGrowthAnnual,
-          epsGrowth: metricsData.metric?.epsGrowthQuarterlyYoy ?? metricsData.metric?.epsGrowthAnnual,
-          roe: metricsData.metric?.roeRfy,
-          roa: metricsData.metric?.roaRfy,
-          netMargin: metricsData.metric?.netProfitMarginAnnual,
-          operatingMargin: metricsData.metric?.operatingMarginAnnual,
-          pe: metricsData.metric?.peNormalizedAnnual,
-          pb: metricsData.metric?.pbAnnual,
-          debtEquity: metricsData.metric?.debtEquityAnnual,
-          currentRatio: metricsData.metric?.currentRatioAnnual,
-          momentum1M: quoteData.dp, // Using daily change as proxy
-          momentum3M: quoteData.dp, // Would need historical data for true 3M momentum
-        };
-
-        return peerMetric;
-      } catch (error) {
-        console.warn(`Failed to fetch metrics for peer ${peerSymbol}:`, error);
-        return null;
-      }
-    });
-
-    const results = await Promise.all(peerMetricsPromises);
-    return results.filter((peer): peer is PeerMetrics => peer !== null);
-
-  } catch (error) {
-    console.error('Error fetching peer metrics:', error);
-    return [];
-  }
-}
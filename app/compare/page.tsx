@@ -0,0 +1,259 @@
+'use client';
+
+import { Suspense, useEffect, useState, FormEvent } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { CompareResponse, CompareRow, ApiError } from '@/types/stock';
+import { formatCurrency } from '@/lib/formatters';
+import { getRowExtremes } from '@/lib/compare';
+
+/**
+ * FactorFive Compare Page - /compare?symbols=AAPL,MSFT,GOOGL
+ *
+ * Side-by-side comparison of 2-5 stocks:
+ * - One column per symbol with price and FactorFive Score
+ * - Rows for factor scores, key financial metrics and price-target upside
+ * - Best value per row highlighted green, worst highlighted red
+ */
+const GROUP_LABELS: Record<CompareRow['group'], string> = {
+  score: 'Scores',
+  valuation: 'Valuation',
+  profitability: 'Profitability',
+  growth: 'Growth',
+  health: 'Financial Health',
+  analyst: 'Analyst Targets',
+};
+
+function formatCell(row: CompareRow, value: number | null): string {
+  if (value === null) return 'N/A';
+  switch (row.format) {
+    case 'score':
+      return row.key === 'stockScore' ? value.toFixed(0) : `${value.toFixed(1)}/20`;
+    case 'percent':
+      return `${value >= 0 && row.key === 'priceTargetUpside' ? '+' : ''}${value.toFixed(1)}%`;
+    case 'currency':
+      return formatCurrency(value);
+    default:
+      return value.toFixed(2);
+  }
+}
+
+function ComparePageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const symbolsParam = searchParams.get('symbols') || '';
+  const [input, setInput] = useState(symbolsParam);
+  const [data, setData] = useState<CompareResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    document.title = 'Compare Stocks - FactorFive';
+  }, []);
+
+  useEffect(() => {
+    setInput(symbolsParam);
+    if (!symbolsParam) {
+      setData(null);
+      return;
+    }
+
+    const fetchComparison = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/compare?symbols=${encodeURIComponent(symbolsParam)}`);
+
+        if (!response.ok) {
+          const errorData: ApiError = await response.json();
+          throw new Error(errorData.details || errorData.error || 'Failed to compare stocks');
+        }
+
+        const comparison: CompareResponse = await response.json();
+        setData(comparison);
+      } catch (err) {
+        setData(null);
+        setError(err instanceof Error ? err.message : 'An unknown error occurred');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [symbolsParam]);
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const symbols = input
+      .split(/[\s,]+/)
+      .map(s => s.trim().toUpperCase())
+      .filter(s => s.length > 0)
+      .join(',');
+    if (symbols) {
+      router.push(`/compare?symbols=${symbols}`);
+    }
+  };
+
+  // Rows grouped in display order
+  const groups = data
+    ? (Object.keys(GROUP_LABELS) as CompareRow['group'][])
+        .map(group => ({ group, rows: data.rows.filter(row => row.group === group) }))
+        .filter(({ rows }) => rows.length > 0)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4 sm:p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Top Navigation Bar */}
+        <div className="mb-6 flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <button
+            onClick={() => router.push('/')}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 font-medium flex items-center gap-2 transition-colors"
+          >
+            ← Back to Home
+          </button>
+
+          <form onSubmit={handleSubmit} className="flex gap-2 w-full sm:w-auto">
+            <input
+              type="text"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="AAPL, MSFT, GOOGL"
+              className="flex-1 sm:w-72 px-4 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-800 dark:text-white outline-none transition-all"
+              autoComplete="off"
+            />
+            <button
+              type="submit"
+              className="bg-blue-600 hover:bg-blue-700 text-white font-semibold px-6 py-2 rounded-lg transition-colors duration-200"
+            >
+              Compare
+            </button>
+          </form>
+        </div>
+
+        <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Compare Stocks</h1>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          Enter 2-5 tickers separated by commas. The best value in each row is highlighted green, the worst red.
+        </p>
+
+        {loading && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 animate-pulse">
+            <div className="h-6 bg-gray-300 dark:bg-gray-700 rounded w-64 mb-4"></div>
+            <div className="space-y-3">
+              <div className="h-4 bg-gray-300 dark:bg-gray-700 rounded w-full"></div>
+              <div className="h-4 bg-gray-300 dark:bg-gray-700 rounded w-5/6"></div>
+              <div className="h-4 bg-gray-300 dark:bg-gray-700 rounded w-4/5"></div>
+            </div>
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 text-red-700 dark:text-red-300">
+            ⚠️ {error}
+          </div>
+        )}
+
+        {!loading && data && (
+          <>
+            {data.errors.length > 0 && (
+              <div className="mb-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-4 text-sm text-amber-800 dark:text-amber-300">
+                Skipped: {data.errors.map(e => `${e.symbol} (${e.details || e.error})`).join(', ')}
+              </div>
+            )}
+
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="text-left p-4 text-gray-500 dark:text-gray-400 font-medium">Metric</th>
+                    {data.columns.map(column => (
+                      <th key={column.symbol} className="p-4 text-center min-w-[140px]">
+                        <button
+                          onClick={() => router.push(`/ticker/${column.symbol}`)}
+                          className="flex flex-col items-center gap-1 mx-auto hover:opacity-80 transition-opacity"
+                        >
+                          {column.logo && (
+                            <img src={column.logo} alt={column.name} className="w-10 h-10 rounded-lg object-contain bg-white" />
+                          )}
+                          <span className="text-lg font-bold text-gray-900 dark:text-white">{column.symbol}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400 font-normal">{column.name}</span>
+                          <span className="text-sm text-gray-900 dark:text-white font-semibold">
+                            ${column.price.toFixed(2)}{' '}
+                            <span className={column.changePercent >= 0 ? 'text-green-600' : 'text-red-600'}>
+                              ({column.changePercent >= 0 ? '+' : ''}{column.changePercent.toFixed(2)}%)
+                            </span>
+                          </span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400 font-normal">{column.industry}</span>
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map(({ group, rows }) => (
+                    <GroupRows key={group} label={GROUP_LABELS[group]} rows={rows} columnCount={data.columns.length} />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {!loading && !data && !error && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-8 text-center text-gray-600 dark:text-gray-400">
+            Try{' '}
+            <button
+              onClick={() => router.push('/compare?symbols=AAPL,MSFT,GOOGL')}
+              className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
+            >
+              AAPL, MSFT, GOOGL
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function GroupRows({ label, rows, columnCount }: { label: string; rows: CompareRow[]; columnCount: number }) {
+  return (
+    <>
+      <tr className="bg-gray-50 dark:bg-gray-900/50">
+        <td colSpan={columnCount + 1} className="px-4 py-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+          {label}
+        </td>
+      </tr>
+      {rows.map(row => {
+        const { best, worst } = getRowExtremes(row);
+        return (
+          <tr key={row.key} className="border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+            <td className="px-4 py-3 text-gray-700 dark:text-gray-300 font-medium">{row.label}</td>
+            {row.values.map((value, index) => (
+              <td
+                key={index}
+                className={`px-4 py-3 text-center font-semibold ${
+                  index === best
+                    ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400'
+                    : index === worst
+                    ? 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400'
+                    : 'text-gray-900 dark:text-white'
+                }`}
+              >
+                {formatCell(row, value)}
+              </td>
+            ))}
+          </tr>
+        );
+      })}
+    </>
+  );
+}
+
+// useSearchParams needs a Suspense boundary in the App Router
+export default function ComparePage() {
+  return (
+    <Suspense fallback={null}>
+      <ComparePageContent />
+    </Suspense>
+  );
+}
@@ -1,10 +1,62 @@
 'use client';
 
-import { useEffect, useState, use, useRef, FormEvent } from 'react';
+import { useEffect, useState, use } from 'react';
 import { useRouter } from 'next/navigation';
-import { StockData, ApiError } from '@/types/stock';
-import { formatMarketCap, formatCurrency } from '@/lib/formatters';
+import { StockData, ApiError, ScoringProfileId, ScoreFactor, ConfidenceLevel, FactorConfidence } from '@/types/stock';
+import { formatMarketCap, formatCurrency, formatAge } from '@/lib/formatters';
 import { filterAndSortNewsByRelevance } from '@/lib/newsFilter';
+import { DEFAULT_SCORING_PROFILE, SCORING_PROFILES } from '@/lib/scoringProfiles';
+import { SCORING_MODELS } from '@/lib/scoringModels';
+import { SECTOR_TEMPLATES } from '@/lib/sectorTemplates';
+import SymbolSearch from '@/components/SymbolSearch';
+import ScoreHistoryChart from '@/components/ScoreHistoryChart';
+import ScoreDiffPanel from '@/components/ScoreDiffPanel';
+import ContributionWaterfall from '@/components/ContributionWaterfall';
+
+// Finnhub earnings calendar time-of-day codes
+const EARNINGS_HOUR_LABELS: Record<string, string> = {
+  bmo: 'Before open',
+  amc: 'After close',
+  dmh: 'During market hours',
+};
+
+const FACTOR_LABELS: Record<ScoreFactor, string> = {
+  growth: 'Growth',
+  profitability: 'Profitability',
+  valuation: 'Valuation',
+  quality: 'Quality',
+  analyst: 'Analyst',
+  momentum: 'Momentum',
+};
+
+function formatSurprise(value: number | null): string {
+  if (value === null) return 'N/A';
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+// /api/stock peer selection parameters accepted on the page URL
+const PEER_PARAMS = ['peers', 'peerGroup', 'exclude', 'providerPeers'];
+
+const CONFIDENCE_STYLES: Record<ConfidenceLevel, string> = {
+  high: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400',
+  medium: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  low: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400',
+};
+
+// Warning line for factor tiles scored mostly from neutral defaults
+function defaultsFlag(confidence: FactorConfidence | undefined) {
+  if (!confidence?.mostlyDefaults) return null;
+  return (
+    <p className="text-[10px] font-medium text-orange-600 dark:text-orange-400 mt-1" title={confidence.reasons.join('; ')}>
+      ⚠️ Mostly defaults
+    </p>
+  );
+}
+
+function surpriseColor(value: number | null): string {
+  if (value === null) return 'text-gray-500 dark:text-gray-400';
+  return value >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+}
 
 /**
  * FactorFive Ticker Page - /ticker/[symbol]
@@ -12,9 +64,14 @@ import { filterAndSortNewsByRelevance } from '@/lib/newsFilter';
  * Displays comprehensive stock information:
  * - Profile header with logo and company name
  * - Price and percent change panel
- * - FactorFive Score with detailed breakdown
+ * - FactorFive Score with detailed breakdown (scoring profile selectable) and
+ *   a per-metric contribution waterfall for each factor
+ * - Data confidence badge, with factors scored mostly from defaults flagged
+ * - Peer set behind the benchmarks (overridable with ?peers=, ?peerGroup=, ?exclude=)
+ * - Score history chart from daily snapshots, and what changed between two dates
  * - News sentiment analysis (positive/negative/neutral)
  * - Analyst recommendations and price targets
+ * - Next earnings date and last 8 quarters of EPS/revenue surprises
  * - Chronological news list with source and published time
  * 
  * Includes graceful loading and error states
@@ -25,8 +82,8 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
   const [data, setData] = useState<StockData | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [searchTicker, setSearchTicker] = useState('');
-  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [scoringProfile, setScoringProfile] = useState<ScoringProfileId>(DEFAULT_SCORING_PROFILE);
+  const [drillFactor, setDrillFactor] = useState<ScoreFactor | null>(null);
 
   // Update document title based on symbol
   useEffect(() => {
@@ -39,7 +96,14 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
       setError(null);
 
       try {
-        const response = await fetch(`/api/stock?symbol=${symbol.toUpperCase()}`);
+        const profileParam = scoringProfile === DEFAULT_SCORING_PROFILE ? '' : `&profile=${scoringProfile}`;
+        // Peer overrides in the page URL (?peers=, ?peerGroup=, ...) are passed through as-is
+        const pageParams = new URLSearchParams(window.location.search);
+        const peerParams = PEER_PARAMS
+          .filter(name => pageParams.has(name))
+          .map(name => `&${name}=${encodeURIComponent(pageParams.get(name)!)}`)
+          .join('');
+        const response = await fetch(`/api/stock?symbol=${symbol.toUpperCase()}${profileParam}${peerParams}`);
         
         if (!response.ok) {
           const errorData: ApiError = await response.json();
@@ -56,17 +120,7 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
     };
 
     fetchStockData();
-  }, [symbol]);
-
-  // Handle search form submission
-  const handleSearchSubmit = (e: FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    const newSymbol = searchTicker.trim().toUpperCase();
-    if (newSymbol && newSymbol !== symbol.toUpperCase()) {
-      router.push(`/ticker/${newSymbol}`);
-      setSearchTicker('');
-    }
-  };
+  }, [symbol, scoringProfile]);
 
   // Loading state
   if (loading) {
@@ -135,23 +189,14 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
           </button>
           
           {/* Quick Search Bar */}
-          <form onSubmit={handleSearchSubmit} className="flex gap-2 w-full sm:w-auto">
-            <input
-              ref={searchInputRef}
-              type="text"
-              value={searchTicker}
-              onChange={(e) => setSearchTicker(e.target.value)}
-              placeholder="Search another ticker..."
-              className="px-4 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all outline-none w-full sm:w-48"
-              maxLength={10}
-            />
-            <button
-              type="submit"
-              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 whitespace-nowrap"
-            >
-              Go
-            </button>
-          </form>
+          <SymbolSearch
+            variant="compact"
+            onSelect={(newSymbol) => {
+              if (newSymbol !== symbol.toUpperCase()) {
+                router.push(`/ticker/${newSymbol}`);
+              }
+            }}
+          />
         </div>
 
         {/* Profile Header */}
@@ -238,13 +283,31 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
 
     {/* FactorFive Score Panel */}
           <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
-            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
-              FactorFive Analysis
-            </h2>
+            <div className="flex items-center justify-between gap-3 mb-4">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                FactorFive Analysis
+              </h2>
+              <select
+                value={scoringProfile}
+                onChange={(e) => setScoringProfile(e.target.value as ScoringProfileId)}
+                title={SCORING_PROFILES[scoringProfile].description}
+                className="px-3 py-1 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white outline-none focus:border-blue-500"
+              >
+                {Object.values(SCORING_PROFILES).map(p => (
+                  <option key={p.id} value={p.id}>{p.name} profile</option>
+                ))}
+              </select>
+            </div>
             <div className="mb-6">
               <div className="flex justify-between items-center mb-2">
                 <span className="text-3xl font-bold text-gray-900 dark:text-white">
                   {data.stockScore}/100
+                  <span
+                    className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400"
+                    title={SCORING_MODELS[data.scoreModelVersion]?.description}
+                  >
+                    model {data.scoreModelVersion}
+                  </span>
                 </span>
                 <span className="text-sm text-gray-600 dark:text-gray-400">
                   {data.stockScore >= 70 ? '🟢 Strong Buy' : data.stockScore >= 55 ? '🟢 Buy' : data.stockScore >= 40 ? '🟡 Hold' : data.stockScore >= 25 ? '🔴 Sell' : '🔴 Strong Sell'}
@@ -263,17 +326,40 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
                   style={{ width: `${data.stockScore}%` }}
                 ></div>
               </div>
+              <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                <span
+                  className={`px-2 py-0.5 rounded-full font-medium ${CONFIDENCE_STYLES[data.scoreBreakdown.confidence.level]}`}
+                  title={`Confidence ${Math.round(data.scoreBreakdown.confidence.score * 100)}% - based on reported metrics, peer count and peer data age`}
+                >
+                  {data.scoreBreakdown.confidence.level.charAt(0).toUpperCase() + data.scoreBreakdown.confidence.level.slice(1)} confidence
+                </span>
+                {data.scoreBreakdown.confidence.reasons.length > 0 && (
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {data.scoreBreakdown.confidence.reasons.join(' · ')}
+                  </span>
+                )}
+              </div>
             </div>
             <div className="space-y-2 text-sm">
               <p className="text-gray-600 dark:text-gray-400 mb-4">
                 {data.scoreBreakdown.description}
               </p>
+              {data.scoreBreakdown.profile !== DEFAULT_SCORING_PROFILE && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                  {SCORING_PROFILES[data.scoreBreakdown.profile].description}. Weights:{' '}
+                  {Object.entries(data.scoreBreakdown.weights)
+                    .filter(([factor]) => factor !== 'momentum' || data.scoreBreakdown.momentumScore !== undefined)
+                    .map(([factor, weight]) => `${factor} ×${weight}`)
+                    .join(', ')}
+                </p>
+              )}
               
               {/* Detailed Score Breakdown with Tooltips */}
-              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 pt-2">
+              <div className={`grid grid-cols-2 ${data.scoreBreakdown.momentumScore !== undefined ? 'sm:grid-cols-6' : 'sm:grid-cols-5'} gap-3 pt-2`}>
                 <div 
-                  className="bg-gradient-to-br from-blue-50 to-blue-100 dark:from-blue-900/20 dark:to-blue-800/20 rounded-lg p-3 border border-blue-200 dark:border-blue-700 cursor-help relative group"
+                  className={`bg-gradient-to-br from-blue-50 to-blue-100 dark:from-blue-900/20 dark:to-blue-800/20 rounded-lg p-3 border border-blue-200 dark:border-blue-700 cursor-pointer relative group ${drillFactor === 'growth' ? 'ring-2 ring-blue-400' : ''}`}
                   title={data.scoreBreakdown.tooltips.growth}
+                  onClick={() => setDrillFactor(drillFactor === 'growth' ? null : 'growth')}
                 >
                   <p className="text-blue-600 dark:text-blue-400 text-xs font-medium mb-1">
                     Growth
@@ -284,14 +370,16 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
                   <p className="font-bold text-gray-900 dark:text-white text-lg">
                     {data.scoreBreakdown.growthScore}<span className="text-sm text-gray-500">/20</span>
                   </p>
+                  {defaultsFlag(data.scoreBreakdown.confidence.factors.growth)}
                   {/* Tooltip on hover */}
                   <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-48 bg-gray-900 text-white text-xs rounded-lg p-2 opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity z-10 shadow-lg">
                     {data.scoreBreakdown.tooltips.growth}
                   </div>
                 </div>
                 <div 
-                  className="bg-gradient-to-br from-green-50 to-green-100 dark:from-green-900/20 dark:to-green-800/20 rounded-lg p-3 border border-green-200 dark:border-green-700 cursor-help relative group"
+                  className={`bg-gradient-to-br from-green-50 to-green-100 dark:from-green-900/20 dark:to-green-800/20 rounded-lg p-3 border border-green-200 dark:border-green-700 cursor-pointer relative group ${drillFactor === 'profitability' ? 'ring-2 ring-blue-400' : ''}`}
                   title={data.scoreBreakdown.tooltips.profitability}
+                  onClick={() => setDrillFactor(drillFactor === 'profitability' ? null : 'profitability')}
                 >
                   <p className="text-green-600 dark:text-green-400 text-xs font-medium mb-1">
                     Profit
@@ -302,13 +390,15 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
                   <p className="font-bold text-gray-900 dark:text-white text-lg">
                     {data.scoreBreakdown.profitabilityScore}<span className="text-sm text-gray-500">/20</span>
                   </p>
+                  {defaultsFlag(data.scoreBreakdown.confidence.factors.profitability)}
                   <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-48 bg-gray-900 text-white text-xs rounded-lg p-2 opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity z-10 shadow-lg">
                     {data.scoreBreakdown.tooltips.profitability}
                   </div>
                 </div>
                 <div 
-                  className="bg-gradient-to-br from-purple-50 to-purple-100 dark:from-purple-900/20 dark:to-purple-800/20 rounded-lg p-3 border border-purple-200 dark:border-purple-700 cursor-help relative group"
+                  className={`bg-gradient-to-br from-purple-50 to-purple-100 dark:from-purple-900/20 dark:to-purple-800/20 rounded-lg p-3 border border-purple-200 dark:border-purple-700 cursor-pointer relative group ${drillFactor === 'valuation' ? 'ring-2 ring-blue-400' : ''}`}
                   title={data.scoreBreakdown.tooltips.valuation}
+                  onClick={() => setDrillFactor(drillFactor === 'valuation' ? null : 'valuation')}
                 >
                   <p className="text-purple-600 dark:text-purple-400 text-xs font-medium mb-1">
                     Value
@@ -319,13 +409,15 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
                   <p className="font-bold text-gray-900 dark:text-white text-lg">
                     {data.scoreBreakdown.valuationScore}<span className="text-sm text-gray-500">/20</span>
                   </p>
+                  {defaultsFlag(data.scoreBreakdown.confidence.factors.valuation)}
                   <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-48 bg-gray-900 text-white text-xs rounded-lg p-2 opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity z-10 shadow-lg">
                     {data.scoreBreakdown.tooltips.valuation}
                   </div>
                 </div>
                 <div 
-                  className="bg-gradient-to-br from-cyan-50 to-cyan-100 dark:from-cyan-900/20 dark:to-cyan-800/20 rounded-lg p-3 border border-cyan-200 dark:border-cyan-700 cursor-help relative group"
+                  className={`bg-gradient-to-br from-cyan-50 to-cyan-100 dark:from-cyan-900/20 dark:to-cyan-800/20 rounded-lg p-3 border border-cyan-200 dark:border-cyan-700 cursor-pointer relative group ${drillFactor === 'quality' ? 'ring-2 ring-blue-400' : ''}`}
                   title={data.scoreBreakdown.tooltips.quality}
+                  onClick={() => setDrillFactor(drillFactor === 'quality' ? null : 'quality')}
                 >
                   <p className="text-cyan-600 dark:text-cyan-400 text-xs font-medium mb-1">
                     Quality
@@ -336,13 +428,15 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
                   <p className="font-bold text-gray-900 dark:text-white text-lg">
                     {data.scoreBreakdown.qualityScore}<span className="text-sm text-gray-500">/20</span>
                   </p>
+                  {defaultsFlag(data.scoreBreakdown.confidence.factors.quality)}
                   <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-48 bg-gray-900 text-white text-xs rounded-lg p-2 opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity z-10 shadow-lg">
                     {data.scoreBreakdown.tooltips.quality}
                   </div>
                 </div>
                 <div 
-                  className="bg-gradient-to-br from-indigo-50 to-indigo-100 dark:from-indigo-900/20 dark:to-indigo-800/20 rounded-lg p-3 border border-indigo-200 dark:border-indigo-700 cursor-help relative group"
+                  className={`bg-gradient-to-br from-indigo-50 to-indigo-100 dark:from-indigo-900/20 dark:to-indigo-800/20 rounded-lg p-3 border border-indigo-200 dark:border-indigo-700 cursor-pointer relative group ${drillFactor === 'analyst' ? 'ring-2 ring-blue-400' : ''}`}
                   title={data.scoreBreakdown.tooltips.analyst}
+                  onClick={() => setDrillFactor(drillFactor === 'analyst' ? null : 'analyst')}
                 >
                   <p className="text-indigo-600 dark:text-indigo-400 text-xs font-medium mb-1">
                     Analyst
@@ -353,17 +447,56 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
                   <p className="font-bold text-gray-900 dark:text-white text-lg">
                     {data.scoreBreakdown.analystScore}<span className="text-sm text-gray-500">/20</span>
                   </p>
+                  {defaultsFlag(data.scoreBreakdown.confidence.factors.analyst)}
                   <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-48 bg-gray-900 text-white text-xs rounded-lg p-2 opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity z-10 shadow-lg">
                     {data.scoreBreakdown.tooltips.analyst}
                   </div>
                 </div>
+                {data.scoreBreakdown.momentumScore !== undefined && (
+                  <div 
+                    className={`bg-gradient-to-br from-amber-50 to-amber-100 dark:from-amber-900/20 dark:to-amber-800/20 rounded-lg p-3 border border-amber-200 dark:border-amber-700 cursor-pointer relative group ${drillFactor === 'momentum' ? 'ring-2 ring-blue-400' : ''}`}
+                    title={data.scoreBreakdown.tooltips.momentum}
+                    onClick={() => setDrillFactor(drillFactor === 'momentum' ? null : 'momentum')}
+                  >
+                    <p className="text-amber-600 dark:text-amber-400 text-xs font-medium mb-1">
+                      Momentum
+                      <span className="ml-1 text-[10px] bg-amber-200 dark:bg-amber-800 px-1 rounded">
+                        {data.scoreBreakdown.peerContext.percentileRanks.momentum}%ile
+                      </span>
+                    </p>
+                    <p className="font-bold text-gray-900 dark:text-white text-lg">
+                      {data.scoreBreakdown.momentumScore}<span className="text-sm text-gray-500">/20</span>
+                    </p>
+                    {defaultsFlag(data.scoreBreakdown.confidence.factors.momentum)}
+                    <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-2 w-48 bg-gray-900 text-white text-xs rounded-lg p-2 opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity z-10 shadow-lg">
+                      {data.scoreBreakdown.tooltips.momentum}
+                    </div>
+                  </div>
+                )}
               </div>
               
+              {drillFactor && data.scoreBreakdown.contributions[drillFactor] && (
+                <ContributionWaterfall
+                  label={FACTOR_LABELS[drillFactor]}
+                  score={drillFactor === 'momentum' ? data.scoreBreakdown.momentumScore ?? 0 : data.scoreBreakdown[`${drillFactor}Score`]}
+                  contributions={data.scoreBreakdown.contributions[drillFactor]!}
+                  statistics={data.scoreBreakdown.statistics}
+                />
+              )}
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                Click a factor to see the points each metric contributed.
+              </p>
+              
               {/* Industry Context Badge */}
               <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
                 <div className="flex items-center justify-between text-xs">
                   <span className="text-gray-600 dark:text-gray-400">
                     📊 Compared to <strong>{data.scoreBreakdown.peerContext.peerCount}</strong> peers in <strong>{data.scoreBreakdown.peerContext.industry}</strong>
+                    {data.scoreBreakdown.peerContext.sectorTemplate !== 'general' && (
+                      <span title={SECTOR_TEMPLATES[data.scoreBreakdown.peerContext.sectorTemplate].description}>
+                        {' '}· <strong>{SECTOR_TEMPLATES[data.scoreBreakdown.peerContext.sectorTemplate].name}</strong> template
+                      </span>
+                    )}
                   </span>
                   <span className="text-gray-500 dark:text-gray-400 italic">
                     Scores use z-score normalization
@@ -384,7 +517,7 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
             📊 Five-Factor Company Valuation Model
           </h2>
           <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
-            Comprehensive analysis using our proprietary 5-factor model: Growth, Profitability, Valuation, Quality, and Analyst Predictions. Each factor is scored 0-20 and normalized against {data.scoreBreakdown.peerContext.peerCount} industry peers in the {data.scoreBreakdown.peerContext.industry} sector.
+            Comprehensive analysis using our proprietary 5-factor model: Growth, Profitability, Valuation, Quality, and Analyst Predictions{data.scoreBreakdown.momentumScore !== undefined && ', plus price Momentum when history is available'}. Each factor is scored 0-20 and normalized against {data.scoreBreakdown.peerContext.peerCount} industry peers in the {data.scoreBreakdown.peerContext.industry} sector.
           </p>
 
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -487,7 +620,7 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
                 <strong>Quality Analysis (4 Components):</strong>
                 <div className="mt-2 space-y-1">
                   <div>• <strong>Balance Sheet Strength:</strong> D/E ratio, liquidity, financial leverage</div>
-                  <div>• <strong>Earnings Stability:</strong> Consistency and volatility of profits</div>
+                  <div>• <strong>Earnings Stability:</strong> EPS beat rate, average surprise and EPS growth volatility</div>
                   <div>• <strong>Cash Flow Quality:</strong> Operating margins as proxy for cash generation</div>
                   <div>• <strong>Capital Efficiency:</strong> ROE/ROIC and ROA performance</div>
                 </div>
@@ -520,6 +653,33 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
               </div>
             </div>
 
+            {/* Momentum Metrics (optional sixth factor) */}
+            {data.scoreBreakdown.momentumScore !== undefined && (
+              <div className="bg-gradient-to-br from-amber-50 to-amber-100 dark:from-amber-900/20 dark:to-amber-800/20 rounded-lg p-5 border border-amber-200 dark:border-amber-700 group relative">
+                <div className="flex items-center gap-2 mb-3">
+                  <div className="w-10 h-10 rounded-full bg-amber-500 dark:bg-amber-600 flex items-center justify-center text-white font-bold text-lg">
+                    {data.scoreBreakdown.momentumScore}
+                  </div>
+                  <div>
+                    <h3 className="font-bold text-amber-700 dark:text-amber-300 text-sm">🚀 Momentum</h3>
+                    <p className="text-xs text-amber-600 dark:text-amber-400">Price Trend & Relative Strength</p>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed">
+                  {data.scoreBreakdown.details.momentum}
+                </p>
+                <div className="mt-3 pt-3 border-t border-amber-300 dark:border-amber-700">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-amber-600 dark:text-amber-400 font-medium">Industry Percentile</span>
+                    <span className="font-bold text-amber-700 dark:text-amber-300">{data.scoreBreakdown.peerContext.percentileRanks.momentum}%</span>
+                  </div>
+                </div>
+                <div className="absolute bottom-full left-0 mb-2 w-64 bg-gray-900 text-white text-xs rounded-lg p-3 opacity-0 group-hover:opacity-100 pointer-events-none transition-opacity z-10 shadow-lg">
+                  <strong>Momentum Analysis:</strong> Scores 3, 6 and 12 month price returns against industry peers and measures relative strength versus the S&amp;P 500 (SPY). Only included when daily price history is available.
+                </div>
+              </div>
+            )}
+
             {/* Peer Comparison Summary */}
             <div className="bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-700/20 dark:to-gray-600/20 rounded-lg p-5 border border-gray-200 dark:border-gray-600">
               <div className="flex items-center gap-2 mb-3">
@@ -540,6 +700,43 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
                   <span>Peer Companies:</span>
                   <span className="font-semibold">{data.scoreBreakdown.peerContext.peerCount}</span>
                 </div>
+                {data.industryBenchmarks?.peerDataAsOf && (
+                  <div className="flex justify-between">
+                    <span>Peer Data:</span>
+                    <span
+                      className="font-semibold"
+                      title={`Fetched between ${new Date(data.industryBenchmarks.peerDataAsOf.oldest).toLocaleString()} and ${new Date(data.industryBenchmarks.peerDataAsOf.newest).toLocaleString()}`}
+                    >
+                      {formatAge(data.industryBenchmarks.peerDataAsOf.oldest)}
+                    </span>
+                  </div>
+                )}
+                {data.industryBenchmarks?.peers && data.industryBenchmarks.peers.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {data.industryBenchmarks.peers.map(peer => (
+                      <span
+                        key={peer.symbol}
+                        className={`px-1.5 py-0.5 rounded text-xs font-medium ${
+                          peer.source === 'user'
+                            ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'
+                            : 'bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200'
+                        }`}
+                        title={peer.source === 'user' ? 'Chosen peer' : 'Provider peer'}
+                      >
+                        {peer.symbol}
+                      </span>
+                    ))}
+                    {data.industryBenchmarks.excludedPeers?.map(excluded => (
+                      <span
+                        key={excluded}
+                        className="px-1.5 py-0.5 rounded text-xs text-gray-400 dark:text-gray-500 line-through"
+                        title="Excluded peer"
+                      >
+                        {excluded}
+                      </span>
+                    ))}
+                  </div>
+                )}
                 <div className="mt-3 pt-3 border-t border-gray-300 dark:border-gray-600">
                   <p className="text-xs text-gray-600 dark:text-gray-400 leading-relaxed">
                     Scores are calculated using z-score normalization against {data.scoreBreakdown.peerContext.peerCount} peer companies in the {data.scoreBreakdown.peerContext.industry} sector. Higher percentiles indicate better performance relative to peers.
@@ -560,6 +757,22 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
           </div>
         </div>
 
+        {/* Score History - daily snapshots */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+            📈 Score History
+          </h2>
+          <ScoreHistoryChart symbol={data.symbol} />
+        </div>
+
+        {/* What Changed - diff between two snapshots */}
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+            🔍 What Changed
+          </h2>
+          <ScoreDiffPanel symbol={data.symbol} />
+        </div>
+
         {/* Analyst Recommendations & Price Target */}
         {(data.recommendations.length > 0 || data.priceTarget) && (
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
@@ -686,6 +899,144 @@ export default function TickerPage({ params }: { params: Promise<{ symbol: strin
           </div>
         )}
 
+        {/* Earnings - next report date and last 8 quarters */}
+        {data.earnings && (data.earnings.next || data.earnings.history.length > 0) && (
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+              📅 Earnings
+            </h2>
+
+            {data.earnings.next && (
+              <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Next Report{data.earnings.next.quarter && data.earnings.next.year ? ` (Q${data.earnings.next.quarter} ${data.earnings.next.year})` : ''}
+                    </p>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                      {new Date(`${data.earnings.next.date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                      {data.earnings.next.hour && (
+                        <span className="ml-2 text-sm font-medium text-gray-500 dark:text-gray-400">
+                          {EARNINGS_HOUR_LABELS[data.earnings.next.hour] || data.earnings.next.hour}
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <span
+                    className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                      data.earnings.next.confidence === 'high'
+                        ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+                        : data.earnings.next.confidence === 'medium'
+                        ? 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400'
+                        : 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+                    }`}
+                    title={data.earnings.next.checks.join('\n')}
+                  >
+                    {data.earnings.next.source === 'projected' ? 'Projected' : 'Scheduled'} · {data.earnings.next.confidence} confidence
+                  </span>
+                </div>
+                {(data.earnings.next.epsEstimate !== null || data.earnings.next.revenueEstimate !== null) && (
+                  <div className="mt-3 flex flex-wrap gap-6 text-sm">
+                    {data.earnings.next.epsEstimate !== null && (
+                      <span className="text-gray-600 dark:text-gray-400">
+                        EPS Est: <span className="font-semibold text-gray-900 dark:text-white">${data.earnings.next.epsEstimate.toFixed(2)}</span>
+                      </span>
+                    )}
+                    {data.earnings.next.revenueEstimate !== null && (
+                      <span className="text-gray-600 dark:text-gray-400">
+                        Revenue Est: <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(data.earnings.next.revenueEstimate)}</span>
+                      </span>
+                    )}
+                  </div>
+                )}
+                {data.earnings.next.checks.length > 0 && (
+                  <ul className="mt-3 text-xs text-gray-500 dark:text-gray-400 space-y-1">
+                    {data.earnings.next.checks.map(check => (
+                      <li key={check}>• {check}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {data.earnings.summary?.beatRate != null && (
+              <div className="mb-3 flex flex-wrap gap-6 text-sm text-gray-600 dark:text-gray-400">
+                <span>
+                  Beat Rate: <span className="font-semibold text-gray-900 dark:text-white">
+                    {Math.round(data.earnings.summary.beatRate * data.earnings.summary.quarters)}/{data.earnings.summary.quarters} quarters
+                  </span>
+                </span>
+                {data.earnings.summary.avgSurprisePercent !== null && (
+                  <span>
+                    Avg EPS Surprise: <span className={`font-semibold ${surpriseColor(data.earnings.summary.avgSurprisePercent)}`}>
+                      {formatSurprise(data.earnings.summary.avgSurprisePercent)}
+                    </span>
+                  </span>
+                )}
+                {data.earnings.summary.epsGrowthStdDev !== null && (
+                  <span>
+                    EPS Growth Volatility: <span className="font-semibold text-gray-900 dark:text-white">
+                      σ {data.earnings.summary.epsGrowthStdDev.toFixed(0)}%
+                    </span>
+                  </span>
+                )}
+              </div>
+            )}
+
+            {data.earnings.history.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                      <th className="py-2 pr-4 font-medium">Quarter</th>
+                      <th className="py-2 pr-4 font-medium">Reported</th>
+                      <th className="py-2 pr-4 font-medium text-right">EPS Est</th>
+                      <th className="py-2 pr-4 font-medium text-right">EPS Actual</th>
+                      <th className="py-2 pr-4 font-medium text-right">Surprise</th>
+                      <th className="py-2 pr-4 font-medium text-right">Revenue Est</th>
+                      <th className="py-2 pr-4 font-medium text-right">Revenue Actual</th>
+                      <th className="py-2 font-medium text-right">Surprise</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.earnings.history.map(row => (
+                      <tr
+                        key={`${row.year}Q${row.quarter}`}
+                        className="border-b border-gray-100 dark:border-gray-700 last:border-b-0"
+                        title={row.flags.join('\n') || undefined}
+                      >
+                        <td className="py-2 pr-4 font-semibold text-gray-900 dark:text-white whitespace-nowrap">
+                          Q{row.quarter} {row.year}
+                          {row.flags.length > 0 && <span className="ml-1 text-amber-500">⚠</span>}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600 dark:text-gray-400 whitespace-nowrap">{row.reportDate || 'N/A'}</td>
+                        <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-400">
+                          {row.epsEstimate !== null ? `$${row.epsEstimate.toFixed(2)}` : 'N/A'}
+                        </td>
+                        <td className="py-2 pr-4 text-right font-semibold text-gray-900 dark:text-white">
+                          {row.epsActual !== null ? `$${row.epsActual.toFixed(2)}` : 'N/A'}
+                        </td>
+                        <td className={`py-2 pr-4 text-right font-semibold ${surpriseColor(row.epsSurprisePercent)}`}>
+                          {formatSurprise(row.epsSurprisePercent)}
+                        </td>
+                        <td className="py-2 pr-4 text-right text-gray-600 dark:text-gray-400">
+                          {row.revenueEstimate !== null ? formatCurrency(row.revenueEstimate) : 'N/A'}
+                        </td>
+                        <td className="py-2 pr-4 text-right font-semibold text-gray-900 dark:text-white">
+                          {row.revenueActual !== null ? formatCurrency(row.revenueActual) : 'N/A'}
+                        </td>
+                        <td className={`py-2 text-right font-semibold ${surpriseColor(row.revenueSurprisePercent)}`}>
+                          {formatSurprise(row.revenueSurprisePercent)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* News Sentiment Section */}
         {data.sentiment && (
           <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 mb-6">
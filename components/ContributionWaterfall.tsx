@@ -0,0 +1,101 @@
+'use client';
+
+import { MetricContribution, StatisticsMethod } from '@/types/stock';
+
+/**
+ * Contribution Waterfall
+ *
+ * Drill-down for one factor score: each metric's points stacked left to
+ * right on a 0-20 track (adjustments shown in red/green), with the raw value,
+ * peer benchmark ± spread (mean ± σ, or median ± scaled MAD under robust
+ * statistics, with the share taken from the sector prior), z-score and
+ * percentile it was scored on.
+ */
+interface ContributionWaterfallProps {
+  label: string;
+  score: number;
+  contributions: MetricContribution[];
+  statistics?: StatisticsMethod;
+}
+
+const METHOD_LABELS: Record<MetricContribution['method'], string> = {
+  'z-score': 'z-score vs peers',
+  'peer-ratio': 'ratio to peer average',
+  threshold: 'threshold tiers',
+  default: 'default points',
+  adjustment: 'adjustment',
+};
+
+const formatNumber = (value: number | null, digits = 2) => (value === null ? '–' : value.toFixed(digits));
+
+export default function ContributionWaterfall({ label, score, contributions, statistics }: ContributionWaterfallProps) {
+  const benchmarkLabel = statistics?.center === 'median' ? 'peer median' : 'peer mean';
+
+  // Running total before each row, for the floating bars
+  let running = 0;
+  const rows = contributions.map(c => {
+    const start = running;
+    running += c.points;
+    return { ...c, start, end: running };
+  });
+
+  const toPercent = (points: number) => `${Math.max(0, Math.min(100, (points / 20) * 100))}%`;
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+      <div className="flex items-baseline justify-between mb-3">
+        <h4 className="text-sm font-bold text-gray-900 dark:text-white">{label}: how {score}/20 adds up</h4>
+        <span className="text-xs text-gray-500 dark:text-gray-400">points on a 0-20 scale</span>
+      </div>
+
+      <div className="space-y-2">
+        {rows.map(row => {
+          const left = Math.min(row.start, row.end);
+          const width = Math.abs(row.points);
+          const isAdjustment = row.method === 'adjustment';
+          const barColor = isAdjustment
+            ? (row.points < 0 ? 'bg-red-400' : 'bg-green-400')
+            : row.method === 'default' ? 'bg-gray-400' : 'bg-blue-500';
+
+          return (
+            <div key={row.key} className="grid grid-cols-12 gap-2 items-center text-xs">
+              <div className="col-span-4 sm:col-span-3 text-gray-700 dark:text-gray-300 truncate" title={row.note ?? METHOD_LABELS[row.method]}>
+                {row.metric}
+              </div>
+              <div className="col-span-5 sm:col-span-6 relative h-4 bg-gray-200 dark:bg-gray-600 rounded">
+                <div
+                  className={`absolute top-0 h-4 rounded ${barColor}`}
+                  style={{ left: toPercent(left), width: toPercent(width) }}
+                ></div>
+              </div>
+              <div className="col-span-3 text-right font-semibold text-gray-900 dark:text-white">
+                {row.points > 0 && isAdjustment ? '+' : ''}{row.points.toFixed(1)}
+                {!isAdjustment && <span className="text-gray-500 font-normal">/{row.maxPoints}</span>}
+              </div>
+              {!isAdjustment && (
+                <div className="col-span-12 sm:col-start-4 sm:col-span-9 -mt-1 text-[11px] text-gray-500 dark:text-gray-400">
+                  {row.value !== null ? `Value ${formatNumber(row.value)}` : 'Not reported'}
+                  {row.peerMean !== null && ` · ${benchmarkLabel} ${formatNumber(row.peerMean)}${row.peerStdDev !== null ? ` ± ${formatNumber(row.peerStdDev)}` : ''}`}
+                  {row.priorWeight !== undefined && ` (${Math.round(row.priorWeight * 100)}% sector prior)`}
+                  {row.zScore !== null && ` · z ${row.zScore >= 0 ? '+' : ''}${formatNumber(row.zScore)}`}
+                  {row.percentile !== null && ` · ${row.percentile}th pct`}
+                  {` · ${METHOD_LABELS[row.method]}`}
+                  {row.note && ` · ${row.note}`}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {/* Total */}
+        <div className="grid grid-cols-12 gap-2 items-center text-xs pt-2 border-t border-gray-200 dark:border-gray-600">
+          <div className="col-span-4 sm:col-span-3 font-bold text-gray-900 dark:text-white">Total</div>
+          <div className="col-span-5 sm:col-span-6 relative h-4 bg-gray-200 dark:bg-gray-600 rounded">
+            <div className="absolute top-0 left-0 h-4 rounded bg-gray-800 dark:bg-gray-200" style={{ width: toPercent(score) }}></div>
+          </div>
+          <div className="col-span-3 text-right font-bold text-gray-900 dark:text-white">{score}/20</div>
+        </div>
+      </div>
+    </div>
+  );
+}
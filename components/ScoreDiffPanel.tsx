@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ScoreDiff, ScoreDriver, ScoreHistoryResponse } from '@/types/stock';
+
+/**
+ * Score Diff Panel ("What Changed")
+ *
+ * Picks two snapshot dates (default: the two most recent) and shows why the
+ * score moved between them, via /api/score-diff: per-factor point
+ * contributions, the compound adjustment, and the metric, peer and analyst
+ * changes behind them.
+ */
+interface ScoreDiffPanelProps {
+  symbol: string;
+}
+
+const DRIVER_ICONS: Record<ScoreDriver['kind'], string> = {
+  factor: '📊',
+  metric: '↳',
+  peers: '👥',
+  analyst: '↳',
+  compound: '✨',
+  industry: '🏭',
+  model: '⚙️',
+};
+
+const pointsColor = (points: number) =>
+  points > 0 ? 'text-green-600 dark:text-green-400' : points < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400';
+
+const signed = (value: number, digits = 1) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+export default function ScoreDiffPanel({ symbol }: ScoreDiffPanelProps) {
+  const [dates, setDates] = useState<string[]>([]);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [diff, setDiff] = useState<ScoreDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Available snapshot dates
+  useEffect(() => {
+    const fetchDates = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/score-history?symbol=${encodeURIComponent(symbol)}`);
+        if (!response.ok) throw new Error('Failed to load score history');
+        const data: ScoreHistoryResponse = await response.json();
+        const available = data.snapshots.map(s => s.date);
+        setDates(available);
+        setFrom(available[available.length - 2] ?? '');
+        setTo(available[available.length - 1] ?? '');
+      } catch {
+        setDates([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDates();
+  }, [symbol]);
+
+  // Diff for the selected pair
+  useEffect(() => {
+    if (!from || !to || from >= to) {
+      setDiff(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const fetchDiff = async () => {
+      try {
+        const params = new URLSearchParams({ symbol, from, to });
+        const response = await fetch(`/api/score-diff?${params}`, { signal: controller.signal });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.details || data.error);
+        setDiff(data as ScoreDiff);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setDiff(null);
+        setError(err instanceof Error ? err.message : 'Failed to compare snapshots');
+      }
+    };
+
+    fetchDiff();
+    return () => controller.abort();
+  }, [symbol, from, to]);
+
+  if (loading) {
+    return <div className="h-32 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse"></div>;
+  }
+
+  if (dates.length < 2) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+        At least two days of score history are needed to explain a change.
+      </p>
+    );
+  }
+
+  const selectClass = 'px-3 py-1 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-700 dark:text-white outline-none focus:border-blue-500';
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4 text-sm text-gray-600 dark:text-gray-400">
+        <span>Compare</span>
+        <select value={from} onChange={(e) => setFrom(e.target.value)} className={selectClass}>
+          {dates.slice(0, -1).map(date => <option key={date} value={date}>{date}</option>)}
+        </select>
+        <span>→</span>
+        <select value={to} onChange={(e) => setTo(e.target.value)} className={selectClass}>
+          {dates.slice(1).map(date => <option key={date} value={date}>{date}</option>)}
+        </select>
+      </div>
+
+      {from >= to && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Pick a start date before the end date.</p>
+      )}
+      {error && from < to && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {diff && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Score and factor contributions */}
+          <div>
+            <div className="flex items-baseline gap-3 mb-4">
+              <span className="text-3xl font-bold text-gray-900 dark:text-white">
+                {diff.fromScore} → {diff.toScore}
+              </span>
+              <span className={`text-lg font-semibold ${pointsColor(diff.change)}`}>
+                {signed(diff.change, 0)}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {diff.factors.map(f => (
+                <div key={f.factor} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">{f.label}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {f.from ?? '–'} → {f.to ?? '–'}
+                    <span className={`ml-3 inline-block w-14 text-right font-semibold ${pointsColor(f.points)}`}>
+                      {signed(f.points)}
+                    </span>
+                  </span>
+                </div>
+              ))}
+              {(diff.compoundAdjustment.from !== undefined || diff.compoundAdjustment.to !== undefined) && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">Compound adjustment</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {diff.compoundAdjustment.from ?? '–'} → {diff.compoundAdjustment.to ?? '–'}
+                    <span className={`ml-3 inline-block w-14 text-right font-semibold ${pointsColor(diff.compoundAdjustment.change)}`}>
+                      {signed(diff.compoundAdjustment.change)}
+                    </span>
+                  </span>
+                </div>
+              )}
+              {Math.abs(diff.unattributed) >= 0.5 && (
+                <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                  <span>Rounding / unrecorded</span>
+                  <span className="w-14 text-right">{signed(diff.unattributed)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Why */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Why it moved</h3>
+            {diff.drivers.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No meaningful changes between these dates.</p>
+            ) : (
+              <ul className="space-y-1.5">
+                {diff.drivers.map((driver, i) => (
+                  <li
+                    key={i}
+                    className={`text-sm flex gap-2 ${
+                      driver.kind === 'metric' || driver.kind === 'analyst'
+                        ? 'pl-6 text-gray-600 dark:text-gray-400'
+                        : 'text-gray-800 dark:text-gray-200'
+                    }`}
+                  >
+                    <span>{DRIVER_ICONS[driver.kind]}</span>
+                    <span>{driver.description}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
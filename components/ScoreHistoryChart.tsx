@@ -0,0 +1,206 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { ScoreHistoryResponse, ScoreSnapshot } from '@/types/stock';
+
+/**
+ * Score History Chart
+ *
+ * Line chart of a symbol's daily score snapshots (/api/score-history).
+ * Shows the 0-100 FactorFive Score, optionally overlaid with the factor
+ * scores (0-20, drawn on the same scale x5). Plain SVG - no chart library.
+ */
+interface ScoreHistoryChartProps {
+  symbol: string;
+}
+
+const RANGES = [
+  { label: '1M', days: 30 },
+  { label: '3M', days: 90 },
+  { label: '1Y', days: 365 },
+  { label: 'All', days: null },
+] as const;
+
+const FACTOR_LINES: Array<{ key: keyof ScoreSnapshot['subScores']; label: string; color: string }> = [
+  { key: 'growth', label: 'Growth', color: '#3b82f6' },
+  { key: 'profitability', label: 'Profitability', color: '#22c55e' },
+  { key: 'valuation', label: 'Valuation', color: '#a855f7' },
+  { key: 'quality', label: 'Quality', color: '#f97316' },
+  { key: 'analyst', label: 'Analyst', color: '#ec4899' },
+  { key: 'momentum', label: 'Momentum', color: '#f59e0b' },
+];
+
+// SVG viewBox and padding
+const WIDTH = 600;
+const HEIGHT = 220;
+const PAD = { top: 10, right: 10, bottom: 24, left: 30 };
+
+export default function ScoreHistoryChart({ symbol }: ScoreHistoryChartProps) {
+  const [range, setRange] = useState<(typeof RANGES)[number]['label']>('3M');
+  const [snapshots, setSnapshots] = useState<ScoreSnapshot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showFactors, setShowFactors] = useState(false);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    const days = RANGES.find(r => r.label === range)?.days;
+    const params = new URLSearchParams({ symbol });
+    if (days) {
+      const from = new Date();
+      from.setDate(from.getDate() - days);
+      params.set('from', from.toISOString().split('T')[0]);
+    }
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/score-history?${params}`);
+        if (!response.ok) throw new Error('Failed to load score history');
+        const data: ScoreHistoryResponse = await response.json();
+        setSnapshots(data.snapshots);
+      } catch {
+        setSnapshots([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [symbol, range]);
+
+  // Map snapshots to chart coordinates (x by date, y by 0-100 score)
+  const chart = useMemo(() => {
+    if (snapshots.length === 0) return null;
+    const times = snapshots.map(s => Date.parse(s.date));
+    const minTime = times[0];
+    const span = Math.max(1, times[times.length - 1] - minTime);
+    const innerWidth = WIDTH - PAD.left - PAD.right;
+    const innerHeight = HEIGHT - PAD.top - PAD.bottom;
+
+    const x = (i: number) => PAD.left + (snapshots.length === 1 ? innerWidth / 2 : ((times[i] - minTime) / span) * innerWidth);
+    const y = (score: number) => PAD.top + (1 - score / 100) * innerHeight;
+    const path = (value: (s: ScoreSnapshot) => number | undefined) => {
+      let d = '';
+      snapshots.forEach((s, i) => {
+        const v = value(s);
+        if (v === undefined) return;
+        d += `${d ? 'L' : 'M'}${x(i).toFixed(1)},${y(v).toFixed(1)}`;
+      });
+      return d;
+    };
+
+    return { x, y, path };
+  }, [snapshots]);
+
+  const hovered = hoverIndex !== null ? snapshots[hoverIndex] : null;
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const change = first && last ? last.stockScore - first.stockScore : 0;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          {snapshots.length > 1 && (
+            <>
+              {first.date} → {last.date}:{' '}
+              <span className={`font-semibold ${change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                {change >= 0 ? '+' : ''}{change.toFixed(0)} pts
+              </span>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 mr-2">
+            <input type="checkbox" checked={showFactors} onChange={(e) => setShowFactors(e.target.checked)} />
+            Factors
+          </label>
+          {RANGES.map(r => (
+            <button
+              key={r.label}
+              onClick={() => setRange(r.label)}
+              className={`px-3 py-1 rounded-lg text-xs font-semibold transition-colors ${
+                range === r.label
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="h-48 bg-gray-100 dark:bg-gray-700 rounded-lg animate-pulse"></div>
+      ) : !chart ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-12">
+          No score history yet - a snapshot is recorded each day the stock is scored.
+        </p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            className="w-full h-auto"
+            onMouseLeave={() => setHoverIndex(null)}
+            onMouseMove={(e) => {
+              const rect = e.currentTarget.getBoundingClientRect();
+              const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+              let nearest = 0;
+              snapshots.forEach((_, i) => {
+                if (Math.abs(chart.x(i) - svgX) < Math.abs(chart.x(nearest) - svgX)) nearest = i;
+              });
+              setHoverIndex(nearest);
+            }}
+          >
+            {/* Grid lines at 0/25/50/75/100 */}
+            {[0, 25, 50, 75, 100].map(tick => (
+              <g key={tick}>
+                <line x1={PAD.left} x2={WIDTH - PAD.right} y1={chart.y(tick)} y2={chart.y(tick)} stroke="currentColor" className="text-gray-200 dark:text-gray-700" strokeWidth={1} />
+                <text x={PAD.left - 6} y={chart.y(tick) + 3} textAnchor="end" fontSize={10} fill="currentColor" className="text-gray-400">{tick}</text>
+              </g>
+            ))}
+
+            {showFactors && FACTOR_LINES.map(line => (
+              <path
+                key={line.key}
+                d={chart.path(s => (s.subScores[line.key] !== undefined ? (s.subScores[line.key] as number) * 5 : undefined))}
+                fill="none"
+                stroke={line.color}
+                strokeWidth={1.5}
+                strokeOpacity={0.7}
+              />
+            ))}
+
+            <path d={chart.path(s => s.stockScore)} fill="none" stroke="#2563eb" strokeWidth={2.5} />
+            {snapshots.length <= 60 && snapshots.map((s, i) => (
+              <circle key={s.date} cx={chart.x(i)} cy={chart.y(s.stockScore)} r={2.5} fill="#2563eb" />
+            ))}
+
+            {hovered && hoverIndex !== null && (
+              <g>
+                <line x1={chart.x(hoverIndex)} x2={chart.x(hoverIndex)} y1={PAD.top} y2={HEIGHT - PAD.bottom} stroke="#9ca3af" strokeDasharray="3 3" />
+                <circle cx={chart.x(hoverIndex)} cy={chart.y(hovered.stockScore)} r={4} fill="#2563eb" />
+              </g>
+            )}
+
+            <text x={PAD.left} y={HEIGHT - 6} fontSize={10} fill="currentColor" className="text-gray-400">{first.date}</text>
+            <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" fontSize={10} fill="currentColor" className="text-gray-400">{last.date}</text>
+          </svg>
+
+          {hovered && (
+            <div className="mt-2 text-xs text-gray-600 dark:text-gray-400 flex flex-wrap gap-x-4 gap-y-1">
+              <span className="font-semibold text-gray-900 dark:text-white">{hovered.date}: {hovered.stockScore.toFixed(0)}/100</span>
+              {FACTOR_LINES.filter(line => hovered.subScores[line.key] !== undefined).map(line => (
+                <span key={line.key} style={{ color: showFactors ? line.color : undefined }}>
+                  {line.label} {(hovered.subScores[line.key] as number).toFixed(1)}/20
+                </span>
+              ))}
+              <span>{hovered.peers.length} peers</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
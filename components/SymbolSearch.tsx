@@ -0,0 +1,200 @@
+'use client';
+
+import { useState, useEffect, useRef, FormEvent } from 'react';
+import { SymbolSearchResponse, SymbolSearchResult } from '@/types/stock';
+
+/**
+ * Symbol Search Component
+ *
+ * Ticker/company search box backed by /api/search. Suggestions are fetched
+ * as the user types (debounced) and matched fuzzily on ticker and company
+ * name. Submitting picks an exact ticker match, otherwise the top suggestion
+ * when the input is a company name (not ticker-shaped, or the start of the
+ * suggestion's name), otherwise whatever was typed. Suggestions still showing
+ * for an earlier query are never picked.
+ *
+ * Two layouts: "hero" (home page) and "compact" (ticker page header).
+ */
+interface SymbolSearchProps {
+  onSelect: (symbol: string) => void;
+  variant?: 'hero' | 'compact';
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+// Wait for a pause in typing before querying
+const SEARCH_DEBOUNCE_MS = 150;
+
+// Input that could be a ticker on its own (AAPL, BRK.B, RDS-A)
+const TICKER_PATTERN = /^[A-Z][A-Z0-9.-]{0,9}$/;
+
+export default function SymbolSearch({ onSelect, variant = 'hero', placeholder, autoFocus }: SymbolSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SymbolSearchResult[]>([]);
+  const [resultsQuery, setResultsQuery] = useState(''); // Query the suggestions belong to
+  const [showDropdown, setShowDropdown] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Fetch suggestions for the current input
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length === 0) {
+      setResults([]);
+      setResultsQuery('');
+      setShowDropdown(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}&limit=8`, { signal: controller.signal });
+        if (!response.ok) return;
+        const data: SymbolSearchResponse = await response.json();
+        setResults(data.results);
+        setResultsQuery(trimmed);
+        setShowDropdown(data.results.length > 0 && document.activeElement === inputRef.current);
+      } catch {
+        // Aborted or offline - keep the previous suggestions
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node) &&
+          inputRef.current && !inputRef.current.contains(event.target as Node)) {
+        setShowDropdown(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const select = (symbol: string) => {
+    setShowDropdown(false);
+    setQuery('');
+    onSelect(symbol);
+  };
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const typed = query.trim().toUpperCase();
+    if (!typed) return;
+
+    // Suggestions from a previous (debounced) query don't describe what was typed
+    if (resultsQuery !== query.trim()) {
+      select(typed);
+      return;
+    }
+
+    const exact = results.find(result => result.symbol === typed);
+    // A ticker-shaped input only goes to another symbol when it starts that company's name ("tesla")
+    const top = results[0];
+    const suggestion = top && (!TICKER_PATTERN.test(typed) || top.name.toUpperCase().startsWith(typed)) ? top : undefined;
+    select(exact?.symbol ?? suggestion?.symbol ?? typed);
+  };
+
+  const isHero = variant === 'hero';
+
+  const dropdown = showDropdown && results.length > 0 && (
+    <div
+      ref={dropdownRef}
+      className={`absolute z-10 w-full mt-2 bg-white dark:bg-gray-800 border-2 border-gray-200 dark:border-gray-600 rounded-xl shadow-2xl max-h-80 overflow-y-auto ${
+        isHero ? '' : 'sm:w-96 right-0'
+      }`}
+    >
+      {results.map(result => (
+        <button
+          key={result.symbol}
+          type="button"
+          onClick={() => select(result.symbol)}
+          className={`w-full text-left hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors duration-150 border-b border-gray-100 dark:border-gray-700 last:border-b-0 ${
+            isHero ? 'px-6 py-3' : 'px-4 py-2'
+          }`}
+        >
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <span className={`font-semibold text-gray-900 dark:text-white ${isHero ? 'text-lg' : ''}`}>
+                {result.symbol}
+              </span>
+              <p className="text-sm text-gray-600 dark:text-gray-400 truncate">{result.name}</p>
+            </div>
+            <span className="text-xs text-gray-500 dark:text-gray-400 bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded whitespace-nowrap">
+              {result.exchange}{result.type !== 'Common Stock' ? ` · ${result.type}` : ''}
+            </span>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+
+  if (isHero) {
+    return (
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="relative">
+          <label
+            htmlFor="ticker"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            Enter Stock Ticker or Company Name
+          </label>
+          <input
+            ref={inputRef}
+            id="ticker"
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onFocus={() => results.length > 0 && setShowDropdown(true)}
+            placeholder={placeholder ?? 'e.g., AAPL, Tesla, Microsoft'}
+            className="w-full px-6 py-4 text-lg border-2 border-gray-300 dark:border-gray-600 rounded-xl focus:ring-4 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all duration-200 outline-none"
+            required
+            maxLength={60}
+            autoComplete="off"
+            autoFocus={autoFocus}
+          />
+          {dropdown}
+        </div>
+
+        <button
+          type="submit"
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-4 px-6 rounded-xl transition-all duration-200 transform hover:scale-[1.02] focus:ring-4 focus:ring-blue-300 shadow-lg"
+        >
+          Analyze Stock
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="relative flex gap-2 w-full sm:w-auto">
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onFocus={() => results.length > 0 && setShowDropdown(true)}
+        placeholder={placeholder ?? 'Search another ticker...'}
+        className="px-4 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white transition-all outline-none w-full sm:w-56"
+        maxLength={60}
+        autoComplete="off"
+        autoFocus={autoFocus}
+      />
+      <button
+        type="submit"
+        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition-colors duration-200 whitespace-nowrap"
+      >
+        Go
+      </button>
+      {dropdown && <div className="absolute top-full left-0 right-0">{dropdown}</div>}
+    </form>
+  );
+}
@@ -0,0 +1,459 @@
+/**
+ * Score Backtest
+ *
+ * Tests whether high FactorFive scores predicted returns: at each rebalance
+ * date the universe is ranked by score, equal-weighted top and bottom
+ * quantile portfolios are formed and held until the next rebalance. Reports
+ * forward returns, hit rate, information coefficient (rank correlation of
+ * score vs forward return) and drawdown.
+ *
+ * Scores come from recorded daily snapshots (lib/snapshots) or from an
+ * offline fixture of point-in-time metrics (fixtures/backtest/<name>.json),
+ * which is re-scored date by date with the live scoring model. The engine
+ * itself (runBacktest) is pure.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  BacktestFixture,
+  BacktestPeriod,
+  BacktestPortfolioStats,
+  BacktestRebalance,
+  BacktestResult,
+  FinnhubCandles,
+  FinnhubQuote,
+  PeerMetrics,
+  PointInTimeRecord,
+  PriceHistory,
+  ScoreObservation,
+  ScoringModelVersion,
+} from '@/types/stock';
+import type { MarketDataProvider } from '@/lib/providers';
+import { calculateIntelligentStockScore } from '@/lib/scoring';
+import { calculateMomentumReturns, toCandleBars } from '@/lib/candles';
+import { toPeerMetrics } from '@/lib/peerStore';
+import { getScoreHistory } from '@/lib/snapshots';
+import { DEFAULT_INDUSTRY, MARKET_BENCHMARK_SYMBOL } from '@/lib/stockScore';
+import { DEFAULT_SCORING_PROFILE, SCORING_PROFILES } from '@/lib/scoringProfiles';
+import { CURRENT_SCORING_MODEL, SCORING_MODELS, ScoringModel, snapshotModelVersion } from '@/lib/scoringModels';
+
+export interface BacktestOptions {
+  rebalance: BacktestRebalance;
+  quantiles: number;
+  from?: string;
+  to?: string;
+}
+
+const PERIODS_PER_YEAR: Record<BacktestRebalance, number> = {
+  weekly: 52,
+  monthly: 12,
+  quarterly: 4,
+};
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+const stdDev = (values: number[]) => {
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Rebalance bucket a date falls in (week starting Monday, month or quarter)
+ */
+function periodKey(date: string, rebalance: BacktestRebalance): string {
+  if (rebalance === 'monthly') return date.slice(0, 7);
+  if (rebalance === 'quarterly') return `${date.slice(0, 4)}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1}`;
+
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().split('T')[0];
+}
+
+/**
+ * Last close on or before a date, with the date it was recorded
+ */
+function closeOnOrBefore(series: Array<{ date: string; close: number }> | undefined, date: string) {
+  if (!series) return undefined;
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i].date <= date) return series[i];
+  }
+  return undefined;
+}
+
+/**
+ * Ranks 1..n with ties sharing their average rank
+ */
+export function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const avgRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = avgRank;
+    i = j + 1;
+  }
+  return result;
+}
+
+/**
+ * Spearman rank correlation (null when either side has no variation)
+ */
+export function spearman(x: number[], y: number[]): number | null {
+  if (x.length < 3) return null;
+  const rx = ranks(x);
+  const ry = ranks(y);
+  const mx = mean(rx);
+  const my = mean(ry);
+  let cov = 0, vx = 0, vy = 0;
+  for (let i = 0; i < rx.length; i++) {
+    cov += (rx[i] - mx) * (ry[i] - my);
+    vx += (rx[i] - mx) ** 2;
+    vy += (ry[i] - my) ** 2;
+  }
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : null;
+}
+
+/**
+ * Compound per-period returns (%) into a growth-of-1 curve, starting at 1
+ */
+function compound(returns: number[]): number[] {
+  const curve = [1];
+  for (const r of returns) curve.push(curve[curve.length - 1] * (1 + r / 100));
+  return curve;
+}
+
+function portfolioStats(returns: number[], periodsPerYear: number): BacktestPortfolioStats {
+  if (returns.length === 0) {
+    return { cumulativeReturn: 0, annualizedReturn: 0, avgPeriodReturn: 0, maxDrawdown: 0 };
+  }
+
+  const curve = compound(returns);
+  let peak = curve[0];
+  let maxDrawdown = 0;
+  for (const value of curve) {
+    peak = Math.max(peak, value);
+    maxDrawdown = Math.min(maxDrawdown, (value / peak - 1) * 100);
+  }
+
+  const growth = curve[curve.length - 1];
+  return {
+    cumulativeReturn: round((growth - 1) * 100),
+    annualizedReturn: round((Math.pow(Math.max(growth, 0), periodsPerYear / returns.length) - 1) * 100),
+    avgPeriodReturn: round(mean(returns)),
+    maxDrawdown: round(maxDrawdown),
+  };
+}
+
+/**
+ * Run the quantile backtest over score observations and price history
+ *
+ * Rebalance dates are the last observed score date in each week/month/quarter.
+ * A symbol is ranked at a rebalance date on its latest score from that same
+ * bucket, and its forward return runs from the close on/before the rebalance
+ * date to the close on/before the next one.
+ */
+export function runBacktest(
+  observations: ScoreObservation[],
+  prices: PriceHistory,
+  options: BacktestOptions
+): Omit<BacktestResult, 'source' | 'fixture' | 'universe' | 'scoreModelVersion'> {
+  const { rebalance, quantiles, from, to } = options;
+  const warnings: string[] = [];
+
+  const inRange = observations
+    .filter(o => (!from || o.date >= from) && (!to || o.date <= to))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Last observation date in each bucket
+  const lastDateByBucket = new Map<string, string>();
+  for (const o of inRange) lastDateByBucket.set(periodKey(o.date, rebalance), o.date);
+  const rebalanceDates = Array.from(lastDateByBucket.values());
+
+  const periods: BacktestPeriod[] = [];
+  for (let i = 0; i < rebalanceDates.length - 1; i++) {
+    const date = rebalanceDates[i];
+    const nextDate = rebalanceDates[i + 1];
+    const bucket = periodKey(date, rebalance);
+
+    // Latest score per symbol from this bucket
+    const scores = new Map<string, number>();
+    for (const o of inRange) {
+      if (o.date > date) break;
+      if (periodKey(o.date, rebalance) === bucket) scores.set(o.symbol, o.score);
+    }
+
+    const ranked: Array<{ symbol: string; score: number; forward: number }> = [];
+    for (const [symbol, score] of scores) {
+      const start = closeOnOrBefore(prices[symbol], date);
+      const end = closeOnOrBefore(prices[symbol], nextDate);
+      if (!start || !end || end.date <= start.date || start.close <= 0) continue;
+      ranked.push({ symbol, score, forward: (end.close / start.close - 1) * 100 });
+    }
+
+    if (ranked.length < 2) {
+      warnings.push(`${date}: only ${ranked.length} symbol(s) with a score and forward price - period skipped`);
+      continue;
+    }
+
+    // Highest score first; ties broken by symbol so runs are reproducible
+    ranked.sort((a, b) => b.score - a.score || a.symbol.localeCompare(b.symbol));
+    const size = Math.max(1, Math.floor(ranked.length / quantiles));
+    const top = ranked.slice(0, size);
+    const bottom = ranked.slice(-size);
+
+    const universeReturn = mean(ranked.map(r => r.forward));
+    const topReturn = mean(top.map(r => r.forward));
+    const bottomReturn = mean(bottom.map(r => r.forward));
+    const ic = spearman(ranked.map(r => r.score), ranked.map(r => r.forward));
+
+    periods.push({
+      date,
+      nextDate,
+      ranked: ranked.length,
+      top: top.map(r => r.symbol),
+      bottom: bottom.map(r => r.symbol),
+      topReturn: round(topReturn),
+      bottomReturn: round(bottomReturn),
+      universeReturn: round(universeReturn),
+      spread: round(topReturn - bottomReturn),
+      ic: ic === null ? null : round(ic, 3),
+      topHitRate: round(top.filter(r => r.forward > universeReturn).length / top.length, 3),
+    });
+  }
+
+  if (rebalanceDates.length < 2) {
+    warnings.push('Fewer than two rebalance dates with scores - nothing to backtest');
+  }
+
+  const periodsPerYear = PERIODS_PER_YEAR[rebalance];
+  const ics = periods.map(p => p.ic).filter((ic): ic is number => ic !== null);
+  const icStdDev = ics.length >= 2 ? stdDev(ics) : null;
+  const meanIC = ics.length > 0 ? mean(ics) : null;
+
+  const topCurve = compound(periods.map(p => p.topReturn));
+  const bottomCurve = compound(periods.map(p => p.bottomReturn));
+  const longShortCurve = compound(periods.map(p => p.spread));
+  const universeCurve = compound(periods.map(p => p.universeReturn));
+
+  return {
+    rebalance,
+    quantiles,
+    from: periods[0]?.date ?? null,
+    to: periods[periods.length - 1]?.nextDate ?? null,
+    periods,
+    summary: {
+      top: portfolioStats(periods.map(p => p.topReturn), periodsPerYear),
+      bottom: portfolioStats(periods.map(p => p.bottomReturn), periodsPerYear),
+      longShort: portfolioStats(periods.map(p => p.spread), periodsPerYear),
+      universe: portfolioStats(periods.map(p => p.universeReturn), periodsPerYear),
+      hitRate: periods.length > 0 ? round(periods.filter(p => p.spread > 0).length / periods.length, 3) : 0,
+      topHitRate: periods.length > 0 ? round(mean(periods.map(p => p.topHitRate)), 3) : 0,
+      meanIC: meanIC === null ? null : round(meanIC, 3),
+      icStdDev: icStdDev === null ? null : round(icStdDev, 3),
+      icTStat: meanIC !== null && icStdDev ? round(meanIC / (icStdDev / Math.sqrt(ics.length))) : null,
+      positiveICRate: ics.length > 0 ? round(ics.filter(ic => ic > 0).length / ics.length, 3) : null,
+    },
+    equityCurve: periods.length > 0
+      ? [periods[0].date, ...periods.map(p => p.nextDate)].map((date, i) => ({
+          date,
+          top: round(topCurve[i], 4),
+          bottom: round(bottomCurve[i], 4),
+          longShort: round(longShortCurve[i], 4),
+          universe: round(universeCurve[i], 4),
+        }))
+      : [],
+    warnings,
+  };
+}
+
+/**
+ * Closes up to a date as FinnhubCandles, for trailing-return calculation
+ */
+function candlesUpTo(series: Array<{ date: string; close: number }> | undefined, date: string): FinnhubCandles {
+  const closes = (series ?? []).filter(p => p.date <= date);
+  if (closes.length === 0) return { c: [], h: [], l: [], o: [], t: [], v: [], s: 'no_data' };
+  const c = closes.map(p => p.close);
+  return {
+    c,
+    h: c,
+    l: c,
+    o: c,
+    t: closes.map(p => Date.parse(`${p.date}T00:00:00Z`) / 1000),
+    v: closes.map(() => 0),
+    s: 'ok',
+  };
+}
+
+/**
+ * Score point-in-time records date by date with a scoring model version
+ * (default: current)
+ *
+ * Each symbol is benchmarked against the other records of its industry on
+ * the same date, and momentum uses only closes known on that date. Records
+ * that carry a pre-computed score are used as-is.
+ */
+export function scorePointInTime(
+  records: PointInTimeRecord[],
+  prices: PriceHistory,
+  model: ScoringModel = SCORING_MODELS[CURRENT_SCORING_MODEL]
+): ScoreObservation[] {
+  const byDate = new Map<string, PointInTimeRecord[]>();
+  for (const record of records) {
+    byDate.set(record.date, [...(byDate.get(record.date) ?? []), record]);
+  }
+
+  const observations: ScoreObservation[] = [];
+  for (const [date, dayRecords] of byDate) {
+    const market = calculateMomentumReturns(candlesUpTo(prices[MARKET_BENCHMARK_SYMBOL], date));
+    const momentumBySymbol = new Map(
+      dayRecords.map(r => [r.symbol, calculateMomentumReturns(candlesUpTo(prices[r.symbol], date))])
+    );
+    const peerMetrics: Array<PeerMetrics & { industry: string }> = dayRecords
+      .filter(r => r.metric)
+      .map(r => ({
+        ...toPeerMetrics(r.symbol, { metric: r.metric! }, momentumBySymbol.get(r.symbol)!, date),
+        industry: r.industry ?? DEFAULT_INDUSTRY,
+      }));
+
+    for (const record of dayRecords) {
+      if (record.score !== undefined) {
+        observations.push({ date, symbol: record.symbol, score: record.score });
+        continue;
+      }
+
+      const close = closeOnOrBefore(prices[record.symbol], date)?.close;
+      if (!record.metric || !close) continue;
+
+      const industry = record.industry ?? DEFAULT_INDUSTRY;
+      const quote: FinnhubQuote = { c: close, d: 0, dp: 0, h: close, l: close, o: close, pc: close, t: Date.parse(`${date}T00:00:00Z`) / 1000 };
+      const recommendations = record.recommendation
+        ? [{ ...record.recommendation, symbol: record.symbol, period: date }]
+        : [];
+      const priceTarget = record.priceTargetMean
+        ? { symbol: record.symbol, lastUpdated: date, targetMean: record.priceTargetMean, targetMedian: record.priceTargetMean, targetHigh: record.priceTargetMean, targetLow: record.priceTargetMean }
+        : null;
+      const peers = peerMetrics.filter(p => p.symbol !== record.symbol && p.industry === industry);
+
+      const { score } = calculateIntelligentStockScore(
+        record.symbol,
+        quote,
+        { metric: record.metric, series: record.series },
+        recommendations,
+        priceTarget,
+        peers,
+        industry,
+        { company: momentumBySymbol.get(record.symbol)!, market },
+        record.earnings,
+        SCORING_PROFILES[DEFAULT_SCORING_PROFILE],
+        model,
+        record.fundamentals
+      );
+      observations.push({ date, symbol: record.symbol, score });
+    }
+  }
+
+  return observations;
+}
+
+function getBacktestFixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.FIXTURE_DIR || 'fixtures', 'backtest');
+}
+
+/**
+ * Names of the backtest fixtures on disk
+ */
+export async function listBacktestFixtures(): Promise<string[]> {
+  try {
+    const files = await fs.readdir(getBacktestFixtureDir());
+    return files.filter(f => f.endsWith('.json')).map(f => f.replace(/\.json$/, '')).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load a backtest fixture by name (null when it doesn't exist)
+ */
+export async function loadBacktestFixture(name: string): Promise<BacktestFixture | null> {
+  if (!/^[A-Za-z0-9._-]+$/.test(name)) return null;
+  try {
+    const raw = await fs.readFile(path.join(getBacktestFixtureDir(), `${name}.json`), 'utf8');
+    return JSON.parse(raw) as BacktestFixture;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Backtest a fixture universe entirely offline, re-scored with `model`
+ */
+export function backtestFixture(
+  fixture: BacktestFixture,
+  options: BacktestOptions,
+  model: ScoringModel = SCORING_MODELS[CURRENT_SCORING_MODEL]
+): BacktestResult {
+  const universe = new Set(fixture.universe);
+  const observations = scorePointInTime(fixture.records, fixture.prices, model).filter(o => universe.has(o.symbol));
+  return {
+    source: 'fixture',
+    fixture: fixture.name,
+    universe: fixture.universe,
+    scoreModelVersion: model.version,
+    ...runBacktest(observations, fixture.prices, options),
+  };
+}
+
+/**
+ * Backtest recorded score snapshots
+ *
+ * Prices come from provider daily candles (served from recorded fixtures in
+ * FIXTURE_MODE=replay), falling back to the price stored with each snapshot.
+ * Snapshots keep the model version they were recorded with; a universe that
+ * spans a model change is flagged in the warnings.
+ */
+export async function backtestSnapshots(
+  provider: MarketDataProvider | null,
+  universe: string[],
+  options: BacktestOptions
+): Promise<BacktestResult> {
+  const observations: ScoreObservation[] = [];
+  const prices: PriceHistory = {};
+  const modelVersions = new Set<ScoringModelVersion>();
+
+  await Promise.all(universe.map(async symbol => {
+    const snapshots = await getScoreHistory(symbol, options.from, options.to);
+    observations.push(...snapshots.map(s => ({ date: s.date, symbol, score: s.stockScore })));
+    snapshots.forEach(s => modelVersions.add(snapshotModelVersion(s)));
+    prices[symbol] = snapshots.map(s => ({ date: s.date, close: s.metrics.price }));
+
+    if (!provider || snapshots.length < 2) return;
+    try {
+      const from = Date.parse(`${snapshots[0].date}T00:00:00Z`) / 1000;
+      const to = Math.floor(Date.now() / 1000);
+      const bars = toCandleBars(await provider.getCandles(symbol, 'D', from, to));
+      if (bars.length > 0) {
+        prices[symbol] = bars.map(bar => ({ date: new Date(bar.time * 1000).toISOString().split('T')[0], close: bar.close }));
+      }
+    } catch (error) {
+      console.warn(`[Backtest] Candles unavailable for ${symbol}, using snapshot prices:`, error);
+    }
+  }));
+
+  const result = runBacktest(observations, prices, options);
+  const versions = (Object.keys(SCORING_MODELS) as ScoringModelVersion[]).filter(v => modelVersions.has(v));
+  if (versions.length > 1) {
+    result.warnings.push(`Snapshots were scored with models ${versions.join(', ')} - rankings across the change mix models`);
+  }
+
+  return {
+    source: 'snapshots',
+    universe,
+    scoreModelVersion: versions[versions.length - 1] ?? CURRENT_SCORING_MODEL,
+    ...result,
+  };
+}
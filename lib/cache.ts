@@ -1,55 +1,331 @@
 /**
- * Simple in-memory cache for API responses
+ * Namespaced, size-bounded cache for API responses
  * Helps reduce external API calls and prevents rate limiting
+ *
+ * Each namespace has its own TTL and LRU limits (entry count and/or bytes)
+ * and keeps hit/miss/eviction stats. An optional soft TTL (staleAfterMinutes)
+ * enables stale-while-revalidate reads through getOrFetch(). Two drivers are available, chosen with
+ * the CACHE_DRIVER env var:
+ * - "memory" (default): entries live only in this server instance
+ * - "file": entries are also written to CACHE_DIR/<namespace>.json and reloaded
+ *   on the next cold start, so expensive data survives restarts
  */
 
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type {
+  FinnhubQuote,
+  FinnhubProfile,
+  FinnhubBasicFinancials,
+  FinnhubReportedFinancials,
+  FinnhubRecommendationTrend,
+  FinnhubPriceTarget,
+  FinnhubCandles,
+  FinnhubEarningsSurprise,
+  MarketEvent,
+} from '@/types/stock';
+import type { NewsAPIResponse } from '@/lib/newsApi';
+import { coalesce } from '@/lib/inflight';
+import { withUpstreamPriority } from '@/lib/upstream';
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
+  bytes: number;
+}
+
+export interface CacheNamespaceOptions {
+  ttlMinutes: number; // Hard TTL - entries are never served past this
+  staleAfterMinutes?: number; // Soft TTL - older entries are served but refreshed in the background
+  maxEntries?: number;
+  maxBytes?: number;
+}
+
+export interface CacheStats {
+  namespace: string;
+  driver: CacheDriverName;
+  entries: number;
+  bytes: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number; // 0-1
+}
+
+export type CacheDriverName = 'memory' | 'file';
+
+/**
+ * Storage backend for a namespace
+ * load() runs once at construction; persist() receives every entry after a change.
+ */
+interface CacheDriver {
+  readonly name: CacheDriverName;
+  load<T>(namespace: string): Array<[string, CacheEntry<T>]>;
+  persist<T>(namespace: string, entries: Array<[string, CacheEntry<T>]>): void;
+}
+
+const memoryDriver: CacheDriver = {
+  name: 'memory',
+  load: () => [],
+  persist: () => {},
+};
+
+/**
+ * File driver - one JSON file per namespace, written at most once per second
+ */
+function createFileDriver(dir: string): CacheDriver {
+  const pendingWrites = new Map<string, ReturnType<typeof setTimeout>>();
+
+  const fileFor = (namespace: string) => path.join(dir, `${namespace.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+
+  return {
+    name: 'file',
+    load<T>(namespace: string) {
+      try {
+        const raw = fs.readFileSync(fileFor(namespace), 'utf8');
+        return JSON.parse(raw) as Array<[string, CacheEntry<T>]>;
+      } catch {
+        return []; // Missing or corrupt file - start empty
+      }
+    },
+    persist<T>(namespace: string, entries: Array<[string, CacheEntry<T>]>) {
+      if (pendingWrites.has(namespace)) {
+        clearTimeout(pendingWrites.get(namespace));
+      }
+      const timer = setTimeout(() => {
+        pendingWrites.delete(namespace);
+        fs.promises
+          .mkdir(dir, { recursive: true })
+          .then(() => fs.promises.writeFile(fileFor(namespace), JSON.stringify(entries), 'utf8'))
+          .catch(error => console.warn(`[Cache] Failed to persist namespace "${namespace}":`, error));
+      }, 1000);
+      // Don't keep the process alive just to flush the cache
+      timer.unref?.();
+      pendingWrites.set(namespace, timer);
+    },
+  };
+}
+
+function resolveDriver(): CacheDriver {
+  if ((process.env.CACHE_DRIVER || 'memory').toLowerCase() !== 'file') {
+    return memoryDriver;
+  }
+  // Serverless platforms only allow writes under the OS temp dir
+  const defaultDir = process.env.VERCEL
+    ? path.join(os.tmpdir(), 'factorfive-cache')
+    : path.join(process.cwd(), '.cache', 'factorfive');
+  return createFileDriver(process.env.CACHE_DIR || defaultDir);
 }
 
-class SimpleCache<T> {
+const driver = resolveDriver();
+const namespaces = new Map<string, CacheNamespace<unknown>>();
+
+export class CacheNamespace<T> {
+  // Map iteration order doubles as LRU order (oldest first)
   private cache = new Map<string, CacheEntry<T>>();
   private ttl: number; // Time-to-live in milliseconds
+  private staleAfter: number; // Soft TTL in milliseconds
+  private totalBytes = 0;
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(
+    readonly namespace: string,
+    private readonly options: CacheNamespaceOptions
+  ) {
+    this.ttl = options.ttlMinutes * 60 * 1000;
+    this.staleAfter = (options.staleAfterMinutes ?? options.ttlMinutes) * 60 * 1000;
 
-  constructor(ttlMinutes: number = 15) {
-    this.ttl = ttlMinutes * 60 * 1000;
+    for (const [key, entry] of driver.load<T>(namespace)) {
+      if (!this.isExpired(entry)) {
+        this.cache.set(key, entry);
+        this.totalBytes += entry.bytes;
+      }
+    }
+    this.evict();
   }
 
   set(key: string, data: T): void {
-    this.cache.set(key, {
+    this.remove(key);
+
+    const entry: CacheEntry<T> = {
       data,
       timestamp: Date.now(),
-    });
+      bytes: JSON.stringify(data ?? null).length,
+    };
+    this.cache.set(key, entry);
+    this.totalBytes += entry.bytes;
+
+    this.evict();
+    this.persist();
   }
 
   get(key: string): T | null {
+    return this.getEntry(key)?.data ?? null;
+  }
+
+  /**
+   * Get the data together with when it was stored
+   */
+  getEntry(key: string): { data: T; timestamp: number } | null {
     const entry = this.cache.get(key);
-    
+
     if (!entry) {
+      this.misses++;
       return null;
     }
 
     // Check if cache entry has expired
-    const age = Date.now() - entry.timestamp;
-    if (age > this.ttl) {
-      this.cache.delete(key);
+    if (this.isExpired(entry)) {
+      this.remove(key);
+      this.persist();
+      this.misses++;
       return null;
     }
 
-    return entry.data;
+    // Mark as most recently used
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    this.hits++;
+
+    return { data: entry.data, timestamp: entry.timestamp };
+  }
+
+  /**
+   * Read-through with stale-while-revalidate and request coalescing
+   *
+   * - Fresh entry: returned as-is
+   * - Stale entry (past staleAfterMinutes): returned immediately while a
+   *   low-priority background refresh updates the cache
+   * - Missing/expired: fetched, cached when `shouldCache` allows, returned
+   * Concurrent fetches for the same key share a single upstream request.
+   */
+  async getOrFetch(
+    key: string,
+    fetcher: () => Promise<T>,
+    shouldCache: (data: T) => boolean = () => true
+  ): Promise<T> {
+    const entry = this.getEntry(key);
+
+    if (entry) {
+      if (Date.now() - entry.timestamp > this.staleAfter) {
+        this.staleHits++;
+        withUpstreamPriority('low', () => this.refresh(key, fetcher, shouldCache)).catch(error =>
+          console.warn(`[Cache] Background refresh failed for ${this.namespace}/${key}:`, error)
+        );
+      }
+      return entry.data;
+    }
+
+    return this.refresh(key, fetcher, shouldCache);
+  }
+
+  private refresh(key: string, fetcher: () => Promise<T>, shouldCache: (data: T) => boolean): Promise<T> {
+    return coalesce(`cache:${this.namespace}:${key}`, async () => {
+      const data = await fetcher();
+      if (shouldCache(data)) {
+        this.set(key, data);
+      }
+      return data;
+    });
+  }
+
+  delete(key: string): void {
+    if (this.remove(key)) {
+      this.persist();
+    }
   }
 
   clear(): void {
     this.cache.clear();
+    this.totalBytes = 0;
+    this.persist();
   }
 
   size(): number {
     return this.cache.size;
   }
+
+  stats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      namespace: this.namespace,
+      driver: driver.name,
+      entries: this.cache.size,
+      bytes: this.totalBytes,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  private isExpired(entry: CacheEntry<T>): boolean {
+    return Date.now() - entry.timestamp > this.ttl;
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) return false;
+    this.cache.delete(key);
+    this.totalBytes -= entry.bytes;
+    return true;
+  }
+
+  /**
+   * Drop least recently used entries until both limits are satisfied
+   */
+  private evict(): void {
+    const { maxEntries = Infinity, maxBytes = Infinity } = this.options;
+
+    while (this.cache.size > maxEntries || (this.totalBytes > maxBytes && this.cache.size > 0)) {
+      const oldestKey = this.cache.keys().next().value as string;
+      this.remove(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  private persist(): void {
+    driver.persist(this.namespace, Array.from(this.cache.entries()));
+  }
 }
 
-// Create singleton instances for different cache types
-export const newsAPICache = new SimpleCache<any>(15); // 15 minute cache for NewsAPI
+/**
+ * Get (or create) the cache for a namespace
+ * Options are taken from the first call for a given namespace.
+ */
+export function createCache<T>(namespace: string, options: CacheNamespaceOptions): CacheNamespace<T> {
+  const existing = namespaces.get(namespace);
+  if (existing) {
+    return existing as CacheNamespace<T>;
+  }
+  const cache = new CacheNamespace<T>(namespace, options);
+  namespaces.set(namespace, cache as CacheNamespace<unknown>);
+  return cache;
+}
+
+/**
+ * Stats for every namespace created so far
+ */
+export function getCacheStats(): CacheStats[] {
+  return Array.from(namespaces.values()).map(cache => cache.stats());
+}
 
-export default SimpleCache;
+// Create singleton instances for different cache types
+export const newsAPICache = createCache<NewsAPIResponse>('newsapi', { ttlMinutes: 15, maxEntries: 500 }); // 15 minute cache for NewsAPI
+export const calendarCache = createCache<MarketEvent[]>('calendar', { ttlMinutes: 24 * 60, maxEntries: 10 }); // 24 hour cache for calendar events
+export const quoteCache = createCache<FinnhubQuote>('finnhub-quote', { ttlMinutes: 2, staleAfterMinutes: 0.25, maxEntries: 2000 }); // Prices refresh after 15s
+export const metricsCache = createCache<FinnhubBasicFinancials | null>('finnhub-metrics', { ttlMinutes: 6 * 60, staleAfterMinutes: 60, maxBytes: 20 * 1024 * 1024 }); // Basic financials change slowly
+export const peersCache = createCache<string[]>('finnhub-peers', { ttlMinutes: 24 * 60, staleAfterMinutes: 6 * 60, maxEntries: 2000 }); // Peer lists rarely change
+export const profileCache = createCache<FinnhubProfile>('finnhub-profile', { ttlMinutes: 24 * 60, staleAfterMinutes: 6 * 60, maxEntries: 2000 }); // Company profiles rarely change
+export const candleCache = createCache<FinnhubCandles>('finnhub-candles', { ttlMinutes: 12 * 60, staleAfterMinutes: 60, maxBytes: 50 * 1024 * 1024 }); // Daily bars only change once a day
+export const intradayCandleCache = createCache<FinnhubCandles>('finnhub-candles-intraday', { ttlMinutes: 5, staleAfterMinutes: 1, maxBytes: 20 * 1024 * 1024 }); // Minute/hour bars - exact windows, short-lived
+export const recommendationCache = createCache<FinnhubRecommendationTrend[]>('finnhub-recommendation', { ttlMinutes: 12 * 60, staleAfterMinutes: 60, maxEntries: 2000 }); // Ratings move a few times a month
+export const priceTargetCache = createCache<FinnhubPriceTarget | null>('finnhub-price-target', { ttlMinutes: 12 * 60, staleAfterMinutes: 60, maxEntries: 2000 });
+export const earningsSurpriseCache = createCache<FinnhubEarningsSurprise[]>('finnhub-earnings-surprise', { ttlMinutes: 24 * 60, staleAfterMinutes: 6 * 60, maxEntries: 2000 }); // New rows only after a report
+export const reportedFinancialsCache = createCache<FinnhubReportedFinancials>('finnhub-financials-reported', { ttlMinutes: 24 * 60, staleAfterMinutes: 6 * 60, maxBytes: 50 * 1024 * 1024 }); // New filings a few times a year
@@ -0,0 +1,84 @@
+/**
+ * Historical Candles & Momentum
+ *
+ * Helpers for turning provider candle data into OHLCV bars and trailing
+ * 1/3/6/12 month price returns computed from real daily closes.
+ */
+
+import type { CandleBar, FinnhubCandles, MomentumReturns } from '@/types/stock';
+import type { MarketDataProvider } from '@/lib/providers';
+
+// Enough daily history for a 12-month return plus weekends/holidays
+const MOMENTUM_LOOKBACK_DAYS = 380;
+
+/**
+ * Convert Finnhub's parallel arrays into an array of bars (oldest first)
+ */
+export function toCandleBars(candles: FinnhubCandles): CandleBar[] {
+  if (candles.s !== 'ok') return [];
+
+  return candles.t
+    .map((time, i) => ({
+      time,
+      open: candles.o[i],
+      high: candles.h[i],
+      low: candles.l[i],
+      close: candles.c[i],
+      volume: candles.v[i],
+    }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Percent return from the last close on/before `monthsBack` months ago to the latest close
+ * Returns undefined when the history does not reach back far enough
+ */
+function trailingReturn(bars: CandleBar[], monthsBack: number): number | undefined {
+  const latest = bars[bars.length - 1];
+  const target = new Date(latest.time * 1000);
+  target.setMonth(target.getMonth() - monthsBack);
+  const targetTime = target.getTime() / 1000;
+
+  // Walk backwards to the last bar at or before the target date
+  for (let i = bars.length - 1; i >= 0; i--) {
+    if (bars[i].time <= targetTime) {
+      const base = bars[i].close;
+      return base > 0 ? ((latest.close - base) / base) * 100 : undefined;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Calculate 1/3/6/12 month returns from daily candles
+ */
+export function calculateMomentumReturns(candles: FinnhubCandles): MomentumReturns {
+  const bars = toCandleBars(candles);
+  if (bars.length < 2) return {};
+
+  return {
+    momentum1M: trailingReturn(bars, 1),
+    momentum3M: trailingReturn(bars, 3),
+    momentum6M: trailingReturn(bars, 6),
+    momentum12M: trailingReturn(bars, 12),
+    asOf: new Date(bars[bars.length - 1].time * 1000).toISOString().split('T')[0],
+  };
+}
+
+/**
+ * Fetch ~13 months of daily closes and compute trailing returns
+ * Returns an empty object when candles are unavailable (non-critical data)
+ */
+export async function fetchMomentum(provider: MarketDataProvider, symbol: string): Promise<MomentumReturns> {
+  const to = Math.floor(Date.now() / 1000);
+  const from = to - MOMENTUM_LOOKBACK_DAYS * 24 * 60 * 60;
+
+  try {
+    const candles = await provider.getCandles(symbol, 'D', from, to);
+    return calculateMomentumReturns(candles);
+  } catch (error) {
+    console.warn(`Failed to fetch candles for ${symbol}:`, error);
+    return {};
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Side-by-side Comparison
+ *
+ * Builds the aligned rows of the /compare table from scored symbols and
+ * finds the best/worst value in each row. Pure functions only, so the
+ * ranking helper can also run in the browser.
+ */
+
+import type { CompareColumn, CompareResponse, CompareRow, FinnhubBasicFinancials } from '@/types/stock';
+import type { ScoredSymbol } from '@/lib/stockScore';
+import { CURRENT_SCORING_MODEL } from '@/lib/scoringModels';
+
+type MetricKey = keyof FinnhubBasicFinancials['metric'];
+
+// Key FinnhubBasicFinancials.metric fields shown in the table
+const METRIC_ROWS: Array<Omit<CompareRow, 'values'> & { key: MetricKey }> = [
+  { key: 'peNormalizedAnnual', label: 'P/E', group: 'valuation', format: 'ratio', better: 'lower', positiveOnly: true },
+  { key: 'pbAnnual', label: 'P/B', group: 'valuation', format: 'ratio', better: 'lower', positiveOnly: true },
+  { key: 'psAnnual', label: 'P/S', group: 'valuation', format: 'ratio', better: 'lower', positiveOnly: true },
+  { key: 'pegAnnual', label: 'PEG', group: 'valuation', format: 'ratio', better: 'lower', positiveOnly: true },
+  { key: 'roeRfy', label: 'ROE', group: 'profitability', format: 'percent', better: 'higher' },
+  { key: 'roaRfy', label: 'ROA', group: 'profitability', format: 'percent', better: 'higher' },
+  { key: 'netProfitMarginAnnual', label: 'Net Margin', group: 'profitability', format: 'percent', better: 'higher' },
+  { key: 'operatingMarginAnnual', label: 'Operating Margin', group: 'profitability', format: 'percent', better: 'higher' },
+  { key: 'revenueGrowthQuarterlyYoy', label: 'Revenue Growth (YoY)', group: 'growth', format: 'percent', better: 'higher' },
+  { key: 'epsGrowthQuarterlyYoy', label: 'EPS Growth (YoY)', group: 'growth', format: 'percent', better: 'higher' },
+  { key: 'revenueGrowthAnnual', label: 'Revenue Growth (Annual)', group: 'growth', format: 'percent', better: 'higher' },
+  { key: 'epsGrowthAnnual', label: 'EPS Growth (Annual)', group: 'growth', format: 'percent', better: 'higher' },
+  { key: 'debtEquityAnnual', label: 'Debt/Equity', group: 'health', format: 'ratio', better: 'lower' },
+  { key: 'currentRatioAnnual', label: 'Current Ratio', group: 'health', format: 'ratio', better: 'higher' },
+  { key: 'quickRatioAnnual', label: 'Quick Ratio', group: 'health', format: 'ratio', better: 'higher' },
+  { key: 'beta', label: 'Beta', group: 'health', format: 'ratio', better: null },
+];
+
+const finite = (value: number | undefined | null): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+/**
+ * Percent upside from the current price to the consensus mean target
+ */
+export function priceTargetUpside(result: ScoredSymbol): number | null {
+  const price = result.inputs.quote.c;
+  const target = result.inputs.priceTarget?.targetMean;
+  if (!price || !target) return null;
+  return ((target - price) / price) * 100;
+}
+
+/**
+ * Build columns, aligned breakdowns and rows for a set of scored symbols
+ */
+export function buildComparison(results: ScoredSymbol[]): Omit<CompareResponse, 'errors'> {
+  const columns: CompareColumn[] = results.map(result => ({
+    symbol: result.symbol,
+    name: result.inputs.profile.name,
+    logo: result.inputs.profile.logo || undefined,
+    industry: result.industry,
+    price: result.inputs.quote.c,
+    changePercent: result.inputs.quote.dp,
+    stockScore: result.score,
+  }));
+
+  const scoreRows: CompareRow[] = [
+    { key: 'stockScore', label: 'FactorFive Score', group: 'score', format: 'score', better: 'higher', values: results.map(r => r.score) },
+    { key: 'growthScore', label: 'Growth', group: 'score', format: 'score', better: 'higher', values: results.map(r => r.breakdown.growthScore) },
+    { key: 'profitabilityScore', label: 'Profitability', group: 'score', format: 'score', better: 'higher', values: results.map(r => r.breakdown.profitabilityScore) },
+    { key: 'valuationScore', label: 'Valuation', group: 'score', format: 'score', better: 'higher', values: results.map(r => r.breakdown.valuationScore) },
+    { key: 'qualityScore', label: 'Quality', group: 'score', format: 'score', better: 'higher', values: results.map(r => r.breakdown.qualityScore) },
+    { key: 'analystScore', label: 'Analyst', group: 'score', format: 'score', better: 'higher', values: results.map(r => r.breakdown.analystScore) },
+  ];
+
+  // Momentum is optional per symbol - only show the row when someone has it
+  if (results.some(r => r.breakdown.momentumScore !== undefined)) {
+    scoreRows.push({
+      key: 'momentumScore',
+      label: 'Momentum',
+      group: 'score',
+      format: 'score',
+      better: 'higher',
+      values: results.map(r => finite(r.breakdown.momentumScore)),
+    });
+  }
+
+  const metricRows: CompareRow[] = METRIC_ROWS.map(row => ({
+    ...row,
+    values: results.map(r => finite(r.inputs.financials?.metric?.[row.key])),
+  }));
+
+  const analystRows: CompareRow[] = [
+    { key: 'targetMean', label: 'Mean Price Target', group: 'analyst', format: 'currency', better: null, values: results.map(r => finite(r.inputs.priceTarget?.targetMean)) },
+    { key: 'priceTargetUpside', label: 'Upside to Target', group: 'analyst', format: 'percent', better: 'higher', values: results.map(priceTargetUpside) },
+  ];
+
+  return {
+    columns,
+    breakdowns: results.map(r => r.breakdown),
+    rows: [...scoreRows, ...metricRows, ...analystRows],
+    scoreModelVersion: CURRENT_SCORING_MODEL,
+  };
+}
+
+/**
+ * Column indexes of the best and worst value in a row
+ * Returns nulls for unranked rows, fewer than two comparable values, or ties
+ */
+export function getRowExtremes(row: CompareRow): { best: number | null; worst: number | null } {
+  if (!row.better) return { best: null, worst: null };
+
+  const ranked = row.values
+    .map((value, index) => ({ value, index }))
+    .filter((entry): entry is { value: number; index: number } =>
+      entry.value !== null && (!row.positiveOnly || entry.value > 0)
+    );
+
+  if (ranked.length < 2) return { best: null, worst: null };
+
+  ranked.sort((a, b) => (row.better === 'higher' ? b.value - a.value : a.value - b.value));
+  const first = ranked[0];
+  const last = ranked[ranked.length - 1];
+
+  if (first.value === last.value) return { best: null, worst: null };
+  return { best: first.index, worst: last.index };
+}
@@ -0,0 +1,28 @@
+/**
+ * Bounded concurrency helper
+ *
+ * Runs an async mapper over a list with at most `limit` calls in flight,
+ * preserving input order in the results. Upstream rate limits are still
+ * enforced by the provider's limiter; this only keeps a single request from
+ * queueing hundreds of tasks at once.
+ */
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
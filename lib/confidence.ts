@@ -0,0 +1,186 @@
+/**
+ * Score Confidence
+ *
+ * How much of a FactorFive result rests on real data, per factor and overall.
+ * Missing financials or a thin peer set make the scorer fall back to neutral
+ * points; this makes that visible instead of letting a mostly-default score
+ * look as solid as a fully covered one. Three inputs:
+ * - coverage: share of a factor's points scored from reported metrics rather
+ *   than defaults (read off the factor's metric contributions)
+ * - peers: how many peers reported the factor's metrics (3 minimum, 5+ full)
+ * - age: how old the peer metrics are (the peer store keeps them up to a week)
+ * Pure functions only.
+ */
+
+import type {
+  ConfidenceLevel,
+  FactorConfidence,
+  IndustryBenchmarks,
+  MetricContribution,
+  PeerMetrics,
+  ScoreBreakdown,
+  ScoreConfidence,
+  ScoreFactor,
+} from '@/types/stock';
+
+// Peers with a factor's metrics: below the minimum, peer comparisons get no
+// confidence (the scorer itself falls back to absolute tiers under 3 peers);
+// from the full count on, they get all of it
+const MIN_PEER_COUNT = 3;
+const FULL_PEER_COUNT = 5;
+
+// Peer data age (days) before confidence starts dropping, and the age at which it bottoms out
+const FRESH_PEER_DAYS = 2;
+const STALE_PEER_DAYS = 14;
+
+// Coverage below this flags a factor as mostly defaults
+const MOSTLY_DEFAULTS_BELOW = 0.5;
+
+// Share of a peer-relative factor's confidence that comes from coverage (rest: peers)
+const COVERAGE_WEIGHT = 0.5;
+
+const FACTOR_LABELS: Record<ScoreFactor, string> = {
+  growth: 'Growth',
+  profitability: 'Profitability',
+  valuation: 'Valuation',
+  quality: 'Quality',
+  analyst: 'Analyst',
+  momentum: 'Momentum',
+};
+
+// Peer metrics each factor is benchmarked on (analyst ratings aren't peer-relative)
+const PEER_KEYS: Record<ScoreFactor, Array<keyof PeerMetrics>> = {
+  growth: ['revenueGrowth', 'epsGrowth'],
+  profitability: ['roe', 'netMargin', 'operatingMargin'],
+  valuation: ['pe', 'pb', 'pcf', 'dividendYield'],
+  quality: ['debtEquity', 'currentRatio', 'roa'],
+  analyst: [],
+  momentum: ['momentum3M', 'momentum6M', 'momentum12M'],
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Level for a 0-1 confidence score
+ */
+export function confidenceLevel(score: number): ConfidenceLevel {
+  if (score >= 0.75) return 'high';
+  if (score >= 0.5) return 'medium';
+  return 'low';
+}
+
+/**
+ * Share of scoring weight (0-1) lost to peer data age
+ */
+function agePenalty(ageDays: number | null): number {
+  if (ageDays === null || ageDays <= FRESH_PEER_DAYS) return 0;
+  return 0.5 * Math.min(1, (ageDays - FRESH_PEER_DAYS) / (STALE_PEER_DAYS - FRESH_PEER_DAYS));
+}
+
+/**
+ * Confidence in one factor score
+ */
+export function assessFactorConfidence(
+  factor: ScoreFactor,
+  contributions: MetricContribution[],
+  peerMetrics: PeerMetrics[],
+  peerDataAgeDays: number | null
+): FactorConfidence {
+  // Adjustments (caps, floors, rounding) carry no data of their own
+  const scored = contributions.filter(c => c.method !== 'adjustment' && c.maxPoints > 0);
+  const defaulted = scored.filter(c => c.method === 'default' || c.value === null);
+  const totalMax = scored.reduce((sum, c) => sum + c.maxPoints, 0);
+  const defaultedMax = defaulted.reduce((sum, c) => sum + c.maxPoints, 0);
+  const coverage = totalMax > 0 ? round(1 - defaultedMax / totalMax) : 0;
+
+  const reasons: string[] = [];
+  if (defaulted.length > 0) {
+    reasons.push(`Default points for ${defaulted.map(c => c.metric).join(', ')}`);
+  }
+
+  const keys = PEER_KEYS[factor];
+  let score = coverage;
+  let peers: number | null = null;
+  if (keys.length > 0) {
+    peers = peerMetrics.filter(p => keys.some(key => p[key] !== undefined)).length;
+    const peerScore = peers < MIN_PEER_COUNT ? 0 : Math.min(1, peers / FULL_PEER_COUNT) * (1 - agePenalty(peerDataAgeDays));
+    score = COVERAGE_WEIGHT * coverage + (1 - COVERAGE_WEIGHT) * peerScore;
+
+    if (peers < FULL_PEER_COUNT) {
+      reasons.push(peers === 0 ? 'No peers with this data' : `Only ${peers} peer${peers === 1 ? '' : 's'} with this data`);
+    }
+  }
+
+  return {
+    level: confidenceLevel(score),
+    score: round(score),
+    coverage,
+    peers,
+    mostlyDefaults: coverage < MOSTLY_DEFAULTS_BELOW,
+    reasons,
+  };
+}
+
+/**
+ * Confidence in a whole result
+ * Factor confidences are combined with the same weights as the factor scores.
+ */
+export function assessConfidence(
+  contributions: ScoreBreakdown['contributions'],
+  peerMetrics: PeerMetrics[],
+  benchmarks: IndustryBenchmarks,
+  weights: Record<ScoreFactor, number>,
+  now: Date = new Date()
+): ScoreConfidence {
+  const oldest = benchmarks.peerDataAsOf?.oldest;
+  const peerDataAgeDays = oldest
+    ? Math.max(0, Math.floor((now.getTime() - Date.parse(oldest)) / (24 * 60 * 60 * 1000)))
+    : null;
+
+  const factors: ScoreConfidence['factors'] = {
+    growth: assessFactorConfidence('growth', contributions.growth, peerMetrics, peerDataAgeDays),
+    profitability: assessFactorConfidence('profitability', contributions.profitability, peerMetrics, peerDataAgeDays),
+    valuation: assessFactorConfidence('valuation', contributions.valuation, peerMetrics, peerDataAgeDays),
+    quality: assessFactorConfidence('quality', contributions.quality, peerMetrics, peerDataAgeDays),
+    analyst: assessFactorConfidence('analyst', contributions.analyst, peerMetrics, peerDataAgeDays),
+    momentum: contributions.momentum
+      ? assessFactorConfidence('momentum', contributions.momentum, peerMetrics, peerDataAgeDays)
+      : undefined,
+  };
+
+  const scored = (Object.entries(factors) as Array<[ScoreFactor, FactorConfidence | undefined]>)
+    .filter((entry): entry is [ScoreFactor, FactorConfidence] => entry[1] !== undefined);
+  const totalWeight = scored.reduce((sum, [factor]) => sum + weights[factor], 0);
+  const score = totalWeight > 0
+    ? scored.reduce((sum, [factor, confidence]) => sum + weights[factor] * confidence.score, 0) / totalWeight
+    : 0;
+
+  const reasons: string[] = [];
+  const fundamentals: ScoreFactor[] = ['growth', 'profitability', 'valuation', 'quality'];
+  const noFinancials = fundamentals.every(factor => factors[factor]!.coverage === 0);
+  if (noFinancials) {
+    reasons.push('No basic financials - fundamental factors are neutral defaults');
+  }
+  const peerCounts = scored.map(([, f]) => f.peers).filter(p => p !== null) as number[];
+  const usablePeers = peerCounts.length > 0 ? Math.max(...peerCounts) : 0;
+  if (usablePeers < FULL_PEER_COUNT) {
+    reasons.push(usablePeers === 0 ? 'No usable peers' : `Only ${usablePeers} usable peer${usablePeers === 1 ? '' : 's'}`);
+  }
+  if (peerDataAgeDays !== null && peerDataAgeDays > FRESH_PEER_DAYS) {
+    reasons.push(`Peer data ${peerDataAgeDays} days old`);
+  }
+  const flagged = scored
+    .filter(([factor, f]) => f.mostlyDefaults && !(noFinancials && fundamentals.includes(factor)))
+    .map(([factor]) => FACTOR_LABELS[factor]);
+  if (flagged.length > 0) {
+    reasons.push(`Mostly default points: ${flagged.join(', ')}`);
+  }
+
+  return {
+    level: confidenceLevel(score),
+    score: round(score),
+    peerDataAgeDays,
+    factors,
+    reasons,
+  };
+}
@@ -0,0 +1,352 @@
+/**
+ * Earnings
+ *
+ * Next report date and the last 8 quarters of EPS/revenue vs. consensus.
+ *
+ * Two provider sources are combined and checked against each other:
+ * - the earnings calendar (report dates, EPS + revenue actuals/estimates)
+ * - earnings surprises (EPS actual vs. estimate per fiscal quarter)
+ *
+ * The next report date comes from the calendar and is cross-checked against
+ * the company's reporting cadence (projected from past report dates). When
+ * the calendar has nothing, the projection is used with low confidence.
+ * Rows that fail plausibility rules keep their data but carry flags.
+ */
+
+import type {
+  EarningsData,
+  EarningsDateConfidence,
+  EarningsEvent,
+  EarningsQuarter,
+  EarningsSummary,
+  FinnhubEarningsSurprise,
+  NextEarnings,
+} from '@/types/stock';
+import type { MarketDataProvider } from '@/lib/providers';
+import { createCache } from '@/lib/cache';
+
+const HISTORY_QUARTERS = 8;
+const HISTORY_LOOKBACK_DAYS = 800; // Enough report dates for 8 quarters
+const UPCOMING_WINDOW_DAYS = 120;
+
+// Quarterly reports are never closer together / further apart than this
+const MIN_REPORT_GAP_DAYS = 45;
+const MAX_REPORT_GAP_DAYS = 135;
+const DEFAULT_REPORT_GAP_DAYS = 91;
+
+// Calendar date vs. projected cadence
+const CADENCE_MATCH_DAYS = 10;
+const CADENCE_NEAR_DAYS = 21;
+
+// Sources disagreeing on EPS by more than this get flagged
+const EPS_MATCH_ABSOLUTE = 0.02;
+const EPS_MATCH_RELATIVE = 0.05;
+
+// Surprises beyond this are almost always a bad estimate or unit mix-up
+const IMPLAUSIBLE_SURPRISE_PERCENT = 500;
+
+// Keep one outlier quarter from dominating the summary statistics
+const SUMMARY_SURPRISE_CAP = 100;
+const SUMMARY_GROWTH_CAP = 200;
+
+const earningsStore = createCache<EarningsData>('earnings', {
+  ttlMinutes: 12 * 60,
+  staleAfterMinutes: 2 * 60, // Pick up new reports on earnings day
+  maxEntries: 2000,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  return toDateString(new Date(Date.parse(date) + days * DAY_MS));
+}
+
+const isNumber = (value: number | null | undefined): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Percent surprise of actual vs. estimate
+ * Null when either side is missing or the estimate is too close to zero for
+ * a percentage to mean anything.
+ */
+export function surprisePercent(actual: number | null | undefined, estimate: number | null | undefined): number | null {
+  if (!isNumber(actual) || !isNumber(estimate) || Math.abs(estimate) < 0.01) {
+    return null;
+  }
+  return ((actual - estimate) / Math.abs(estimate)) * 100;
+}
+
+/**
+ * Merge calendar rows and surprise rows into one row per fiscal quarter
+ */
+export function buildEarningsHistory(
+  reported: EarningsEvent[],
+  surprises: FinnhubEarningsSurprise[]
+): EarningsQuarter[] {
+  const quarters = new Map<string, EarningsQuarter>();
+  const keyOf = (year: number, quarter: number) => `${year}Q${quarter}`;
+
+  const rowFor = (year: number, quarter: number): EarningsQuarter => {
+    const key = keyOf(year, quarter);
+    let row = quarters.get(key);
+    if (!row) {
+      row = {
+        year,
+        quarter,
+        epsActual: null,
+        epsEstimate: null,
+        epsSurprisePercent: null,
+        revenueActual: null,
+        revenueEstimate: null,
+        revenueSurprisePercent: null,
+        flags: [],
+      };
+      quarters.set(key, row);
+    }
+    return row;
+  };
+
+  // Calendar: report date, revenue, and a second opinion on EPS
+  const calendarEps = new Map<string, number>();
+  for (const event of reported) {
+    if (!event.year || !event.quarter) continue;
+    const row = rowFor(event.year, event.quarter);
+    row.reportDate = event.date;
+    row.epsActual = isNumber(event.epsActual) ? event.epsActual : null;
+    row.epsEstimate = isNumber(event.epsEstimate) ? event.epsEstimate : null;
+    row.revenueActual = isNumber(event.revenueActual) ? event.revenueActual : null;
+    row.revenueEstimate = isNumber(event.revenueEstimate) ? event.revenueEstimate : null;
+    if (isNumber(event.epsActual)) {
+      calendarEps.set(keyOf(event.year, event.quarter), event.epsActual);
+    }
+  }
+
+  // Surprises: preferred source for EPS (actual and estimate on the same basis)
+  for (const surprise of surprises) {
+    if (!surprise.year || !surprise.quarter) continue;
+    const row = rowFor(surprise.year, surprise.quarter);
+    row.period = surprise.period;
+
+    if (isNumber(surprise.actual)) {
+      const other = calendarEps.get(keyOf(surprise.year, surprise.quarter));
+      if (isNumber(other)) {
+        const tolerance = Math.max(EPS_MATCH_ABSOLUTE, Math.abs(surprise.actual) * EPS_MATCH_RELATIVE);
+        if (Math.abs(other - surprise.actual) > tolerance) {
+          row.flags.push(`Sources disagree on EPS (${surprise.actual.toFixed(2)} vs ${other.toFixed(2)})`);
+        }
+      }
+      row.epsActual = surprise.actual;
+      if (isNumber(surprise.estimate)) {
+        row.epsEstimate = surprise.estimate;
+      }
+    }
+  }
+
+  // Plausibility rules
+  for (const row of quarters.values()) {
+    if (isNumber(row.revenueActual) && row.revenueActual <= 0) {
+      row.revenueActual = null;
+      row.flags.push('Non-positive revenue ignored');
+    }
+    if (isNumber(row.revenueEstimate) && row.revenueEstimate <= 0) {
+      row.revenueEstimate = null;
+    }
+    if (row.reportDate && row.period && row.reportDate < row.period) {
+      row.flags.push('Report date precedes quarter end');
+    }
+
+    row.epsSurprisePercent = surprisePercent(row.epsActual, row.epsEstimate);
+    row.revenueSurprisePercent = surprisePercent(row.revenueActual, row.revenueEstimate);
+
+    if (isNumber(row.epsSurprisePercent) && Math.abs(row.epsSurprisePercent) > IMPLAUSIBLE_SURPRISE_PERCENT) {
+      row.flags.push(`EPS surprise above ${IMPLAUSIBLE_SURPRISE_PERCENT}% - likely a data error`);
+    }
+  }
+
+  return Array.from(quarters.values())
+    .filter(row => isNumber(row.epsActual) || isNumber(row.revenueActual))
+    .sort((a, b) => b.year - a.year || b.quarter - a.quarter)
+    .slice(0, HISTORY_QUARTERS);
+}
+
+/**
+ * Beat rate, average surprise and EPS growth variability over the history
+ * Flagged rows are left out of the surprise average.
+ */
+export function summarizeEarnings(history: EarningsQuarter[]): EarningsSummary {
+  const withEstimate = history.filter(row => isNumber(row.epsActual) && isNumber(row.epsEstimate));
+  const beats = withEstimate.filter(row => (row.epsActual as number) > (row.epsEstimate as number)).length;
+
+  const surprises = withEstimate
+    .filter(row => row.flags.length === 0 && isNumber(row.epsSurprisePercent))
+    .map(row => Math.max(-SUMMARY_SURPRISE_CAP, Math.min(SUMMARY_SURPRISE_CAP, row.epsSurprisePercent as number)));
+
+  // YoY growth: each quarter vs. the same fiscal quarter a year earlier
+  const byKey = new Map(history.map(row => [`${row.year}Q${row.quarter}`, row]));
+  const growth: number[] = [];
+  for (const row of history) {
+    const prior = byKey.get(`${row.year - 1}Q${row.quarter}`);
+    if (isNumber(row.epsActual) && prior && isNumber(prior.epsActual) && Math.abs(prior.epsActual) >= 0.01) {
+      const change = ((row.epsActual - prior.epsActual) / Math.abs(prior.epsActual)) * 100;
+      growth.push(Math.max(-SUMMARY_GROWTH_CAP, Math.min(SUMMARY_GROWTH_CAP, change)));
+    }
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const growthMean = growth.length > 0 ? mean(growth) : 0;
+
+  return {
+    quarters: withEstimate.length,
+    beatRate: withEstimate.length > 0 ? beats / withEstimate.length : null,
+    avgSurprisePercent: surprises.length > 0 ? mean(surprises) : null,
+    epsGrowthStdDev: growth.length > 1
+      ? Math.sqrt(growth.reduce((sum, v) => sum + Math.pow(v - growthMean, 2), 0) / growth.length)
+      : null,
+    epsGrowthSamples: growth.length,
+  };
+}
+
+/**
+ * Project the next report date from past report dates (median gap)
+ * Returns null without at least one past report.
+ */
+export function projectNextReportDate(reportDates: string[], today: string): string | null {
+  const sorted = Array.from(new Set(reportDates)).sort();
+  if (sorted.length === 0) return null;
+
+  const gaps = sorted
+    .slice(1)
+    .map((date, i) => daysBetween(sorted[i], date))
+    .filter(gap => gap >= MIN_REPORT_GAP_DAYS && gap <= MAX_REPORT_GAP_DAYS)
+    .sort((a, b) => a - b);
+  const gap = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : DEFAULT_REPORT_GAP_DAYS;
+
+  // Roll forward past any reports the data is missing
+  let projected = addDays(sorted[sorted.length - 1], gap);
+  for (let i = 0; i < 4 && projected < today; i++) {
+    projected = addDays(projected, gap);
+  }
+  return projected < today ? null : projected;
+}
+
+/**
+ * Pick the next report date and rate how much to trust it
+ */
+export function selectNextEarnings(upcoming: EarningsEvent[], reportDates: string[], today: string): NextEarnings | null {
+  const next = upcoming
+    .filter(event => event.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date))[0];
+  const projected = projectNextReportDate(reportDates, today);
+  const lastReport = [...reportDates].sort().pop();
+
+  if (!next) {
+    if (!projected) return null;
+    return {
+      date: projected,
+      hour: '',
+      epsEstimate: null,
+      revenueEstimate: null,
+      source: 'projected',
+      confidence: 'low',
+      checks: ['No calendar entry - projected from past report dates'],
+    };
+  }
+
+  const checks: string[] = [];
+  let confidence: EarningsDateConfidence = 'high';
+  const downgrade = (to: EarningsDateConfidence) => {
+    if (to === 'low' || (to === 'medium' && confidence === 'high')) confidence = to;
+  };
+
+  if (projected) {
+    const offset = Math.abs(daysBetween(projected, next.date));
+    if (offset <= CADENCE_MATCH_DAYS) {
+      checks.push(`Matches reporting cadence (projected ${projected})`);
+    } else if (offset <= CADENCE_NEAR_DAYS) {
+      checks.push(`${offset} days from the usual cadence (projected ${projected})`);
+      downgrade('medium');
+    } else {
+      checks.push(`${offset} days from the usual cadence (projected ${projected}) - date may be a placeholder`);
+      downgrade('low');
+    }
+  } else {
+    checks.push('No report history to cross-check');
+    downgrade('medium');
+  }
+
+  if (lastReport && daysBetween(lastReport, next.date) < MIN_REPORT_GAP_DAYS) {
+    checks.push(`Only ${daysBetween(lastReport, next.date)} days after the last report`);
+    downgrade('low');
+  }
+
+  if (!next.hour) {
+    checks.push('Time of day not announced');
+  }
+
+  return {
+    date: next.date,
+    hour: next.hour || '',
+    year: next.year,
+    quarter: next.quarter,
+    epsEstimate: isNumber(next.epsEstimate) ? next.epsEstimate : null,
+    revenueEstimate: isNumber(next.revenueEstimate) && next.revenueEstimate > 0 ? next.revenueEstimate : null,
+    source: 'calendar',
+    confidence,
+    checks,
+  };
+}
+
+async function loadEarnings(provider: MarketDataProvider, symbol: string): Promise<EarningsData> {
+  const now = new Date();
+  const today = toDateString(now);
+  const from = addDays(today, -HISTORY_LOOKBACK_DAYS);
+  const to = addDays(today, UPCOMING_WINDOW_DAYS);
+
+  const [calendarResult, surprisesResult] = await Promise.allSettled([
+    provider.getEarningsCalendar(symbol, from, to),
+    provider.getEarningsSurprises(symbol),
+  ]);
+
+  // One source is enough; only fail when both are down
+  if (calendarResult.status === 'rejected' && surprisesResult.status === 'rejected') {
+    throw calendarResult.reason;
+  }
+
+  const calendar = calendarResult.status === 'fulfilled' ? calendarResult.value : [];
+  const surprises = surprisesResult.status === 'fulfilled' ? surprisesResult.value : [];
+
+  // Past rows (and today's, once actuals are in) are reports; the rest are upcoming
+  const isReported = (event: EarningsEvent) =>
+    event.date < today || (event.date === today && isNumber(event.epsActual));
+  const reported = calendar.filter(isReported);
+  const upcoming = calendar.filter(event => !isReported(event));
+
+  const history = buildEarningsHistory(reported, surprises);
+  const reportDates = reported.map(event => event.date);
+
+  return {
+    next: selectNextEarnings(upcoming, reportDates, today),
+    history,
+    summary: summarizeEarnings(history),
+    asOf: now.toISOString(),
+  };
+}
+
+/**
+ * Get earnings data for a symbol (cached, refreshed every couple of hours)
+ */
+export function fetchEarnings(provider: MarketDataProvider, symbol: string): Promise<EarningsData> {
+  return earningsStore.getOrFetch(
+    `${provider.name}_${symbol}`,
+    () => loadEarnings(provider, symbol),
+    data => data.history.length > 0 || data.next !== null
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * Financial Series Parser
+ *
+ * Typed access to `FinnhubBasicFinancials.series` (returned with
+ * /stock/metric?metric=all): per-metric lists of { period, v } for annual and
+ * quarterly fiscal periods. The parser keeps the metrics the scoring model
+ * reads, drops malformed points, de-duplicates periods, sorts oldest first and
+ * converts ratios Finnhub reports as fractions (0.25) to percent (25), the
+ * unit of the `metric` block.
+ * Pure functions only.
+ */
+
+import type { FinnhubBasicFinancials, FinnhubSeriesPoint } from '@/types/stock';
+
+export type SeriesMetric =
+  | 'salesPerShare'
+  | 'eps'
+  | 'bookValue'
+  | 'grossMargin'
+  | 'operatingMargin'
+  | 'netMargin'
+  | 'fcfMargin'
+  | 'roe'
+  | 'roa'
+  | 'roic'
+  | 'currentRatio'
+  | 'totalDebtToEquity';
+
+const SERIES_METRICS: SeriesMetric[] = [
+  'salesPerShare',
+  'eps',
+  'bookValue',
+  'grossMargin',
+  'operatingMargin',
+  'netMargin',
+  'fcfMargin',
+  'roe',
+  'roa',
+  'roic',
+  'currentRatio',
+  'totalDebtToEquity',
+];
+
+// Reported as fractions, parsed to percent
+const PERCENT_METRICS = new Set<SeriesMetric>(['grossMargin', 'operatingMargin', 'netMargin', 'fcfMargin', 'roe', 'roa', 'roic']);
+
+const PERIOD_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface SeriesPoint {
+  period: string; // YYYY-MM-DD fiscal period end
+  value: number;
+}
+
+export type FinancialSeriesSet = Partial<Record<SeriesMetric, SeriesPoint[]>>;
+
+export interface FinancialSeries {
+  annual: FinancialSeriesSet;
+  quarterly: FinancialSeriesSet;
+}
+
+/**
+ * Clean one metric's points (oldest first); undefined when none are usable
+ */
+function parsePoints(metric: SeriesMetric, raw: unknown): SeriesPoint[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+
+  const byPeriod = new Map<string, number>();
+  for (const point of raw as Array<Partial<FinnhubSeriesPoint> | null>) {
+    if (!point || typeof point.period !== 'string' || !PERIOD_PATTERN.test(point.period)) continue;
+    if (typeof point.v !== 'number' || !Number.isFinite(point.v)) continue;
+    // A period listed twice keeps the last value
+    byPeriod.set(point.period, PERCENT_METRICS.has(metric) ? point.v * 100 : point.v);
+  }
+
+  const points = Array.from(byPeriod.entries())
+    .map(([period, value]) => ({ period, value }))
+    .sort((a, b) => a.period.localeCompare(b.period));
+  return points.length > 0 ? points : undefined;
+}
+
+function parseSet(raw: Record<string, unknown> | undefined): FinancialSeriesSet {
+  const set: FinancialSeriesSet = {};
+  if (!raw || typeof raw !== 'object') return set;
+  for (const metric of SERIES_METRICS) {
+    const points = parsePoints(metric, raw[metric]);
+    if (points) set[metric] = points;
+  }
+  return set;
+}
+
+/**
+ * Parse the annual and quarterly series of a basic financials response
+ * Missing or malformed series parse to empty sets.
+ */
+export function parseFinancialSeries(financials: FinnhubBasicFinancials | null | undefined): FinancialSeries {
+  return {
+    annual: parseSet(financials?.series?.annual),
+    quarterly: parseSet(financials?.series?.quarterly),
+  };
+}
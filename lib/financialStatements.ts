@@ -0,0 +1,272 @@
+/**
+ * Financial Statements
+ *
+ * Typed income statements, balance sheets and cash flow statements from the
+ * provider's as-reported filings (Finnhub /stock/financials-reported), and the
+ * quality inputs derived from them: free cash flow, FCF margin, cash
+ * conversion, ROIC and interest coverage.
+ *
+ * Filings tag line items with XBRL concepts, and companies pick different
+ * concepts for the same line (Revenues vs RevenueFromContractWithCustomer...).
+ * Each field lists the US-GAAP and IFRS concepts it accepts, in order of
+ * preference; "A+B" sums whichever of A and B the filing reports. Company
+ * extension concepts are ignored.
+ */
+
+import type {
+  BalanceSheet,
+  CashFlowStatement,
+  FinancialStatementMap,
+  FinancialStatementType,
+  FinnhubFiling,
+  FinnhubReportedFinancials,
+  FinnhubReportedLineItem,
+  IncomeStatement,
+  ReportedFundamentals,
+  StatementPeriod,
+} from '@/types/stock';
+import type { MarketDataProvider } from '@/lib/providers';
+
+// Tax rate for ROIC when the filing's effective rate can't be computed
+const DEFAULT_TAX_RATE = 0.21;
+const MAX_TAX_RATE = 0.5;
+
+type LineItems<T> = Omit<T, keyof StatementPeriod>;
+type ConceptMap<T> = Record<keyof LineItems<T>, string[]>;
+
+const INCOME_CONCEPTS: ConceptMap<IncomeStatement> = {
+  revenue: [
+    'Revenues',
+    'RevenueFromContractWithCustomerExcludingAssessedTax',
+    'RevenueFromContractWithCustomerIncludingAssessedTax',
+    'SalesRevenueNet',
+    'Revenue',
+  ],
+  costOfRevenue: ['CostOfRevenue', 'CostOfGoodsAndServicesSold', 'CostOfGoodsSold', 'CostOfSales'],
+  grossProfit: ['GrossProfit'],
+  operatingIncome: ['OperatingIncomeLoss', 'ProfitLossFromOperatingActivities'],
+  interestExpense: ['InterestExpense', 'InterestExpenseNonoperating', 'InterestExpenseDebt', 'FinanceCosts'],
+  pretaxIncome: [
+    'IncomeLossFromContinuingOperationsBeforeIncomeTaxesExtraordinaryItemsNoncontrollingInterest',
+    'IncomeLossFromContinuingOperationsBeforeIncomeTaxesMinorityInterestAndIncomeLossFromEquityMethodInvestments',
+    'ProfitLossBeforeTax',
+  ],
+  incomeTax: ['IncomeTaxExpenseBenefit', 'IncomeTaxExpenseContinuingOperations'],
+  netIncome: ['NetIncomeLoss', 'ProfitLossAttributableToOwnersOfParent', 'ProfitLoss'],
+  epsBasic: ['EarningsPerShareBasic', 'BasicEarningsLossPerShare'],
+  epsDiluted: ['EarningsPerShareDiluted', 'DilutedEarningsLossPerShare'],
+};
+
+const BALANCE_CONCEPTS: ConceptMap<BalanceSheet> = {
+  cashAndEquivalents: ['CashAndCashEquivalentsAtCarryingValue', 'CashAndCashEquivalents', 'Cash'],
+  currentAssets: ['AssetsCurrent', 'CurrentAssets'],
+  totalAssets: ['Assets'],
+  currentLiabilities: ['LiabilitiesCurrent', 'CurrentLiabilities'],
+  totalLiabilities: ['Liabilities'],
+  shortTermDebt: [
+    'DebtCurrent',
+    'LongTermDebtCurrent+ShortTermBorrowings+CommercialPaper',
+    'CurrentBorrowingsAndCurrentPortionOfNoncurrentBorrowings',
+  ],
+  longTermDebt: ['LongTermDebtNoncurrent', 'LongTermDebtAndCapitalLeaseObligations', 'NoncurrentPortionOfNoncurrentBorrowings'],
+  totalEquity: ['StockholdersEquity', 'StockholdersEquityIncludingPortionAttributableToNoncontrollingInterest', 'Equity'],
+};
+
+const CASH_FLOW_CONCEPTS: ConceptMap<Omit<CashFlowStatement, 'freeCashFlow'>> = {
+  operatingCashFlow: [
+    'NetCashProvidedByUsedInOperatingActivities',
+    'NetCashProvidedByUsedInOperatingActivitiesContinuingOperations',
+    'CashFlowsFromUsedInOperatingActivities',
+  ],
+  capitalExpenditure: [
+    'PaymentsToAcquirePropertyPlantAndEquipment',
+    'PaymentsToAcquireProductiveAssets',
+    'PurchaseOfPropertyPlantAndEquipmentClassifiedAsInvestingActivities',
+  ],
+  investingCashFlow: [
+    'NetCashProvidedByUsedInInvestingActivities',
+    'NetCashProvidedByUsedInInvestingActivitiesContinuingOperations',
+    'CashFlowsFromUsedInInvestingActivities',
+  ],
+  financingCashFlow: [
+    'NetCashProvidedByUsedInFinancingActivities',
+    'NetCashProvidedByUsedInFinancingActivitiesContinuingOperations',
+    'CashFlowsFromUsedInFinancingActivities',
+  ],
+  dividendsPaid: ['PaymentsOfDividends', 'PaymentsOfDividendsCommonStock', 'DividendsPaidClassifiedAsFinancingActivities'],
+  shareRepurchases: ['PaymentsForRepurchaseOfCommonStock', 'PaymentsToAcquireOrRedeemEntitysShares'],
+};
+
+// Reported as positive outflows, whatever sign a filing uses
+const OUTFLOW_FIELDS = new Set(['capitalExpenditure', 'dividendsPaid', 'shareRepurchases']);
+
+const STANDARD_PREFIX = /^(us-gaap|ifrs-full)[_:]/;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Values of one statement section keyed by concept name (standard taxonomies only)
+ */
+function conceptValues(items: FinnhubReportedLineItem[] | undefined): Map<string, number> {
+  const values = new Map<string, number>();
+  for (const item of items ?? []) {
+    if (!item || typeof item.concept !== 'string') continue;
+    // Unprefixed concepts are standard ones; anything else is a company extension
+    if (item.concept.includes('_') && !STANDARD_PREFIX.test(item.concept)) continue;
+    const value = typeof item.value === 'number' ? item.value : Number(item.value);
+    if (!Number.isFinite(value)) continue;
+    const concept = item.concept.replace(STANDARD_PREFIX, '');
+    // First occurrence wins - later ones are usually segment or parenthetical detail
+    if (!values.has(concept)) values.set(concept, value);
+  }
+  return values;
+}
+
+/**
+ * First alternative the filing reports; "A+B" sums whichever of its parts are present
+ */
+function pick(values: Map<string, number>, alternatives: string[]): number | null {
+  for (const alternative of alternatives) {
+    const parts = alternative.split('+').filter(concept => values.has(concept));
+    if (parts.length > 0) return parts.reduce((sum, concept) => sum + (values.get(concept) as number), 0);
+  }
+  return null;
+}
+
+function lineItems<T>(items: FinnhubReportedLineItem[] | undefined, concepts: Record<string, string[]>): T {
+  const values = conceptValues(items);
+  const result: Record<string, number | null> = {};
+  for (const [field, alternatives] of Object.entries(concepts)) {
+    const value = pick(values, alternatives);
+    result[field] = value !== null && OUTFLOW_FIELDS.has(field) ? Math.abs(value) : value;
+  }
+  return result as T;
+}
+
+const toDate = (value: string | undefined) => (value ?? '').slice(0, 10);
+
+function periodOf(filing: FinnhubFiling): StatementPeriod {
+  return {
+    year: filing.year,
+    quarter: filing.quarter ?? 0,
+    form: filing.form ?? '',
+    periodStart: toDate(filing.startDate),
+    periodEnd: toDate(filing.endDate),
+    filedDate: toDate(filing.filedDate),
+  };
+}
+
+function incomeStatement(filing: FinnhubFiling): IncomeStatement {
+  const items = lineItems<LineItems<IncomeStatement>>(filing.report?.ic, INCOME_CONCEPTS);
+  if (items.grossProfit === null && items.revenue !== null && items.costOfRevenue !== null) {
+    items.grossProfit = items.revenue - items.costOfRevenue;
+  }
+  return { ...periodOf(filing), ...items };
+}
+
+function balanceSheet(filing: FinnhubFiling): BalanceSheet {
+  return { ...periodOf(filing), ...lineItems<LineItems<BalanceSheet>>(filing.report?.bs, BALANCE_CONCEPTS) };
+}
+
+function cashFlowStatement(filing: FinnhubFiling): CashFlowStatement {
+  const items = lineItems<Omit<LineItems<CashFlowStatement>, 'freeCashFlow'>>(filing.report?.cf, CASH_FLOW_CONCEPTS);
+  const freeCashFlow = items.operatingCashFlow !== null && items.capitalExpenditure !== null
+    ? items.operatingCashFlow - items.capitalExpenditure
+    : null;
+  return { ...periodOf(filing), ...items, freeCashFlow };
+}
+
+const STATEMENT_PARSERS: { [S in FinancialStatementType]: (filing: FinnhubFiling) => FinancialStatementMap[S] } = {
+  income: incomeStatement,
+  balance: balanceSheet,
+  cashflow: cashFlowStatement,
+};
+
+/**
+ * Filings with a usable period, most recent first
+ * Amendments replace the original filing for the same period.
+ */
+export function sortFilings(reported: FinnhubReportedFinancials | null | undefined): FinnhubFiling[] {
+  const byPeriod = new Map<string, FinnhubFiling>();
+  for (const filing of reported?.data ?? []) {
+    const periodEnd = toDate(filing?.endDate);
+    if (!filing?.report || !/^\d{4}-\d{2}-\d{2}$/.test(periodEnd)) continue;
+    const existing = byPeriod.get(periodEnd);
+    if (!existing || toDate(filing.filedDate) > toDate(existing.filedDate)) {
+      byPeriod.set(periodEnd, filing);
+    }
+  }
+  return Array.from(byPeriod.values()).sort((a, b) => toDate(b.endDate).localeCompare(toDate(a.endDate)));
+}
+
+/**
+ * One statement for every filing, most recent first
+ */
+export function parseStatements<S extends FinancialStatementType>(
+  reported: FinnhubReportedFinancials | null | undefined,
+  statement: S
+): Array<FinancialStatementMap[S]> {
+  return sortFilings(reported).map(filing => STATEMENT_PARSERS[statement](filing));
+}
+
+/**
+ * Currency of the monetary line items (e.g. "USD"), from the latest filing
+ */
+export function reportingCurrency(reported: FinnhubReportedFinancials | null | undefined): string | null {
+  const latest = sortFilings(reported)[0];
+  const item = [...(latest?.report.ic ?? []), ...(latest?.report.bs ?? [])]
+    .find(line => typeof line?.unit === 'string' && /^[a-z]{3}$/i.test(line.unit));
+  return item ? item.unit.toUpperCase() : null;
+}
+
+/**
+ * Free cash flow, FCF margin, cash conversion, ROIC and interest coverage from
+ * one period's statements. ROIC uses year-end invested capital and the
+ * effective tax rate (statutory 21% when it can't be computed).
+ */
+export function deriveFundamentals(
+  income: IncomeStatement,
+  balance: BalanceSheet,
+  cashFlow: CashFlowStatement
+): ReportedFundamentals {
+  const { revenue, operatingIncome, interestExpense, pretaxIncome, incomeTax, netIncome } = income;
+  const { freeCashFlow } = cashFlow;
+
+  const taxRate = pretaxIncome !== null && incomeTax !== null && pretaxIncome > 0
+    ? Math.min(MAX_TAX_RATE, Math.max(0, incomeTax / pretaxIncome))
+    : DEFAULT_TAX_RATE;
+  const debt = (balance.shortTermDebt ?? 0) + (balance.longTermDebt ?? 0);
+  const investedCapital = balance.totalEquity !== null
+    ? balance.totalEquity + debt - (balance.cashAndEquivalents ?? 0)
+    : null;
+
+  return {
+    year: income.year,
+    periodEnd: income.periodEnd,
+    freeCashFlow,
+    fcfMargin: freeCashFlow !== null && revenue !== null && revenue > 0 ? round((freeCashFlow / revenue) * 100) : null,
+    cashConversion: freeCashFlow !== null && netIncome !== null && netIncome > 0 ? round(freeCashFlow / netIncome) : null,
+    roic: operatingIncome !== null && investedCapital !== null && investedCapital > 0
+      ? round((operatingIncome * (1 - taxRate) / investedCapital) * 100)
+      : null,
+    interestCoverage: operatingIncome !== null && interestExpense !== null && interestExpense > 0
+      ? round(operatingIncome / interestExpense)
+      : null,
+  };
+}
+
+/**
+ * Fundamentals from the latest annual filing; null without one
+ */
+export function latestFundamentals(reported: FinnhubReportedFinancials | null | undefined): ReportedFundamentals | null {
+  const latest = sortFilings(reported)[0];
+  if (!latest) return null;
+  return deriveFundamentals(incomeStatement(latest), balanceSheet(latest), cashFlowStatement(latest));
+}
+
+/**
+ * Get the quality inputs derived from a symbol's latest annual filing
+ */
+export async function fetchFundamentals(provider: MarketDataProvider, symbol: string): Promise<ReportedFundamentals | null> {
+  return latestFundamentals(await provider.getReportedFinancials(symbol, 'annual'));
+}
@@ -0,0 +1,125 @@
+/**
+ * Record/replay fixtures for upstream API responses
+ *
+ * Controlled by the FIXTURE_MODE env var:
+ * - unset / "live": call upstream APIs normally
+ * - "record": call upstream APIs and save every successful JSON response to disk
+ * - "replay": never touch the network, serve the saved JSON instead
+ *
+ * Fixtures live under FIXTURE_DIR (default: ./fixtures) as
+ * <source>/<endpoint>/<key>.json. Secrets (token, apiKey) and rolling date
+ * windows (from, to) are left out of the key so a recording made on one day
+ * replays on any other day.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export type FixtureMode = 'live' | 'record' | 'replay';
+
+// Params that never become part of a fixture key
+const IGNORED_PARAMS = new Set(['token', 'apiKey', 'from', 'to']);
+
+/**
+ * Error raised in replay mode when no fixture was recorded for a request
+ */
+export class FixtureMissingError extends Error {
+  constructor(public readonly fixturePath: string) {
+    super(`No recorded fixture at ${fixturePath}`);
+    this.name = 'FixtureMissingError';
+  }
+}
+
+/**
+ * Current fixture mode (read on every call so tests/scripts can flip it)
+ */
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.FIXTURE_MODE || 'live').toLowerCase();
+  if (mode === 'record' || mode === 'replay') {
+    return mode;
+  }
+  return 'live';
+}
+
+function getFixtureDir(): string {
+  return path.resolve(process.cwd(), process.env.FIXTURE_DIR || 'fixtures');
+}
+
+/**
+ * Make a string safe to use as a single path segment
+ */
+function slug(value: string): string {
+  return value.replace(/[^a-zA-Z0-9._-]+/g, '_').replace(/^_+|_+$/g, '') || '_';
+}
+
+/**
+ * Build the on-disk path for a request
+ */
+export function getFixturePath(
+  source: string,
+  endpoint: string,
+  params: Record<string, string | number | undefined> = {}
+): string {
+  const keyParts = Object.keys(params)
+    .filter(k => !IGNORED_PARAMS.has(k) && params[k] !== undefined)
+    .sort()
+    .map(k => `${k}-${params[k]}`);
+
+  const fileName = `${slug(keyParts.join('__') || 'default')}.json`;
+  return path.join(getFixtureDir(), slug(source), slug(endpoint), fileName);
+}
+
+async function readFixture<T>(fixturePath: string): Promise<T> {
+  try {
+    const raw = await fs.readFile(fixturePath, 'utf8');
+    return JSON.parse(raw).data as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new FixtureMissingError(fixturePath);
+    }
+    throw error;
+  }
+}
+
+async function writeFixture<T>(fixturePath: string, data: T): Promise<void> {
+  try {
+    await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+    await fs.writeFile(
+      fixturePath,
+      JSON.stringify({ recordedAt: new Date().toISOString(), data }, null, 2),
+      'utf8'
+    );
+  } catch (error) {
+    // Recording is best-effort - never fail the request because of it
+    console.warn(`[Fixtures] Failed to record ${fixturePath}:`, error);
+  }
+}
+
+/**
+ * Run an upstream fetch through the fixture layer
+ *
+ * Only successful results are recorded; a fetcher that throws records nothing,
+ * so the same request fails in replay mode too and callers degrade the same way.
+ */
+export async function withFixture<T>(
+  source: string,
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const mode = getFixtureMode();
+
+  if (mode === 'live') {
+    return fetcher();
+  }
+
+  const fixturePath = getFixturePath(source, endpoint, params);
+
+  if (mode === 'replay') {
+    return readFixture<T>(fixturePath);
+  }
+
+  const data = await fetcher();
+  await writeFixture(fixturePath, data);
+  return data;
+}
@@ -74,3 +74,23 @@ export function formatMarketCap(marketCapInMillions: number, decimals: number =
   const actualValue = marketCapInMillions * 1_000_000; // Convert to actual dollars
   return formatCurrency(actualValue, decimals);
 }
+
+/**
+ * Format how long ago an ISO timestamp was
+ * 
+ * @param isoTimestamp - ISO 8601 timestamp
+ * @param now - Reference time in ms (default: Date.now())
+ * @returns Human-readable age
+ * 
+ * @example
+ * formatAge('2025-01-01T12:00:00Z', Date.parse('2025-01-01T12:00:30Z')) // "just now"
+ * formatAge('2025-01-01T10:00:00Z', Date.parse('2025-01-01T12:00:00Z')) // "2h ago"
+ * formatAge('2024-12-29T12:00:00Z', Date.parse('2025-01-01T12:00:00Z')) // "3d ago"
+ */
+export function formatAge(isoTimestamp: string, now: number = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - Date.parse(isoTimestamp)) / 1000));
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
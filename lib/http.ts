@@ -0,0 +1,101 @@
+/**
+ * HTTP helpers shared by upstream API clients
+ *
+ * Every network attempt made through fetchWithTimeout is counted against the
+ * current request (see lib/upstream). fetchWithRateLimit adds the shared
+ * token-bucket limiter and honors 429 / Retry-After responses.
+ */
+
+import { recordUpstreamCall } from '@/lib/upstream';
+import type { RateLimiter, RequestPriority } from '@/lib/rateLimiter';
+
+// Timeout for API requests (10 seconds)
+export const API_TIMEOUT = 10000;
+
+// Helper function to fetch with timeout
+export async function fetchWithTimeout(url: string, options: RequestInit = {}, timeout: number = API_TIMEOUT): Promise<Response> {
+  const controller = new AbortController();
+  const id = setTimeout(() => controller.abort(), timeout);
+
+  recordUpstreamCall(new URL(url).hostname);
+
+  try {
+    const response = await fetch(url, {
+      ...options,
+      signal: controller.signal,
+    });
+    clearTimeout(id);
+    return response;
+  } catch (error) {
+    clearTimeout(id);
+    if ((error as Error).name === 'AbortError') {
+      throw new Error('Request timeout');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return null;
+}
+
+interface RateLimitOptions {
+  limiter: RateLimiter;
+  priority?: RequestPriority;
+  maxRetries?: number;
+}
+
+/**
+ * Fetch through a shared rate limiter with retries
+ *
+ * - Network errors/timeouts: exponential backoff (1s, 2s)
+ * - 429: pause the whole limiter for Retry-After (or the backoff delay) and retry
+ * Returns the last response once retries are exhausted, even if it is a 429.
+ */
+export async function fetchWithRateLimit(
+  url: string,
+  options: RequestInit,
+  { limiter, priority = 'normal', maxRetries = 2 }: RateLimitOptions
+): Promise<Response> {
+  let lastError: Error | undefined;
+
+  for (let i = 0; i <= maxRetries; i++) {
+    let response: Response;
+    try {
+      response = await limiter.schedule(() => fetchWithTimeout(url, options), priority);
+    } catch (error) {
+      lastError = error as Error;
+      if (i < maxRetries) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * (i + 1)));
+      }
+      continue;
+    }
+
+    if (response.status === 429 && i < maxRetries) {
+      const delay = parseRetryAfter(response.headers.get('Retry-After')) ?? 1000 * (i + 1);
+      console.warn(`[RateLimit] 429 from ${new URL(url).hostname}, pausing ${delay}ms`);
+      // Pausing the limiter (not just this request) stops every queued call from hitting the limit too
+      limiter.pauseFor(delay);
+      continue;
+    }
+
+    return response;
+  }
+
+  throw lastError ?? new Error('Rate limit retries exhausted');
+}
@@ -0,0 +1,34 @@
+/**
+ * In-flight request coalescing
+ *
+ * Concurrent callers asking for the same key share one promise instead of
+ * each hitting the upstream API. The entry is dropped as soon as the promise
+ * settles, so this never serves stale data - that is the cache's job.
+ */
+
+const inflight = new Map<string, Promise<unknown>>();
+let coalescedCount = 0;
+
+/**
+ * Run `fn` unless an identical request (same key) is already in flight
+ */
+export function coalesce<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const pending = inflight.get(key);
+  if (pending) {
+    coalescedCount++;
+    return pending as Promise<T>;
+  }
+
+  const promise = fn().finally(() => {
+    inflight.delete(key);
+  });
+  inflight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Requests currently in flight and how many callers were merged so far
+ */
+export function getInflightStats(): { inflight: number; coalesced: number } {
+  return { inflight: inflight.size, coalesced: coalescedCount };
+}
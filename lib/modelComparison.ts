@@ -0,0 +1,130 @@
+/**
+ * Scoring Model Comparison
+ *
+ * Re-scores a point-in-time backtest fixture under two scoring model versions
+ * (lib/scoringModels) and reports how the candidate reorders the universe:
+ * per-symbol score and rank moves, rank correlation and how much of the
+ * top/bottom quantile survives. Meant to be run before CURRENT_SCORING_MODEL
+ * is pointed at a new version.
+ */
+
+import type { BacktestFixture, ModelComparison, ModelComparisonRow, ScoreObservation } from '@/types/stock';
+import type { ScoringModel } from '@/lib/scoringModels';
+import { ranks, scorePointInTime, spearman } from '@/lib/backtest';
+import { DEFAULT_INDUSTRY } from '@/lib/stockScore';
+
+export interface ModelComparisonOptions {
+  quantiles: number;
+  date?: string; // Rank the latest fixture date on or before this one (default: latest)
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Scores by date, then symbol
+ */
+function byDate(observations: ScoreObservation[]): Map<string, Map<string, number>> {
+  const dates = new Map<string, Map<string, number>>();
+  for (const o of observations) {
+    if (!dates.has(o.date)) dates.set(o.date, new Map());
+    dates.get(o.date)!.set(o.symbol, o.score);
+  }
+  return dates;
+}
+
+/**
+ * Rank of each score, 1 = highest (ties share their average rank)
+ */
+const descendingRanks = (scores: number[]) => ranks(scores.map(score => -score));
+
+/**
+ * Share of `from`'s first `size` symbols that are also in `to`'s first `size`
+ */
+function overlap(from: string[], to: string[], size: number): number {
+  const kept = new Set(to.slice(0, size));
+  return round(from.slice(0, size).filter(symbol => kept.has(symbol)).length / size);
+}
+
+/**
+ * Compare how two model versions rank a fixture universe
+ * Returns null when the fixture has no scored records on or before `date`.
+ */
+export function compareScoringModels(
+  fixture: BacktestFixture,
+  base: ScoringModel,
+  candidate: ScoringModel,
+  options: ModelComparisonOptions
+): ModelComparison | null {
+  const universe = new Set(fixture.universe);
+  const baseScores = byDate(scorePointInTime(fixture.records, fixture.prices, base).filter(o => universe.has(o.symbol)));
+  const candidateScores = byDate(scorePointInTime(fixture.records, fixture.prices, candidate).filter(o => universe.has(o.symbol)));
+
+  // Per-date rank agreement across the whole fixture
+  const dates = Array.from(baseScores.keys()).sort().map(date => {
+    const baseDay = baseScores.get(date)!;
+    const candidateDay = candidateScores.get(date) ?? new Map<string, number>();
+    const symbols = Array.from(baseDay.keys()).filter(symbol => candidateDay.has(symbol));
+    const baseValues = symbols.map(symbol => baseDay.get(symbol)!);
+    const candidateValues = symbols.map(symbol => candidateDay.get(symbol)!);
+    const baseRanks = descendingRanks(baseValues);
+    const candidateRanks = descendingRanks(candidateValues);
+    const rankCorrelation = spearman(baseValues, candidateValues);
+    return {
+      date,
+      symbols: symbols.length,
+      rankCorrelation: rankCorrelation === null ? null : round(rankCorrelation, 3),
+      meanAbsRankChange: symbols.length > 0
+        ? round(baseRanks.reduce((sum, rank, i) => sum + Math.abs(rank - candidateRanks[i]), 0) / symbols.length)
+        : 0,
+    };
+  });
+
+  const ranked = dates.filter(d => d.symbols > 0 && (!options.date || d.date <= options.date));
+  if (ranked.length === 0) return null;
+  const date = ranked[ranked.length - 1].date;
+
+  // Detailed rows for the chosen date
+  const industries = new Map(
+    fixture.records.filter(r => r.date === date).map(r => [r.symbol, r.industry ?? DEFAULT_INDUSTRY])
+  );
+  const baseDay = baseScores.get(date)!;
+  const candidateDay = candidateScores.get(date)!;
+  const symbols = Array.from(baseDay.keys()).filter(symbol => candidateDay.has(symbol));
+  const baseRanks = descendingRanks(symbols.map(symbol => baseDay.get(symbol)!));
+  const candidateRanks = descendingRanks(symbols.map(symbol => candidateDay.get(symbol)!));
+
+  const rows: ModelComparisonRow[] = symbols.map((symbol, i) => ({
+    symbol,
+    industry: industries.get(symbol) ?? DEFAULT_INDUSTRY,
+    baseScore: baseDay.get(symbol)!,
+    candidateScore: candidateDay.get(symbol)!,
+    scoreChange: candidateDay.get(symbol)! - baseDay.get(symbol)!,
+    baseRank: baseRanks[i],
+    candidateRank: candidateRanks[i],
+    rankChange: baseRanks[i] - candidateRanks[i],
+  }));
+  rows.sort((a, b) => a.candidateRank - b.candidateRank || a.symbol.localeCompare(b.symbol));
+
+  const baseOrder = [...rows].sort((a, b) => a.baseRank - b.baseRank || a.symbol.localeCompare(b.symbol)).map(r => r.symbol);
+  const candidateOrder = rows.map(r => r.symbol);
+  const quantileSize = Math.max(1, Math.floor(rows.length / options.quantiles));
+  const rankCorrelation = spearman(rows.map(r => r.baseScore), rows.map(r => r.candidateScore));
+
+  return {
+    fixture: fixture.name,
+    base: base.version,
+    candidate: candidate.version,
+    date,
+    quantiles: options.quantiles,
+    rows,
+    summary: {
+      rankCorrelation: rankCorrelation === null ? null : round(rankCorrelation, 3),
+      meanAbsScoreChange: round(rows.reduce((sum, r) => sum + Math.abs(r.scoreChange), 0) / rows.length),
+      meanAbsRankChange: round(rows.reduce((sum, r) => sum + Math.abs(r.rankChange), 0) / rows.length),
+      symbolsReordered: rows.filter(r => r.rankChange !== 0).length,
+      topQuantileOverlap: overlap(baseOrder, candidateOrder, quantileSize),
+      bottomQuantileOverlap: overlap([...baseOrder].reverse(), [...candidateOrder].reverse(), quantileSize),
+    },
+    dates,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * NewsAPI client - /v2/everything
+ *
+ * Single place that talks to newsapi.org so the stock, news and calendar
+ * routes share key handling, timeouts, fixture record/replay and coalescing
+ * of identical concurrent searches.
+ */
+
+import type { NewsAPIArticle } from '@/types/stock';
+import { fetchWithTimeout } from '@/lib/http';
+import { getFixtureMode, withFixture } from '@/lib/fixtures';
+import { coalesce } from '@/lib/inflight';
+
+const NEWS_API_BASE_URL = 'https://newsapi.org/v2';
+
+export interface NewsAPIResponse {
+  status: 'ok' | 'error';
+  totalResults?: number;
+  articles?: NewsAPIArticle[];
+  code?: string; // e.g. "rateLimited" when status is "error"
+  message?: string;
+}
+
+export interface NewsAPISearchParams {
+  q: string;
+  pageSize?: number;
+  from?: string; // YYYY-MM-DD
+}
+
+/**
+ * Error raised for non-2xx NewsAPI responses or `status: "error"` bodies
+ */
+export class NewsAPIError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'NewsAPIError';
+  }
+
+  get isRateLimited(): boolean {
+    return this.status === 429 || this.code === 'rateLimited';
+  }
+}
+
+/**
+ * True when NewsAPI requests can be served (API key set, or replaying fixtures)
+ */
+export function isNewsAPIConfigured(): boolean {
+  return !!process.env.NEWS_API_KEY || getFixtureMode() === 'replay';
+}
+
+/**
+ * Search NewsAPI /everything (English, newest first)
+ */
+export function searchNewsAPI(
+  params: NewsAPISearchParams,
+  timeout?: number
+): Promise<NewsAPIResponse> {
+  const pageSize = params.pageSize ?? 20;
+
+  const coalesceKey = `newsapi:everything:${params.q}:${pageSize}:${params.from ?? ''}`;
+
+  return coalesce(coalesceKey, () => withFixture('newsapi', 'everything', { q: params.q, pageSize, from: params.from }, async () => {
+    const query = new URLSearchParams({
+      q: params.q,
+      language: 'en',
+      sortBy: 'publishedAt',
+      pageSize: String(pageSize),
+      apiKey: process.env.NEWS_API_KEY || '',
+    });
+    if (params.from) {
+      query.set('from', params.from);
+    }
+
+    const response = await fetchWithTimeout(`${NEWS_API_BASE_URL}/everything?${query}`, { cache: 'no-store' }, timeout);
+    const data: NewsAPIResponse = await response.json().catch(() => ({ status: 'error' }));
+
+    if (!response.ok || data.status === 'error') {
+      throw new NewsAPIError(data.message || `NewsAPI returned ${response.status}`, response.status, data.code);
+    }
+
+    return data;
+  }));
+}
@@ -0,0 +1,153 @@
+/**
+ * Saved Peer Groups
+ *
+ * Named, reusable peer selections (?peerGroup=cloud) for when the provider's
+ * peer list has odd matches: symbols that are always included, symbols that
+ * are never included, and whether provider peers top up the rest.
+ *
+ * Stored as one JSON file, PEER_GROUPS_FILE (default `.data/peer-groups.json`,
+ * or the OS temp dir on Vercel). Loaded lazily and kept in memory; writes are
+ * serialized.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { PeerGroup } from '@/types/stock';
+import { MAX_PEERS, PeerSelection } from '@/lib/peerStore';
+
+// Lowercase letters, digits, "-" and "_"
+export const PEER_GROUP_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,39}$/;
+
+// Uppercase ticker, optionally exchange-qualified (BRK.B, TSX:RY)
+export const SYMBOL_PATTERN = /^[A-Z0-9.:-]{1,15}$/;
+
+// Upper bound on excluded symbols per group or request
+export const MAX_EXCLUDED_PEERS = 50;
+
+function resolvePeerGroupsFile(): string {
+  if (process.env.PEER_GROUPS_FILE) return process.env.PEER_GROUPS_FILE;
+  // Serverless platforms only allow writes under the OS temp dir
+  return process.env.VERCEL
+    ? path.join(os.tmpdir(), 'factorfive-peer-groups.json')
+    : path.join(process.cwd(), '.data', 'peer-groups.json');
+}
+
+const peerGroupsFile = resolvePeerGroupsFile();
+let loaded: Promise<Map<string, PeerGroup>> | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Saved groups by name (loaded from disk on first use)
+ */
+function loadPeerGroups(): Promise<Map<string, PeerGroup>> {
+  if (!loaded) {
+    loaded = fs.promises
+      .readFile(peerGroupsFile, 'utf8')
+      .then(raw => new Map((JSON.parse(raw) as PeerGroup[]).map(group => [group.name, group])))
+      .catch(() => new Map<string, PeerGroup>()); // Missing or corrupt file - start empty
+  }
+  return loaded;
+}
+
+/**
+ * Apply a change to the saved groups and write them all to disk
+ * Runs after any write already in progress, so each change starts from the
+ * groups the previous one left. The in-memory copy is only replaced once the
+ * file is written; unlike snapshots, a failed write is reported to the caller.
+ */
+function updatePeerGroups<T>(change: (groups: Map<string, PeerGroup>) => T): Promise<T> {
+  const write = pendingWrite.then(async () => {
+    const next = new Map(await loadPeerGroups());
+    const result = change(next);
+
+    await fs.promises.mkdir(path.dirname(peerGroupsFile), { recursive: true });
+    // Write-then-rename so a crash never leaves a half-written file
+    const tmpFile = `${peerGroupsFile}.tmp`;
+    await fs.promises.writeFile(tmpFile, JSON.stringify(Array.from(next.values()), null, 2), 'utf8');
+    await fs.promises.rename(tmpFile, peerGroupsFile);
+    loaded = Promise.resolve(next);
+    return result;
+  });
+  pendingWrite = write.then(() => undefined, () => undefined);
+  return write;
+}
+
+/**
+ * Parse a comma-separated symbol list: trimmed, uppercased, de-duplicated
+ */
+export function parseSymbolList(value: string | null | undefined): string[] {
+  return Array.from(
+    new Set(
+      (value || '')
+        .split(',')
+        .map(s => s.trim().toUpperCase())
+        .filter(s => s.length > 0)
+    )
+  );
+}
+
+/**
+ * Problem with a peer list, or null when it's usable
+ */
+export function validatePeerList(field: string, symbols: string[], max: number): string | null {
+  const invalid = symbols.find(symbol => !SYMBOL_PATTERN.test(symbol));
+  if (invalid) return `${field} contains an invalid symbol: ${invalid}`;
+  if (symbols.length > max) return `${field} may list at most ${max} symbols`;
+  return null;
+}
+
+/**
+ * All saved groups, by name
+ */
+export async function listPeerGroups(): Promise<PeerGroup[]> {
+  const groups = await loadPeerGroups();
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * A saved group (names are case-insensitive)
+ */
+export async function getPeerGroup(name: string): Promise<PeerGroup | undefined> {
+  const groups = await loadPeerGroups();
+  return groups.get(name.toLowerCase());
+}
+
+/**
+ * Create or replace a group
+ * Throws when the file can't be written; the in-memory copy is left unchanged then.
+ */
+export async function savePeerGroup(group: Omit<PeerGroup, 'updatedAt'>, now: Date = new Date()): Promise<PeerGroup> {
+  const saved: PeerGroup = { ...group, name: group.name.toLowerCase(), updatedAt: now.toISOString() };
+  await updatePeerGroups(groups => groups.set(saved.name, saved));
+  return saved;
+}
+
+/**
+ * Delete a group; false when there was none by that name
+ */
+export async function deletePeerGroup(name: string): Promise<boolean> {
+  const key = name.toLowerCase();
+  if (!(await loadPeerGroups()).has(key)) return false;
+  // Checked again in the write queue - an earlier delete may still be pending
+  return updatePeerGroups(groups => groups.delete(key));
+}
+
+/**
+ * Combine a saved group with per-request peers and exclusions
+ * Request peers come after the group's; provider peers are used when asked
+ * for explicitly, by the group, or when nobody picked any peers.
+ */
+export function mergePeerSelection(
+  group: PeerGroup | undefined,
+  peers: string[],
+  exclude: string[],
+  includeProviderPeers: boolean | null
+): PeerSelection {
+  const userPeers = Array.from(new Set([...(group?.peers ?? []), ...peers])).slice(0, MAX_PEERS);
+  return {
+    peers: userPeers,
+    exclude: Array.from(new Set([...(group?.exclude ?? []), ...exclude])),
+    includeProviderPeers: includeProviderPeers ?? group?.includeProviderPeers ?? userPeers.length === 0,
+  };
+}
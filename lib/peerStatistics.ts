@@ -0,0 +1,226 @@
+/**
+ * Peer Statistics
+ *
+ * Turns a handful of peer values into the benchmark (center) and spread that
+ * industry averages and z-scores are computed from. With 3-10 peers a plain
+ * mean and standard deviation let one outlier move every score, so a
+ * StatisticsMethod can instead:
+ * - use the median and the median absolute deviation (scaled to match σ)
+ * - winsorize: clamp the most extreme share of peers at each tail first
+ * - shrink toward a prior: blend in `priorStrength` pseudo-peers at the
+ *   sector's (or the broad market's) typical level, so a small peer set
+ *   counts for less and an empty one falls back to the prior
+ *
+ * The scoring model picks the method (lib/scoringModels); the classic method
+ * reproduces the original mean/σ statistics exactly.
+ * Pure functions and data - safe to import from client components.
+ */
+
+import type { SectorTemplateId, StatisticsMethod } from '@/types/stock';
+
+// Original statistics: plain mean and population standard deviation
+export const CLASSIC_STATISTICS: StatisticsMethod = { center: 'mean', spread: 'stdDev', winsorize: null, priorStrength: 0 };
+
+// Median/MAD, 10% winsorized, shrunk toward the prior by 3 pseudo-peers
+export const ROBUST_STATISTICS: StatisticsMethod = { center: 'median', spread: 'mad', winsorize: 0.1, priorStrength: 3 };
+
+// MAD × 1.4826 estimates σ for normally distributed data
+const MAD_SCALE = 1.4826;
+
+// Metrics with a prior (peer metrics plus the cash flow yield valuation metric)
+export type PriorMetric =
+  | 'revenueGrowth'
+  | 'epsGrowth'
+  | 'roe'
+  | 'roa'
+  | 'netMargin'
+  | 'operatingMargin'
+  | 'pe'
+  | 'pb'
+  | 'cashFlowYield'
+  | 'dividendYield'
+  | 'debtEquity'
+  | 'currentRatio'
+  | 'momentum1M'
+  | 'momentum3M'
+  | 'momentum6M'
+  | 'momentum12M';
+
+export interface MetricPrior {
+  center: number;
+  spread: number;
+}
+
+// Typical levels across US large caps (percentages where the metric is one)
+export const MARKET_PRIORS: Record<PriorMetric, MetricPrior> = {
+  revenueGrowth: { center: 6, spread: 15 },
+  epsGrowth: { center: 8, spread: 30 },
+  roe: { center: 15, spread: 15 },
+  roa: { center: 6, spread: 6 },
+  netMargin: { center: 10, spread: 10 },
+  operatingMargin: { center: 14, spread: 12 },
+  pe: { center: 22, spread: 12 },
+  pb: { center: 3.5, spread: 3 },
+  cashFlowYield: { center: 6, spread: 4 },
+  dividendYield: { center: 2, spread: 1.5 },
+  debtEquity: { center: 1, spread: 1 },
+  currentRatio: { center: 1.6, spread: 0.8 },
+  momentum1M: { center: 1, spread: 7 },
+  momentum3M: { center: 2.5, spread: 12 },
+  momentum6M: { center: 5, spread: 18 },
+  momentum12M: { center: 10, spread: 25 },
+};
+
+// Sector overrides for the templated sectors (lib/sectorTemplates); other metrics use the market prior
+export const SECTOR_PRIORS: Partial<Record<SectorTemplateId, Partial<Record<PriorMetric, MetricPrior>>>> = {
+  bank: {
+    roe: { center: 11, spread: 5 },
+    roa: { center: 1.1, spread: 0.5 },
+    netMargin: { center: 25, spread: 8 },
+    pe: { center: 12, spread: 4 },
+    pb: { center: 1.2, spread: 0.5 },
+    dividendYield: { center: 3.2, spread: 1.2 },
+  },
+  insurance: {
+    roe: { center: 12, spread: 6 },
+    roa: { center: 2, spread: 1.5 },
+    netMargin: { center: 9, spread: 6 },
+    pe: { center: 13, spread: 5 },
+    pb: { center: 1.6, spread: 0.8 },
+    debtEquity: { center: 0.35, spread: 0.3 },
+  },
+  reit: {
+    roe: { center: 6, spread: 5 },
+    roa: { center: 3, spread: 2 },
+    netMargin: { center: 20, spread: 15 },
+    cashFlowYield: { center: 6.5, spread: 2.5 },
+    dividendYield: { center: 4.5, spread: 1.5 },
+    debtEquity: { center: 1.1, spread: 0.6 },
+  },
+  utility: {
+    roe: { center: 9.5, spread: 3 },
+    roa: { center: 2.8, spread: 1.2 },
+    netMargin: { center: 12, spread: 6 },
+    operatingMargin: { center: 20, spread: 8 },
+    pe: { center: 18, spread: 5 },
+    dividendYield: { center: 3.5, spread: 1 },
+    debtEquity: { center: 1.5, spread: 0.6 },
+    currentRatio: { center: 0.9, spread: 0.3 },
+  },
+};
+
+export interface PeerDistribution {
+  center: number;
+  spread: number;
+  peers: number; // Peer values summarized
+  priorWeight: number; // Share of center and spread taken from the prior (0-1)
+}
+
+export interface DescribeOptions {
+  prior?: MetricPrior;
+  benchmark?: number; // Mean already computed for these peers (classic statistics only)
+  fallback?: MetricPrior; // Used without peers or prior (default: benchmark, or 0 - with no spread)
+}
+
+// Computes a metric's distribution for one scoring run
+export type PeerStatistics = (metric: PriorMetric, values: number[], options?: Omit<DescribeOptions, 'prior'>) => PeerDistribution;
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Value at quantile q (0-1) of sorted values, linearly interpolated
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Median of values (0 for none)
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  return quantile([...values].sort((a, b) => a - b), 0.5);
+}
+
+/**
+ * Clamp values to the [share, 1 - share] quantiles
+ */
+export function winsorize(values: number[], share: number): number[] {
+  if (values.length < 3 || share <= 0) return values;
+  const sorted = [...values].sort((a, b) => a - b);
+  const low = quantile(sorted, share);
+  const high = quantile(sorted, 1 - share);
+  return values.map(v => Math.min(high, Math.max(low, v)));
+}
+
+/**
+ * Whether a method is the original mean/σ (no winsorizing or shrinkage)
+ */
+export function isClassicStatistics(method: StatisticsMethod): boolean {
+  return method.center === 'mean' && method.spread === 'stdDev' && !method.winsorize && method.priorStrength === 0;
+}
+
+/**
+ * Summarize peer values under a method
+ */
+export function describePeers(values: number[], method: StatisticsMethod, options: DescribeOptions = {}): PeerDistribution {
+  const { prior } = options;
+  const n = values.length;
+  const priorWeight = prior && method.priorStrength > 0 ? method.priorStrength / (n + method.priorStrength) : 0;
+
+  if (n === 0) {
+    return prior && priorWeight > 0
+      ? { center: prior.center, spread: prior.spread, peers: 0, priorWeight: 1 }
+      : { center: options.fallback?.center ?? options.benchmark ?? 0, spread: options.fallback?.spread ?? 0, peers: 0, priorWeight: 0 };
+  }
+
+  const sample = method.winsorize ? winsorize(values, method.winsorize) : values;
+  const center = method.center === 'median'
+    ? median(sample)
+    : isClassicStatistics(method) && options.benchmark !== undefined ? options.benchmark : mean(sample);
+
+  const stdDev = Math.sqrt(sample.reduce((sum, v) => sum + Math.pow(v - center, 2), 0) / n);
+  // Falls back to σ when over half the peers share one value (MAD = 0)
+  const spread = method.spread === 'mad'
+    ? MAD_SCALE * median(sample.map(v => Math.abs(v - center))) || stdDev
+    : stdDev;
+
+  if (!prior || priorWeight === 0) {
+    return { center, spread, peers: n, priorWeight: 0 };
+  }
+
+  return {
+    center: (1 - priorWeight) * center + priorWeight * prior.center,
+    spread: Math.sqrt((1 - priorWeight) * spread * spread + priorWeight * prior.spread * prior.spread),
+    peers: n,
+    priorWeight,
+  };
+}
+
+/**
+ * Prior for a metric: the sector's when it has one, else the broad market's
+ */
+export function priorFor(metric: PriorMetric, sector: SectorTemplateId = 'general'): MetricPrior {
+  return SECTOR_PRIORS[sector]?.[metric] ?? MARKET_PRIORS[metric];
+}
+
+/**
+ * Distribution helper bound to a method and sector
+ */
+export function peerStatistics(method: StatisticsMethod, sector: SectorTemplateId = 'general'): PeerStatistics {
+  return (metric, values, options = {}) => describePeers(values, method, { ...options, prior: priorFor(metric, sector) });
+}
+
+/**
+ * Short description of a method, e.g. for score descriptions
+ */
+export function describeStatistics(method: StatisticsMethod): string {
+  if (isClassicStatistics(method)) return 'z-score normalization';
+  const parts = [`${method.center === 'median' ? 'median' : 'mean'}/${method.spread === 'mad' ? 'MAD' : 'σ'} z-scores`];
+  if (method.winsorize) parts.push(`${Math.round(method.winsorize * 100)}% winsorized`);
+  if (method.priorStrength > 0) parts.push('shrunk toward sector priors');
+  return parts.join(', ');
+}
@@ -0,0 +1,216 @@
+/**
+ * Peer Metrics Store
+ *
+ * Shared, long-lived store of per-symbol PeerMetrics. Peer fundamentals change
+ * quarterly at most, so each peer is fetched once and reused by every lookup
+ * that includes it (e.g. MSFT and GOOGL share most of their peer set).
+ * Entries are refreshed in the background once they are a day old and every
+ * entry records when it was fetched (`asOf`).
+ */
+
+import type { FinnhubBasicFinancials, IndustryPeer, MomentumReturns, PeerMetrics } from '@/types/stock';
+import type { MarketDataProvider } from '@/lib/providers';
+import { createCache } from '@/lib/cache';
+import { fetchMomentum } from '@/lib/candles';
+
+// Maximum peers used for benchmarking (keeps upstream fan-out bounded)
+export const MAX_PEERS = 10;
+
+// User overrides for a peer set (see lib/peerGroups for saved ones)
+export interface PeerSelection {
+  peers: string[]; // Always included, ahead of provider peers
+  exclude: string[]; // Never included
+  includeProviderPeers: boolean; // Top up with the provider's peers to MAX_PEERS
+}
+
+// Provider peers only - the peer set every snapshot is scored against
+export const DEFAULT_PEER_SELECTION: PeerSelection = { peers: [], exclude: [], includeProviderPeers: true };
+
+export interface PeerSet {
+  peers: IndustryPeer[]; // Peers with metrics, in selection order
+  excluded: string[]; // Selected or provider peers the exclusion list removed
+  metrics: PeerMetrics[];
+}
+
+const peerMetricsStore = createCache<PeerMetrics | null>('peer-metrics', {
+  ttlMinutes: 7 * 24 * 60, // Hard limit: one week
+  staleAfterMinutes: 24 * 60, // Refresh in the background after a day
+  maxEntries: 5000,
+});
+
+/**
+ * Map basic financials + trailing returns to the PeerMetrics the scoring model compares
+ */
+export function toPeerMetrics(
+  symbol: string,
+  financials: FinnhubBasicFinancials,
+  momentum: MomentumReturns,
+  asOf: string = new Date().toISOString()
+): PeerMetrics {
+  return {
+    symbol,
+    revenueGrowth: financials.metric?.revenueGrowthQuarterlyYoy ?? financials.metric?.revenueGrowthAnnual,
+    epsGrowth: financials.metric?.epsGrowthQuarterlyYoy ?? financials.metric?.epsGrowthAnnual,
+    roe: financials.metric?.roeRfy,
+    roa: financials.metric?.roaRfy,
+    netMargin: financials.metric?.netProfitMarginAnnual,
+    operatingMargin: financials.metric?.operatingMarginAnnual,
+    pe: financials.metric?.peNormalizedAnnual,
+    pb: financials.metric?.pbAnnual,
+    debtEquity: financials.metric?.debtEquityAnnual,
+    currentRatio: financials.metric?.currentRatioAnnual,
+    pcf: financials.metric?.pcfShareTTM,
+    dividendYield: financials.metric?.dividendYieldIndicatedAnnual,
+    momentum1M: momentum.momentum1M,
+    momentum3M: momentum.momentum3M,
+    momentum6M: momentum.momentum6M,
+    momentum12M: momentum.momentum12M,
+    asOf,
+  };
+}
+
+/**
+ * Fetch basic financials + daily candles for one peer and map them to PeerMetrics
+ */
+async function loadPeerMetrics(provider: MarketDataProvider, peerSymbol: string): Promise<PeerMetrics | null> {
+  const [metricsData, momentum] = await Promise.all([
+    provider.getBasicFinancials(peerSymbol).catch(() => null),
+    fetchMomentum(provider, peerSymbol),
+  ]);
+
+  if (!metricsData) {
+    return null;
+  }
+
+  return toPeerMetrics(peerSymbol, metricsData, momentum);
+}
+
+/**
+ * Get metrics for a single peer from the store (fetching on a miss)
+ */
+export async function getStoredPeerMetrics(provider: MarketDataProvider, peerSymbol: string): Promise<PeerMetrics | null> {
+  try {
+    // A failed load is cached as nothing, so the next lookup retries it
+    return await peerMetricsStore.getOrFetch(
+      `${provider.name}_${peerSymbol}`,
+      () => loadPeerMetrics(provider, peerSymbol),
+      metrics => metrics !== null
+    );
+  } catch (error) {
+    console.warn(`Failed to fetch metrics for peer ${peerSymbol}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Whether a selection changes anything about the provider's peer set
+ */
+export function isDefaultPeerSelection(selection: PeerSelection): boolean {
+  return selection.peers.length === 0 && selection.exclude.length === 0 && selection.includeProviderPeers;
+}
+
+/**
+ * Apply a selection to the provider's peer list
+ * User peers come first; provider peers fill the remaining slots when the
+ * selection asks for them. Excluded symbols are dropped from both.
+ */
+export function selectPeers(
+  providerPeers: string[],
+  selection: PeerSelection
+): { peers: IndustryPeer[]; excluded: string[] } {
+  const exclude = new Set(selection.exclude);
+  const excluded = new Set<string>();
+  const peers: IndustryPeer[] = [];
+  const seen = new Set<string>();
+
+  const add = (symbol: string, source: IndustryPeer['source']) => {
+    if (seen.has(symbol) || peers.length >= MAX_PEERS) return;
+    seen.add(symbol);
+    if (exclude.has(symbol)) {
+      excluded.add(symbol);
+    } else {
+      peers.push({ symbol, source });
+    }
+  };
+
+  selection.peers.forEach(symbol => add(symbol, 'user'));
+  if (selection.includeProviderPeers) {
+    providerPeers.forEach(symbol => add(symbol, 'provider'));
+  }
+
+  return { peers, excluded: Array.from(excluded) };
+}
+
+/**
+ * Fetch peer company metrics for industry comparison
+ * Uses the provider's peer list to get similar companies (adjusted by the
+ * selection), then reads their financial metrics from the shared store.
+ * Peers without metrics are left out of the result.
+ */
+export async function fetchPeerMetrics(
+  provider: MarketDataProvider,
+  symbol: string,
+  selection: PeerSelection = DEFAULT_PEER_SELECTION
+): Promise<PeerSet> {
+  try {
+    // The provider list isn't needed when the user picked every peer
+    const providerPeers = selection.includeProviderPeers
+      ? await provider.getPeers(symbol).catch(() => {
+          console.warn('Failed to fetch peers, using empty peer list');
+          return [] as string[];
+        })
+      : [];
+
+    // Limit to top peers to avoid excessive API calls
+    const { peers, excluded } = selectPeers(providerPeers, selection);
+
+    const results = await Promise.all(peers.map(peer => getStoredPeerMetrics(provider, peer.symbol)));
+    const metrics = results.filter((peer): peer is PeerMetrics => peer !== null);
+    const withMetrics = new Set(metrics.map(peer => peer.symbol));
+
+    return { peers: peers.filter(peer => withMetrics.has(peer.symbol)), excluded, metrics };
+
+  } catch (error) {
+    console.error('Error fetching peer metrics:', error);
+    return { peers: [], excluded: [], metrics: [] };
+  }
+}
+
+/**
+ * Build one peer set for several symbols in the same industry
+ * Peer lists are merged and ranked by how many of the symbols list each peer
+ * (ties keep first-seen order), so a single symbol gets the same peers as
+ * fetchPeerMetrics(). Every symbol scored against the result shares the same
+ * benchmarks.
+ */
+export async function fetchIndustryPeerMetrics(
+  provider: MarketDataProvider,
+  symbols: string[]
+): Promise<{ peers: string[]; metrics: PeerMetrics[] }> {
+  const peerLists = await Promise.all(
+    symbols.map(symbol =>
+      provider.getPeers(symbol).catch(() => {
+        console.warn(`Failed to fetch peers for ${symbol}, skipping`);
+        return [] as string[];
+      })
+    )
+  );
+
+  // Count how often each peer appears (Map keeps insertion order for ties)
+  const frequency = new Map<string, number>();
+  for (const list of peerLists) {
+    for (const peer of list.slice(0, MAX_PEERS)) {
+      frequency.set(peer, (frequency.get(peer) ?? 0) + 1);
+    }
+  }
+
+  const peers = Array.from(frequency.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_PEERS)
+    .map(([peer]) => peer);
+
+  const results = await Promise.all(peers.map(peerSymbol => getStoredPeerMetrics(provider, peerSymbol)));
+  const metrics = results.filter((peer): peer is PeerMetrics => peer !== null);
+
+  return { peers: metrics.map(peer => peer.symbol), metrics };
+}
@@ -0,0 +1,127 @@
+/**
+ * Caching MarketDataProvider
+ *
+ * Wraps another provider and serves data from the shared cache namespaces in
+ * lib/cache using stale-while-revalidate: entries past their soft TTL are
+ * returned immediately while a background refresh runs. Identical in-flight
+ * calls (including uncached news/earnings lookups) are coalesced into one
+ * upstream request.
+ */
+
+import type {
+  FinnhubQuote,
+  FinnhubProfile,
+  FinnhubNewsArticle,
+  FinnhubBasicFinancials,
+  FinnhubRecommendationTrend,
+  FinnhubPriceTarget,
+  FinnhubCandles,
+  FinnhubSymbol,
+  CandleResolution,
+  EarningsEvent,
+  FinnhubEarningsSurprise,
+  FinnhubReportedFinancials,
+  StatementFrequency,
+} from '@/types/stock';
+import {
+  quoteCache,
+  metricsCache,
+  peersCache,
+  profileCache,
+  recommendationCache,
+  priceTargetCache,
+  candleCache,
+  intradayCandleCache,
+  earningsSurpriseCache,
+  reportedFinancialsCache,
+} from '@/lib/cache';
+import { coalesce } from '@/lib/inflight';
+import type { MarketDataProvider } from './types';
+
+// Resolutions whose bars only change once a day
+const DAILY_RESOLUTIONS = new Set<CandleResolution>(['D', 'W', 'M']);
+
+export class CachingProvider implements MarketDataProvider {
+  readonly name: string;
+
+  constructor(private readonly inner: MarketDataProvider) {
+    this.name = inner.name;
+  }
+
+  isConfigured(): boolean {
+    return this.inner.isConfigured();
+  }
+
+  private key(symbol: string): string {
+    return `${this.name}_${symbol}`;
+  }
+
+  getQuote(symbol: string): Promise<FinnhubQuote> {
+    // Finnhub answers unknown symbols with an all-zero quote - don't cache those
+    return quoteCache.getOrFetch(this.key(symbol), () => this.inner.getQuote(symbol), quote => quote?.c > 0);
+  }
+
+  getProfile(symbol: string): Promise<FinnhubProfile> {
+    // Only cache real profiles - unknown symbols come back empty
+    return profileCache.getOrFetch(this.key(symbol), () => this.inner.getProfile(symbol), profile => !!profile?.name);
+  }
+
+  getBasicFinancials(symbol: string): Promise<FinnhubBasicFinancials | null> {
+    return metricsCache.getOrFetch(this.key(symbol), () => this.inner.getBasicFinancials(symbol), data => !!data?.metric);
+  }
+
+  getPeers(symbol: string): Promise<string[]> {
+    return peersCache.getOrFetch(this.key(symbol), () => this.inner.getPeers(symbol), peers => peers.length > 0);
+  }
+
+  getRecommendations(symbol: string): Promise<FinnhubRecommendationTrend[]> {
+    return recommendationCache.getOrFetch(this.key(symbol), () => this.inner.getRecommendations(symbol));
+  }
+
+  getPriceTarget(symbol: string): Promise<FinnhubPriceTarget | null> {
+    return priceTargetCache.getOrFetch(this.key(symbol), () => this.inner.getPriceTarget(symbol));
+  }
+
+  getCompanyNews(symbol: string, from: string, to: string): Promise<FinnhubNewsArticle[]> {
+    return coalesce(`${this.name}:company-news:${symbol}:${from}:${to}`, () =>
+      this.inner.getCompanyNews(symbol, from, to)
+    );
+  }
+
+  getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<FinnhubCandles> {
+    const fetchCandles = () => this.inner.getCandles(symbol, resolution, from, to);
+    const isOk = (candles: FinnhubCandles) => candles.s === 'ok';
+
+    // Daily and coarser bars: key on calendar days so rolling "last N days" windows share an entry within a day
+    if (DAILY_RESOLUTIONS.has(resolution)) {
+      const day = (ts: number) => new Date(ts * 1000).toISOString().split('T')[0];
+      return candleCache.getOrFetch(`${this.key(symbol)}_${resolution}_${day(from)}_${day(to)}`, fetchCandles, isOk);
+    }
+
+    // Intraday windows differ within a day - exact timestamps, short TTL
+    return intradayCandleCache.getOrFetch(`${this.key(symbol)}_${resolution}_${from}_${to}`, fetchCandles, isOk);
+  }
+
+  getEarningsCalendar(symbol: string, from: string, to: string): Promise<EarningsEvent[]> {
+    return coalesce(`${this.name}:earnings-calendar:${symbol}:${from}:${to}`, () =>
+      this.inner.getEarningsCalendar(symbol, from, to)
+    );
+  }
+
+  getEarningsSurprises(symbol: string): Promise<FinnhubEarningsSurprise[]> {
+    return earningsSurpriseCache.getOrFetch(this.key(symbol), () => this.inner.getEarningsSurprises(symbol));
+  }
+
+  getReportedFinancials(symbol: string, freq: StatementFrequency): Promise<FinnhubReportedFinancials> {
+    return reportedFinancialsCache.getOrFetch(
+      `${this.key(symbol)}_${freq}`,
+      () => this.inner.getReportedFinancials(symbol, freq),
+      financials => financials.data.length > 0
+    );
+  }
+
+  // The symbol master (lib/symbolMaster) owns caching of the full list
+  getSymbols(exchange: string): Promise<FinnhubSymbol[]> {
+    return coalesce(`${this.name}:symbols:${exchange}`, () => this.inner.getSymbols(exchange));
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Finnhub implementation of the MarketDataProvider interface
+ *
+ * Owns the Finnhub base URL and API key so that routes never have to build
+ * raw Finnhub URLs. All instances share one rate limiter sized to the Finnhub
+ * plan (FINNHUB_RATE_LIMIT_PER_MINUTE, default 60) so peer fan-out cannot
+ * starve quote/profile calls or trip the per-minute limit.
+ */
+
+import type {
+  FinnhubQuote,
+  FinnhubProfile,
+  FinnhubNewsArticle,
+  FinnhubBasicFinancials,
+  FinnhubRecommendationTrend,
+  FinnhubPriceTarget,
+  FinnhubEarnings,
+  FinnhubCandles,
+  FinnhubSymbol,
+  CandleResolution,
+  EarningsEvent,
+  FinnhubEarningsSurprise,
+  FinnhubReportedFinancials,
+  StatementFrequency,
+} from '@/types/stock';
+import { fetchWithRateLimit, parseRetryAfter } from '@/lib/http';
+import { RateLimiter, type RequestPriority } from '@/lib/rateLimiter';
+import { getUpstreamPriority } from '@/lib/upstream';
+import { MarketDataError, type MarketDataProvider } from './types';
+
+// Finnhub API base URL
+const FINNHUB_BASE_URL = 'https://finnhub.io/api/v1';
+
+// Free tier allows 60 calls/minute and at most 30 calls/second
+const FINNHUB_RATE_LIMIT = Number(process.env.FINNHUB_RATE_LIMIT_PER_MINUTE) || 60;
+const finnhubLimiter = new RateLimiter(FINNHUB_RATE_LIMIT, Math.min(30, FINNHUB_RATE_LIMIT));
+
+export class FinnhubProvider implements MarketDataProvider {
+  readonly name = 'finnhub';
+
+  constructor(private readonly apiKey: string | undefined = process.env.FINNHUB_KEY) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * Perform a GET against a Finnhub endpoint and parse the JSON body
+   * Throws MarketDataError on non-2xx responses
+   *
+   * `priority` is the endpoint's default; a caller-wide withUpstreamPriority() overrides it
+   */
+  private async request<T>(
+    path: string,
+    params: Record<string, string>,
+    priority: RequestPriority = 'normal'
+  ): Promise<T> {
+    if (!this.apiKey) {
+      throw new MarketDataError('FINNHUB_KEY not configured', this.name);
+    }
+
+    const query = new URLSearchParams({ ...params, token: this.apiKey });
+    // Using cache: "no-store" to ensure fresh data during development
+    const response = await fetchWithRateLimit(`${FINNHUB_BASE_URL}${path}?${query}`, { cache: 'no-store' }, {
+      limiter: finnhubLimiter,
+      priority: getUpstreamPriority() ?? priority,
+    });
+
+    if (!response.ok) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      throw new MarketDataError(`Finnhub ${path} returned ${response.status}`, this.name, response.status,
+        retryAfter === null ? undefined : Math.ceil(retryAfter / 1000));
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  getQuote(symbol: string): Promise<FinnhubQuote> {
+    return this.request<FinnhubQuote>('/quote', { symbol }, 'critical');
+  }
+
+  getProfile(symbol: string): Promise<FinnhubProfile> {
+    return this.request<FinnhubProfile>('/stock/profile2', { symbol }, 'critical');
+  }
+
+  getBasicFinancials(symbol: string): Promise<FinnhubBasicFinancials | null> {
+    return this.request<FinnhubBasicFinancials | null>('/stock/metric', { symbol, metric: 'all' });
+  }
+
+  async getPeers(symbol: string): Promise<string[]> {
+    const peers = await this.request<string[] | null>('/stock/peers', { symbol });
+    return Array.isArray(peers) ? peers : [];
+  }
+
+  async getRecommendations(symbol: string): Promise<FinnhubRecommendationTrend[]> {
+    const trends = await this.request<FinnhubRecommendationTrend[] | null>('/stock/recommendation', { symbol });
+    return Array.isArray(trends) ? trends : [];
+  }
+
+  getPriceTarget(symbol: string): Promise<FinnhubPriceTarget | null> {
+    return this.request<FinnhubPriceTarget | null>('/stock/price-target', { symbol });
+  }
+
+  async getCompanyNews(symbol: string, from: string, to: string): Promise<FinnhubNewsArticle[]> {
+    const news = await this.request<FinnhubNewsArticle[] | null>('/company-news', { symbol, from, to });
+    return Array.isArray(news) ? news : [];
+  }
+
+  async getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<FinnhubCandles> {
+    const candles = await this.request<FinnhubCandles | null>('/stock/candle', {
+      symbol,
+      resolution,
+      from: String(from),
+      to: String(to),
+    });
+    // Finnhub omits the arrays entirely when there is no data
+    if (!candles || candles.s !== 'ok') {
+      return { c: [], h: [], l: [], o: [], t: [], v: [], s: 'no_data' };
+    }
+    return candles;
+  }
+
+  async getEarningsCalendar(symbol: string, from: string, to: string): Promise<EarningsEvent[]> {
+    const data = await this.request<FinnhubEarnings | null>('/calendar/earnings', { symbol, from, to });
+    return data?.earningsCalendar ?? [];
+  }
+
+  async getEarningsSurprises(symbol: string): Promise<FinnhubEarningsSurprise[]> {
+    const data = await this.request<FinnhubEarningsSurprise[] | null>('/stock/earnings', { symbol });
+    return Array.isArray(data) ? data : [];
+  }
+
+  async getReportedFinancials(symbol: string, freq: StatementFrequency): Promise<FinnhubReportedFinancials> {
+    const data = await this.request<FinnhubReportedFinancials | null>('/stock/financials-reported', { symbol, freq });
+    return { ...data, data: Array.isArray(data?.data) ? data.data : [] };
+  }
+
+  async getSymbols(exchange: string): Promise<FinnhubSymbol[]> {
+    // Full symbol list is a background refresh - never jump the queue
+    const data = await this.request<FinnhubSymbol[] | null>('/stock/symbol', { exchange }, 'low');
+    return Array.isArray(data) ? data : [];
+  }
+}
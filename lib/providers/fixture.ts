@@ -0,0 +1,95 @@
+/**
+ * Fixture-backed MarketDataProvider
+ *
+ * Wraps another provider and routes every call through lib/fixtures:
+ * in record mode responses are saved to disk, in replay mode they are served
+ * from disk without any network access (see FIXTURE_MODE).
+ */
+
+import type {
+  FinnhubQuote,
+  FinnhubProfile,
+  FinnhubNewsArticle,
+  FinnhubBasicFinancials,
+  FinnhubRecommendationTrend,
+  FinnhubPriceTarget,
+  FinnhubCandles,
+  FinnhubSymbol,
+  CandleResolution,
+  EarningsEvent,
+  FinnhubEarningsSurprise,
+  FinnhubReportedFinancials,
+  StatementFrequency,
+} from '@/types/stock';
+import { getFixtureMode, withFixture } from '@/lib/fixtures';
+import type { MarketDataProvider } from './types';
+
+export class FixtureProvider implements MarketDataProvider {
+  readonly name: string;
+
+  constructor(private readonly inner: MarketDataProvider) {
+    this.name = inner.name;
+  }
+
+  isConfigured(): boolean {
+    // Replay needs no credentials - only recorded fixtures
+    return getFixtureMode() === 'replay' || this.inner.isConfigured();
+  }
+
+  getQuote(symbol: string): Promise<FinnhubQuote> {
+    return withFixture(this.name, 'quote', { symbol }, () => this.inner.getQuote(symbol));
+  }
+
+  getProfile(symbol: string): Promise<FinnhubProfile> {
+    return withFixture(this.name, 'profile', { symbol }, () => this.inner.getProfile(symbol));
+  }
+
+  getBasicFinancials(symbol: string): Promise<FinnhubBasicFinancials | null> {
+    return withFixture(this.name, 'metric', { symbol }, () => this.inner.getBasicFinancials(symbol));
+  }
+
+  getPeers(symbol: string): Promise<string[]> {
+    return withFixture(this.name, 'peers', { symbol }, () => this.inner.getPeers(symbol));
+  }
+
+  getRecommendations(symbol: string): Promise<FinnhubRecommendationTrend[]> {
+    return withFixture(this.name, 'recommendation', { symbol }, () => this.inner.getRecommendations(symbol));
+  }
+
+  getPriceTarget(symbol: string): Promise<FinnhubPriceTarget | null> {
+    return withFixture(this.name, 'price-target', { symbol }, () => this.inner.getPriceTarget(symbol));
+  }
+
+  getCompanyNews(symbol: string, from: string, to: string): Promise<FinnhubNewsArticle[]> {
+    return withFixture(this.name, 'company-news', { symbol, from, to }, () =>
+      this.inner.getCompanyNews(symbol, from, to)
+    );
+  }
+
+  getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<FinnhubCandles> {
+    // Keyed on the window length: callers ask for different windows of the same symbol,
+    // and the timestamps themselves roll forward every day
+    const days = Math.round((to - from) / 86400);
+    return withFixture(this.name, 'candle', { symbol, resolution, days }, () =>
+      this.inner.getCandles(symbol, resolution, from, to)
+    );
+  }
+
+  getEarningsCalendar(symbol: string, from: string, to: string): Promise<EarningsEvent[]> {
+    return withFixture(this.name, 'earnings-calendar', { symbol, from, to }, () =>
+      this.inner.getEarningsCalendar(symbol, from, to)
+    );
+  }
+
+  getEarningsSurprises(symbol: string): Promise<FinnhubEarningsSurprise[]> {
+    return withFixture(this.name, 'earnings-surprises', { symbol }, () => this.inner.getEarningsSurprises(symbol));
+  }
+
+  getReportedFinancials(symbol: string, freq: StatementFrequency): Promise<FinnhubReportedFinancials> {
+    return withFixture(this.name, 'financials-reported', { symbol, freq }, () => this.inner.getReportedFinancials(symbol, freq));
+  }
+
+  getSymbols(exchange: string): Promise<FinnhubSymbol[]> {
+    return withFixture(this.name, 'symbols', { exchange }, () => this.inner.getSymbols(exchange));
+  }
+}
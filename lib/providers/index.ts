@@ -0,0 +1,45 @@
+/**
+ * Market data provider registry
+ *
+ * Routes call getMarketDataProvider() rather than talking to a vendor directly.
+ * The active provider is chosen with the MARKET_DATA_PROVIDER env var
+ * (defaults to "finnhub"). When FIXTURE_MODE is "record" or "replay" the
+ * provider is wrapped in a FixtureProvider (see lib/fixtures). The outermost
+ * layer is always a CachingProvider backed by lib/cache.
+ */
+
+import { getFixtureMode } from '@/lib/fixtures';
+import { CachingProvider } from './caching';
+import { FinnhubProvider } from './finnhub';
+import { FixtureProvider } from './fixture';
+import type { MarketDataProvider } from './types';
+
+export type { MarketDataProvider } from './types';
+export { MarketDataError, upstreamErrorStatus } from './types';
+
+const providerFactories: Record<string, () => MarketDataProvider> = {
+  finnhub: () => new FinnhubProvider(),
+};
+
+let activeProvider: MarketDataProvider | null = null;
+
+/**
+ * Get the configured market data provider (singleton per server instance)
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+  if (activeProvider) {
+    return activeProvider;
+  }
+
+  const name = (process.env.MARKET_DATA_PROVIDER || 'finnhub').toLowerCase();
+  const factory = providerFactories[name];
+
+  if (!factory) {
+    throw new Error(`Unknown MARKET_DATA_PROVIDER "${name}" (available: ${Object.keys(providerFactories).join(', ')})`);
+  }
+
+  const provider = factory();
+  const recorded = getFixtureMode() === 'live' ? provider : new FixtureProvider(provider);
+  activeProvider = new CachingProvider(recorded);
+  return activeProvider;
+}
@@ -0,0 +1,88 @@
+/**
+ * Market Data Provider contract
+ *
+ * Every API route reads upstream market data through this interface instead of
+ * building vendor URLs itself. Implementations translate a vendor's responses
+ * into the Finnhub-shaped types the rest of the app already understands.
+ */
+
+import type {
+  FinnhubQuote,
+  FinnhubProfile,
+  FinnhubNewsArticle,
+  FinnhubBasicFinancials,
+  FinnhubRecommendationTrend,
+  FinnhubPriceTarget,
+  FinnhubCandles,
+  FinnhubSymbol,
+  CandleResolution,
+  EarningsEvent,
+  FinnhubEarningsSurprise,
+  FinnhubReportedFinancials,
+  StatementFrequency,
+} from '@/types/stock';
+
+export interface MarketDataProvider {
+  /** Short identifier used in logs and responses (e.g. "finnhub") */
+  readonly name: string;
+
+  /** True when the provider has everything it needs (API keys, fixture dir, ...) */
+  isConfigured(): boolean;
+
+  getQuote(symbol: string): Promise<FinnhubQuote>;
+  getProfile(symbol: string): Promise<FinnhubProfile>;
+  getBasicFinancials(symbol: string): Promise<FinnhubBasicFinancials | null>;
+  getPeers(symbol: string): Promise<string[]>;
+  getRecommendations(symbol: string): Promise<FinnhubRecommendationTrend[]>;
+  getPriceTarget(symbol: string): Promise<FinnhubPriceTarget | null>;
+
+  /** Company news between two YYYY-MM-DD dates (inclusive) */
+  getCompanyNews(symbol: string, from: string, to: string): Promise<FinnhubNewsArticle[]>;
+
+  /** OHLCV bars between two Unix timestamps (seconds) */
+  getCandles(symbol: string, resolution: CandleResolution, from: number, to: number): Promise<FinnhubCandles>;
+
+  /** Earnings calendar entries between two YYYY-MM-DD dates (inclusive) */
+  getEarningsCalendar(symbol: string, from: string, to: string): Promise<EarningsEvent[]>;
+
+  /** Reported EPS vs. consensus for recent quarters (most recent first) */
+  getEarningsSurprises(symbol: string): Promise<FinnhubEarningsSurprise[]>;
+
+  /** Income statement, balance sheet and cash flow of each filing, as reported */
+  getReportedFinancials(symbol: string, freq: StatementFrequency): Promise<FinnhubReportedFinancials>;
+
+  /** Every listed symbol on an exchange (e.g. "US") - large, fetch rarely */
+  getSymbols(exchange: string): Promise<FinnhubSymbol[]>;
+}
+
+/**
+ * Error raised when an upstream request fails or returns a non-2xx status
+ */
+export class MarketDataError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+    public readonly retryAfterSeconds?: number // From the upstream Retry-After header on 429
+  ) {
+    super(message);
+    this.name = 'MarketDataError';
+  }
+}
+
+/**
+ * Response status (and headers) for a failed upstream request
+ * Only "not found" and "rate limited" describe the caller's request; any other
+ * upstream failure (bad server key, premium-only endpoint, upstream 5xx) is a
+ * 502, not the caller's 401/403 or our own 500.
+ */
+export function upstreamErrorStatus(error: unknown): { status: number; headers?: Record<string, string> } {
+  if (!(error instanceof MarketDataError)) return { status: 502 };
+  if (error.status === 404) return { status: 404 };
+  if (error.status === 429) {
+    return error.retryAfterSeconds !== undefined
+      ? { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+      : { status: 429 };
+  }
+  return { status: 502 };
+}
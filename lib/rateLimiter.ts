@@ -0,0 +1,110 @@
+/**
+ * Token-bucket rate limiter with a priority queue
+ *
+ * Tokens refill continuously at `ratePerMinute`; up to `burst` tokens can be
+ * banked. Tasks wait in per-priority FIFO queues and are released
+ * highest-priority first whenever a token is available, so critical calls
+ * (quote, profile) overtake queued background work (peer fan-out).
+ */
+
+export type RequestPriority = 'critical' | 'normal' | 'low';
+
+const PRIORITY_ORDER: RequestPriority[] = ['critical', 'normal', 'low'];
+
+interface QueuedTask {
+  run: () => void;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private queues: Record<RequestPriority, QueuedTask[]> = {
+    critical: [],
+    normal: [],
+    low: [],
+  };
+
+  constructor(
+    private readonly ratePerMinute: number,
+    private readonly burst: number = ratePerMinute
+  ) {
+    this.tokens = burst;
+  }
+
+  /**
+   * Run `task` once a token is available, respecting priority order
+   */
+  schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'normal'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queues[priority].push({
+        run: () => {
+          task().then(resolve, reject);
+        },
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop releasing tasks for `ms` (used when upstream answers 429 / Retry-After)
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+    this.drain();
+  }
+
+  /** Number of tasks waiting for a token */
+  get pending(): number {
+    return PRIORITY_ORDER.reduce((sum, p) => sum + this.queues[p].length, 0);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    this.tokens = Math.min(this.burst, this.tokens + (elapsed / 60000) * this.ratePerMinute);
+  }
+
+  private nextTask(): QueuedTask | undefined {
+    for (const priority of PRIORITY_ORDER) {
+      const task = this.queues[priority].shift();
+      if (task) return task;
+    }
+    return undefined;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return; // A wake-up is already scheduled
+    }
+
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      this.wakeIn(this.pausedUntil - now);
+      return;
+    }
+
+    this.refill();
+
+    while (this.tokens >= 1 && this.pending > 0) {
+      this.tokens -= 1;
+      this.nextTask()!.run();
+    }
+
+    if (this.pending > 0) {
+      // Wait just long enough for the next token
+      const msPerToken = 60000 / this.ratePerMinute;
+      this.wakeIn(Math.ceil((1 - this.tokens) * msPerToken));
+    }
+  }
+
+  private wakeIn(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(0, ms));
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Score Diff ("what changed")
+ *
+ * Compares two daily score snapshots of the same symbol and attributes the
+ * score change to factors, the compound adjustment, underlying metrics, the
+ * peer set and the analyst mix. Pure functions only.
+ */
+
+import type {
+  FactorChange,
+  MetricChange,
+  ScoreDiff,
+  ScoreDriver,
+  ScoreSnapshot,
+  SnapshotMetrics,
+} from '@/types/stock';
+import { snapshotModelVersion } from '@/lib/scoringModels';
+
+type Factor = FactorChange['factor'];
+
+const FACTORS: Array<{ factor: Factor; label: string }> = [
+  { factor: 'growth', label: 'Growth' },
+  { factor: 'profitability', label: 'Profitability' },
+  { factor: 'valuation', label: 'Valuation' },
+  { factor: 'quality', label: 'Quality' },
+  { factor: 'analyst', label: 'Analyst' },
+  { factor: 'momentum', label: 'Momentum' },
+];
+
+// Snapshot metrics worth explaining, the factor they feed and how big a move
+// has to be before it's called out (percentage points for 'percent',
+// relative % for everything else)
+const METRICS: Array<{
+  key: keyof SnapshotMetrics;
+  label: string;
+  factor: Factor | null;
+  format: 'percent' | 'ratio' | 'currency';
+  minChange: number;
+}> = [
+  { key: 'revenueGrowth', label: 'Revenue growth', factor: 'growth', format: 'percent', minChange: 2 },
+  { key: 'epsGrowth', label: 'EPS growth', factor: 'growth', format: 'percent', minChange: 2 },
+  { key: 'roe', label: 'ROE', factor: 'profitability', format: 'percent', minChange: 1 },
+  { key: 'netMargin', label: 'Net margin', factor: 'profitability', format: 'percent', minChange: 1 },
+  { key: 'operatingMargin', label: 'Operating margin', factor: 'profitability', format: 'percent', minChange: 1 },
+  { key: 'pe', label: 'P/E', factor: 'valuation', format: 'ratio', minChange: 5 },
+  { key: 'pb', label: 'P/B', factor: 'valuation', format: 'ratio', minChange: 5 },
+  { key: 'debtEquity', label: 'Debt/Equity', factor: 'quality', format: 'ratio', minChange: 10 },
+  { key: 'currentRatio', label: 'Current ratio', factor: 'quality', format: 'ratio', minChange: 10 },
+  { key: 'priceTargetMean', label: 'Mean price target', factor: 'analyst', format: 'currency', minChange: 3 },
+  { key: 'momentum6M', label: '6M return', factor: 'momentum', format: 'percent', minChange: 5 },
+  { key: 'momentum12M', label: '12M return', factor: 'momentum', format: 'percent', minChange: 5 },
+  { key: 'price', label: 'Price', factor: null, format: 'currency', minChange: 5 },
+];
+
+// Factor moves smaller than this (in 0-100 score points) aren't listed as drivers
+const MIN_FACTOR_POINTS = 0.5;
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+const signed = (value: number, digits = 1) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+function formatMetric(value: number, format: 'percent' | 'ratio' | 'currency'): string {
+  if (format === 'percent') return `${value.toFixed(1)}%`;
+  if (format === 'currency') return `$${value.toFixed(2)}`;
+  return value.toFixed(2);
+}
+
+const ordinal = (n: number) => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+/**
+ * Share of analysts rating Buy or Strong Buy, and how many analysts there are
+ */
+function analystMix(metrics: SnapshotMetrics): { bullish: number; total: number } | null {
+  const counts = [
+    metrics.analystStrongBuy,
+    metrics.analystBuy,
+    metrics.analystHold,
+    metrics.analystSell,
+    metrics.analystStrongSell,
+  ];
+  if (counts.every(c => c === undefined)) return null;
+  const total = counts.reduce<number>((sum, c) => sum + (c ?? 0), 0);
+  if (total === 0) return null;
+  return { bullish: ((metrics.analystStrongBuy ?? 0) + (metrics.analystBuy ?? 0)) / total, total };
+}
+
+/**
+ * Change of each factor, expressed as its contribution to the 0-100 score
+ *
+ * The base score is the factor average scaled to 100, so a factor's
+ * contribution is score / (factorCount * 20) * 100 - which also handles the
+ * momentum factor appearing or disappearing between the two dates.
+ */
+function diffFactors(from: ScoreSnapshot, to: ScoreSnapshot): FactorChange[] {
+  const factorCount = (s: ScoreSnapshot) => (s.subScores.momentum !== undefined ? 6 : 5);
+  const contribution = (s: ScoreSnapshot, value: number | undefined) =>
+    value === undefined ? 0 : (value / (factorCount(s) * 20)) * 100;
+
+  return FACTORS
+    .filter(({ factor }) => from.subScores[factor] !== undefined || to.subScores[factor] !== undefined)
+    .map(({ factor, label }) => ({
+      factor,
+      label,
+      from: from.subScores[factor],
+      to: to.subScores[factor],
+      percentileFrom: from.percentileRanks[factor],
+      percentileTo: to.percentileRanks[factor],
+      points: round(contribution(to, to.subScores[factor]) - contribution(from, from.subScores[factor])),
+    }));
+}
+
+function diffMetrics(from: SnapshotMetrics, to: SnapshotMetrics): MetricChange[] {
+  return METRICS
+    .filter(({ key }) => from[key] !== to[key])
+    .map(({ key, label, factor }) => {
+      const a = from[key];
+      const b = to[key];
+      const change: MetricChange = { key, label, factor, from: a, to: b };
+      if (a !== undefined && b !== undefined) {
+        change.change = round(b - a, 2);
+        if (a !== 0) change.changePercent = round(((b - a) / Math.abs(a)) * 100);
+      }
+      return change;
+    });
+}
+
+/**
+ * Whether a metric change is big enough to call out
+ */
+function isSignificant(change: MetricChange): boolean {
+  const meta = METRICS.find(m => m.key === change.key)!;
+  if (change.from === undefined || change.to === undefined) return true; // Appeared or disappeared
+  if (meta.format === 'percent') return Math.abs(change.change ?? 0) >= meta.minChange;
+  return Math.abs(change.changePercent ?? 0) >= meta.minChange;
+}
+
+function describeMetric(change: MetricChange): string {
+  const { format } = METRICS.find(m => m.key === change.key)!;
+  if (change.from === undefined) return `${change.label} now reported (${formatMetric(change.to!, format)})`;
+  if (change.to === undefined) return `${change.label} no longer reported (was ${formatMetric(change.from, format)})`;
+
+  const direction = change.to > change.from ? 'rose' : 'fell';
+  const delta = format === 'percent'
+    ? `${signed(change.change!)} pp`
+    : change.changePercent !== undefined ? `${signed(change.changePercent)}%` : signed(change.change!, 2);
+  return `${change.label} ${direction} from ${formatMetric(change.from, format)} to ${formatMetric(change.to, format)} (${delta})`;
+}
+
+function describeCompound(from: number | undefined, to: number | undefined): string {
+  const label = (value: number) =>
+    value > 0 ? `+${value} compound excellence bonus` : `${value} compound concern penalty`;
+  if (!from) return `${label(to!)} kicked in`;
+  if (!to) return `${label(from)} no longer applies`;
+  return `Compound adjustment changed from ${signed(from, 0)} to ${signed(to, 0)}`;
+}
+
+/**
+ * Explain the score change between two snapshots of the same symbol
+ */
+export function diffSnapshots(from: ScoreSnapshot, to: ScoreSnapshot): ScoreDiff {
+  const factors = diffFactors(from, to);
+  const metrics = diffMetrics(from.metrics, to.metrics);
+  const change = to.stockScore - from.stockScore;
+
+  const compoundChange = (to.compoundAdjustment ?? 0) - (from.compoundAdjustment ?? 0);
+  const factorPoints = factors.reduce((sum, f) => sum + f.points, 0);
+  // Older snapshots don't record the adjustment - leave whatever it was unattributed
+  const attributable = from.compoundAdjustment !== undefined && to.compoundAdjustment !== undefined;
+  const unattributed = round(change - factorPoints - (attributable ? compoundChange : 0));
+
+  const fromPeers = new Set(from.peers);
+  const toPeers = new Set(to.peers);
+  const peers = {
+    added: to.peers.filter(p => !fromPeers.has(p)),
+    removed: from.peers.filter(p => !toPeers.has(p)),
+    fromCount: from.peers.length,
+    toCount: to.peers.length,
+  };
+
+  const drivers: ScoreDriver[] = [];
+
+  // A model change moves scores on its own - flag it before anything else
+  const scoreModelVersion = { from: snapshotModelVersion(from), to: snapshotModelVersion(to) };
+  if (scoreModelVersion.from !== scoreModelVersion.to) {
+    drivers.push({
+      kind: 'model',
+      description: `Scoring model changed from ${scoreModelVersion.from} to ${scoreModelVersion.to} - part of this move comes from the model, not the company`,
+    });
+  }
+
+  if (attributable && compoundChange !== 0) {
+    drivers.push({
+      kind: 'compound',
+      points: compoundChange,
+      description: describeCompound(from.compoundAdjustment, to.compoundAdjustment),
+    });
+  }
+
+  // Factors by impact, each followed by the metrics that feed it
+  const movedFactors = factors
+    .filter(f => Math.abs(f.points) >= MIN_FACTOR_POINTS || (f.from === undefined) !== (f.to === undefined))
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+
+  for (const f of movedFactors) {
+    const percentile = f.percentileFrom !== undefined && f.percentileTo !== undefined && f.percentileFrom !== f.percentileTo
+      ? `, ${ordinal(f.percentileFrom)} → ${ordinal(f.percentileTo)} percentile`
+      : '';
+    drivers.push({
+      kind: 'factor',
+      factor: f.factor,
+      points: f.points,
+      description: f.from === undefined
+        ? `${f.label} factor added (${f.to}/20)`
+        : f.to === undefined
+          ? `${f.label} factor dropped (was ${f.from}/20)`
+          : `${f.label} ${f.from} → ${f.to}/20 (${signed(f.points)} pts${percentile})`,
+    });
+
+    for (const m of metrics.filter(m => m.factor === f.factor && isSignificant(m))) {
+      drivers.push({ kind: 'metric', factor: f.factor, description: describeMetric(m) });
+    }
+
+    if (f.factor === 'analyst') {
+      const mixFrom = analystMix(from.metrics);
+      const mixTo = analystMix(to.metrics);
+      if (mixFrom && mixTo && (Math.round(mixFrom.bullish * 100) !== Math.round(mixTo.bullish * 100) || mixFrom.total !== mixTo.total)) {
+        drivers.push({
+          kind: 'analyst',
+          factor: 'analyst',
+          description: `Buy/Strong Buy share ${Math.round(mixFrom.bullish * 100)}% → ${Math.round(mixTo.bullish * 100)}% (${mixFrom.total} → ${mixTo.total} analysts)`,
+        });
+      }
+    }
+  }
+
+  if (from.industry !== to.industry) {
+    drivers.push({ kind: 'industry', description: `Industry changed from ${from.industry} to ${to.industry}` });
+  }
+
+  if (peers.added.length > 0 || peers.removed.length > 0) {
+    const parts = [
+      peers.removed.length > 0 ? `${peers.removed.join(', ')} dropped out of the peer set` : null,
+      peers.added.length > 0 ? `${peers.added.join(', ')} joined` : null,
+    ].filter(Boolean);
+    drivers.push({ kind: 'peers', description: `${parts.join('; ')} (${peers.fromCount} → ${peers.toCount} peers)` });
+  }
+
+  // Price moves matter to valuation and the analyst upside even when neither factor moved enough to list
+  const price = metrics.find(m => m.key === 'price');
+  if (price && isSignificant(price)) {
+    drivers.push({ kind: 'metric', description: describeMetric(price) });
+  }
+
+  return {
+    symbol: to.symbol,
+    from: from.date,
+    to: to.date,
+    fromScore: from.stockScore,
+    toScore: to.stockScore,
+    change,
+    factors,
+    compoundAdjustment: { from: from.compoundAdjustment, to: to.compoundAdjustment, change: compoundChange },
+    unattributed,
+    peers,
+    industry: { from: from.industry, to: to.industry },
+    scoreModelVersion,
+    metrics,
+    drivers,
+  };
+}
+
+/**
+ * Latest snapshot on or before a YYYY-MM-DD date (snapshots oldest first)
+ */
+export function snapshotOnOrBefore(snapshots: ScoreSnapshot[], date: string): ScoreSnapshot | undefined {
+  for (let i = snapshots.length - 1; i >= 0; i--) {
+    if (snapshots[i].date <= date) return snapshots[i];
+  }
+  return undefined;
+}
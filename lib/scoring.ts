@@ -5,8 +5,9 @@
  * rather than absolute thresholds. Scores are normalized using z-scores and percentile
  * rankings against peer companies in the same industry.
  * 
- * Each component (Growth, Profitability, Valuation, Momentum, Analyst) is scored 0-20
- * based on how the company compares to:
+ * Each component (Growth, Profitability, Valuation, Quality, Analyst, and an optional
+ * Momentum factor when price history is available) is scored 0-20 based on how the
+ * company compares to:
  * 1. Its own historical performance (3-5 year trends)
  * 2. Industry/sector peers (median and distribution)
  * 3. Broader market benchmarks where applicable
@@ -20,7 +21,44 @@ import type {
   PeerMetrics,
   IndustryBenchmarks,
   ScoreBreakdown,
+  MomentumReturns,
+  EarningsSummary,
+  ScoreFactor,
+  MetricContribution,
+  CompanyTrends,
+  ReportedFundamentals,
 } from '@/types/stock';
+import { DEFAULT_SCORING_PROFILE, SCORING_PROFILES, ScoringProfile } from '@/lib/scoringProfiles';
+import { CURRENT_SCORING_MODEL, SCORING_MODELS, ScoringModel } from '@/lib/scoringModels';
+import { assessConfidence } from '@/lib/confidence';
+import { SECTOR_TEMPLATES, sectorTemplateFor, QualityTemplate, ValuationMetricKey, ValuationTemplate } from '@/lib/sectorTemplates';
+import { CLASSIC_STATISTICS, describeStatistics, peerStatistics, PeerStatistics } from '@/lib/peerStatistics';
+import { parseFinancialSeries } from '@/lib/financialSeries';
+import { computeCompanyTrends } from '@/lib/trends';
+
+// Minimum reported history before earnings stability uses it instead of the proxy (and v8+ growth scores surprises)
+const MIN_EARNINGS_QUARTERS = 4;
+const MIN_EPS_GROWTH_SAMPLES = 3;
+
+// Operating income / interest expense at which leverage no longer costs points
+const STRONG_INTEREST_COVERAGE = 8;
+
+// Sigmoid steepness of the z-score-to-points curve (balanced profile)
+const DEFAULT_Z_STEEPNESS = SCORING_PROFILES[DEFAULT_SCORING_PROFILE].zCurveSteepness;
+
+// Plain mean/σ peer statistics, for factor functions called without a model
+const CLASSIC_PEER_STATS = peerStatistics(CLASSIC_STATISTICS);
+
+// Share of the growth and profitability scores from the company's own history (v6+)
+const SELF_RELATIVE_WEIGHT = 0.3;
+
+/**
+ * Price history inputs for the optional momentum factor
+ */
+export interface MomentumInputs {
+  company: MomentumReturns; // Subject company's trailing returns
+  market?: MomentumReturns; // Broad market benchmark (SPY) trailing returns
+}
 
 /**
  * Calculate z-score for a value within a dataset
@@ -53,15 +91,15 @@ function calculatePercentile(value: number, values: number[]): number {
  * - Z-score of +1 (1 std dev above) = 16-17 points (above average strongly rewarded)
  * - Z-score of +2 (2 std devs above) = 19-20 points (excellent performers maxed out)
  * 
- * Uses STEEP sigmoid with power amplification for extreme separation
+ * Uses STEEP sigmoid with power amplification for extreme separation.
+ * The figures above are for the default steepness; scoring profiles can flatten or sharpen the curve.
  */
-function zScoreToPoints(zScore: number, maxPoints: number = 20): number {
+function zScoreToPoints(zScore: number, maxPoints: number = 20, steepness: number = DEFAULT_Z_STEEPNESS): number {
   // Clamp z-score to reasonable bounds
   const clampedZ = Math.max(-3, Math.min(3, zScore));
   
   // MUCH STEEPER sigmoid for aggressive separation
-  // Increased steepness from 1.5 to 2.5 for more dramatic differences
-  const steepness = 2.5;
+  // Default steepness raised from 1.5 to 2.5 for more dramatic differences (profiles may override)
   let sigmoid = 1 / (1 + Math.exp(-steepness * clampedZ));
   
   // Additional power amplification for positive scores
@@ -83,12 +121,66 @@ function zScoreToPoints(zScore: number, maxPoints: number = 20): number {
   return Math.max(0, Math.min(maxPoints, points));
 }
 
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Structured record of the points one metric earned (see MetricContribution)
+ * Percentile is computed against `peers` when given, inverted for lower-is-better metrics.
+ */
+function contribution(
+  key: string,
+  metric: string,
+  value: number | null,
+  points: number,
+  maxPoints: number,
+  method: MetricContribution['method'],
+  stats: { peers?: number[]; mean?: number; stdDev?: number; zScore?: number; lowerIsBetter?: boolean; priorWeight?: number } = {},
+  note?: string
+): MetricContribution {
+  const percentile = value !== null && stats.peers && stats.peers.length > 0
+    ? calculatePercentile(value, stats.peers)
+    : null;
+  return {
+    key,
+    metric,
+    value: value === null ? null : round2(value),
+    peerMean: stats.mean === undefined ? null : round2(stats.mean),
+    peerStdDev: stats.stdDev === undefined ? null : round2(stats.stdDev),
+    zScore: stats.zScore === undefined ? null : round2(stats.zScore),
+    percentile: percentile === null ? null : Math.round(stats.lowerIsBetter ? 100 - percentile : percentile),
+    points: round2(points),
+    maxPoints,
+    method,
+    ...(stats.priorWeight ? { priorWeight: round2(stats.priorWeight) } : {}),
+    ...(note ? { note } : {}),
+  };
+}
+
+/**
+ * Append an adjustment row so contributions add up to the final factor score
+ * (rounding, caps and floors)
+ */
+function reconcileContributions(contributions: MetricContribution[], score: number, label = 'Rounding'): MetricContribution[] {
+  const diff = score - contributions.reduce((sum, c) => sum + c.points, 0);
+  if (Math.abs(diff) < 0.01) return contributions;
+  return [...contributions, contribution('adjustment', label, null, diff, 0, 'adjustment')];
+}
+
+/**
+ * Contributions for a factor scored without data (neutral 10/20)
+ */
+const neutralContributions = (key: string, metric: string, note: string): MetricContribution[] =>
+  [contribution(key, metric, null, 10, 20, 'default', {}, note)];
+
 /**
  * Calculate industry benchmarks from peer metrics
+ * The "averages" are the centers of the model's peer statistics: plain means
+ * up to v4, shrunk medians from v5 on.
  */
 export function calculateIndustryBenchmarks(
   peerMetrics: PeerMetrics[],
-  industry: string
+  industry: string,
+  model: ScoringModel = SCORING_MODELS[CURRENT_SCORING_MODEL]
 ): IndustryBenchmarks {
   const validRevGrowth = peerMetrics.map(p => p.revenueGrowth).filter(v => v !== undefined) as number[];
   const validEpsGrowth = peerMetrics.map(p => p.epsGrowth).filter(v => v !== undefined) as number[];
@@ -99,21 +191,185 @@ export function calculateIndustryBenchmarks(
   const validPb = peerMetrics.map(p => p.pb).filter(v => v !== undefined) as number[];
   const validMom1M = peerMetrics.map(p => p.momentum1M).filter(v => v !== undefined) as number[];
   const validMom3M = peerMetrics.map(p => p.momentum3M).filter(v => v !== undefined) as number[];
+  const validMom6M = peerMetrics.map(p => p.momentum6M).filter(v => v !== undefined) as number[];
+  const validMom12M = peerMetrics.map(p => p.momentum12M).filter(v => v !== undefined) as number[];
+
+  const template = model.sectorTemplates ? sectorTemplateFor(industry) : SECTOR_TEMPLATES.general;
+  const stats = peerStatistics(model.statistics, template.id);
 
-  const avg = (arr: number[]) => arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : 0;
+  // ISO timestamps sort chronologically
+  const asOfStamps = peerMetrics.map(p => p.asOf).filter(v => v !== undefined).sort() as string[];
 
   return {
     industry,
     peerCount: peerMetrics.length,
-    avgRevenueGrowth: avg(validRevGrowth),
-    avgEpsGrowth: avg(validEpsGrowth),
-    avgRoe: avg(validRoe),
-    avgNetMargin: avg(validNetMargin),
-    avgOperatingMargin: avg(validOpMargin),
-    avgPe: avg(validPe),
-    avgPb: avg(validPb),
-    avgMomentum1M: avg(validMom1M),
-    avgMomentum3M: avg(validMom3M),
+    avgRevenueGrowth: stats('revenueGrowth', validRevGrowth).center,
+    avgEpsGrowth: stats('epsGrowth', validEpsGrowth).center,
+    avgRoe: stats('roe', validRoe).center,
+    avgNetMargin: stats('netMargin', validNetMargin).center,
+    avgOperatingMargin: stats('operatingMargin', validOpMargin).center,
+    avgPe: stats('pe', validPe).center,
+    avgPb: stats('pb', validPb).center,
+    avgMomentum1M: stats('momentum1M', validMom1M).center,
+    avgMomentum3M: stats('momentum3M', validMom3M).center,
+    avgMomentum6M: stats('momentum6M', validMom6M).center,
+    avgMomentum12M: stats('momentum12M', validMom12M).center,
+    peerDataAsOf: asOfStamps.length > 0
+      ? { oldest: asOfStamps[0], newest: asOfStamps[asOfStamps.length - 1] }
+      : undefined,
+    statistics: model.statistics,
+  };
+}
+
+/**
+ * Points (0-20) and contributions from comparing a company with its own history
+ */
+interface SelfRelativeResult {
+  points: number;
+  contributions: MetricContribution[];
+  detail: string;
+}
+
+const scaleContributions = (parts: MetricContribution[], scale: number): MetricContribution[] =>
+  parts.map(part => ({ ...part, points: round2(part.points * scale), maxPoints: round2(part.maxPoints * scale) }));
+
+/**
+ * Re-scale whichever self-relative components were available to 0-20
+ */
+function selfRelativeResult(parts: MetricContribution[], detail: string): SelfRelativeResult | null {
+  const max = parts.reduce((sum, part) => sum + part.maxPoints, 0);
+  if (max === 0) return null;
+  const scale = 20 / max;
+  return {
+    points: parts.reduce((sum, part) => sum + part.points, 0) * scale,
+    contributions: scaleContributions(parts, scale),
+    detail,
+  };
+}
+
+/**
+ * Factor points with the self-relative component blended in (peer-relative only without one)
+ */
+const blendSelfRelative = (peerPoints: number, self: SelfRelativeResult | null) =>
+  self ? (1 - SELF_RELATIVE_WEIGHT) * peerPoints + SELF_RELATIVE_WEIGHT * self.points : peerPoints;
+
+/**
+ * Contributions matching blendSelfRelative: both sides scaled by their share
+ */
+const blendSelfRelativeContributions = (peerParts: MetricContribution[], self: SelfRelativeResult | null) =>
+  self
+    ? [...scaleContributions(peerParts, 1 - SELF_RELATIVE_WEIGHT), ...scaleContributions(self.contributions, SELF_RELATIVE_WEIGHT)]
+    : peerParts;
+
+/**
+ * Growth vs the company's own history (0-20 before re-scaling):
+ * 1. Revenue growth vs own sales per share CAGR (8 pts) - acceleration scores, deceleration costs
+ * 2. EPS growth vs own EPS CAGR (8 pts)
+ * 3. Revenue growth variability (4 pts) - σ of yearly growth ≤ 5pp full marks, ≥ 30pp none
+ */
+function selfRelativeGrowth(
+  metric: FinnhubBasicFinancials['metric'],
+  trends: CompanyTrends,
+  steepness: number
+): SelfRelativeResult | null {
+  const parts: MetricContribution[] = [];
+  const years = Math.round(trends.years);
+  const revenueGrowth = metric.revenueGrowthQuarterlyYoy ?? metric.revenueGrowthAnnual;
+  const epsGrowth = metric.epsGrowthQuarterlyYoy ?? metric.epsGrowthAnnual;
+
+  if (revenueGrowth !== undefined && trends.revenueCagr !== null) {
+    const spread = Math.max(trends.revenueGrowthStdDev ?? 10, 5);
+    const zScore = calculateZScore(revenueGrowth, trends.revenueCagr, spread);
+    parts.push(contribution('revenueGrowthVsHistory', 'Revenue growth vs own CAGR', revenueGrowth, zScoreToPoints(zScore, 8, steepness), 8, 'z-score',
+      { mean: trends.revenueCagr, stdDev: spread, zScore }, `${years}-year sales per share CAGR`));
+  }
+  if (epsGrowth !== undefined && trends.epsCagr !== null) {
+    const spread = Math.max(trends.epsGrowthStdDev ?? 20, 10);
+    const zScore = calculateZScore(epsGrowth, trends.epsCagr, spread);
+    parts.push(contribution('epsGrowthVsHistory', 'EPS growth vs own CAGR', epsGrowth, zScoreToPoints(zScore, 8, steepness), 8, 'z-score',
+      { mean: trends.epsCagr, stdDev: spread, zScore }, `${years}-year EPS CAGR`));
+  }
+  if (trends.revenueGrowthStdDev !== null) {
+    const points = 4 * Math.min(1, Math.max(0, (30 - trends.revenueGrowthStdDev) / 25));
+    parts.push(contribution('revenueGrowthVariability', 'Revenue growth variability (σ)', trends.revenueGrowthStdDev, points, 4, 'threshold', {},
+      'σ ≤ 5pp full marks, ≥ 30pp none'));
+  }
+
+  const cagrs = [
+    trends.revenueCagr !== null ? `revenue ${trends.revenueCagr.toFixed(1)}%` : null,
+    trends.epsCagr !== null ? `EPS ${trends.epsCagr.toFixed(1)}%` : null,
+  ].filter(Boolean).join(', ');
+  return selfRelativeResult(parts, `${years}y CAGR: ${cagrs || 'n/a'}`);
+}
+
+/**
+ * Margins vs the company's own history (0-20 before re-scaling), on operating
+ * margin (net margin when that's all the series has):
+ * 1. Current margin vs own multi-year average (7 pts)
+ * 2. Margin trajectory (7 pts) - +1.5pp a year ≈ +1 std dev
+ * 3. Margin stability (6 pts) - σ ≤ 2pp full marks, ≥ 10pp none
+ */
+function selfRelativeProfitability(
+  metric: FinnhubBasicFinancials['metric'],
+  trends: CompanyTrends,
+  steepness: number
+): SelfRelativeResult | null {
+  const useOperating = trends.operatingMargin !== null;
+  const trend = trends.operatingMargin ?? trends.netMargin;
+  if (!trend) return null;
+
+  const label = useOperating ? 'Operating margin' : 'Net margin';
+  const key = useOperating ? 'operatingMargin' : 'netMargin';
+  const current = (useOperating ? metric.operatingMarginAnnual : metric.netProfitMarginAnnual) ?? trend.latest;
+  const spread = Math.max(trend.stdDev, 1);
+  const levelZScore = calculateZScore(current, trend.average, spread);
+  const slopeZScore = trend.slope / 1.5;
+  const parts = [
+    contribution(`${key}VsHistory`, `${label} vs own average`, current, zScoreToPoints(levelZScore, 7, steepness), 7, 'z-score',
+      { mean: trend.average, stdDev: spread, zScore: levelZScore }, `${trend.periods} fiscal years to ${trend.to}`),
+    contribution(`${key}Trajectory`, `${label} trajectory (pp/yr)`, trend.slope, zScoreToPoints(slopeZScore, 7, steepness), 7, 'z-score',
+      { mean: 0, stdDev: 1.5, zScore: slopeZScore }),
+    contribution(`${key}Variability`, `${label} variability (σ)`, trend.stdDev, 6 * Math.min(1, Math.max(0, (10 - trend.stdDev) / 8)), 6, 'threshold', {},
+      'σ ≤ 2pp full marks, ≥ 10pp none'),
+  ];
+
+  return selfRelativeResult(parts,
+    `${label.toLowerCase()} ${trend.slope >= 0 ? '+' : ''}${trend.slope.toFixed(1)}pp/yr over ${trend.periods} years`);
+}
+
+/**
+ * Growth points (0-4) for beating consensus: EPS beat rate and average surprise
+ * Null without enough reported quarters.
+ */
+function earningsSurpriseGrowth(
+  earnings: EarningsSummary | undefined,
+  steepness: number
+): { points: number; contributions: MetricContribution[]; detail: string } | null {
+  if (!earnings || earnings.quarters < MIN_EARNINGS_QUARTERS) return null;
+
+  const parts: MetricContribution[] = [];
+  const used: string[] = [];
+  if (earnings.beatRate !== null) {
+    // Linear, beating every quarter = full marks
+    parts.push(contribution('beatMomentum', 'EPS beat rate', earnings.beatRate * 100, earnings.beatRate * 2, 2, 'threshold', {},
+      `Last ${earnings.quarters} quarters`));
+    used.push(`beat ${Math.round(earnings.beatRate * earnings.quarters)}/${earnings.quarters}Q`);
+  }
+  if (earnings.avgSurprisePercent !== null) {
+    // +5% average surprise ≈ +1 std dev
+    const zScore = earnings.avgSurprisePercent / 5;
+    parts.push(contribution('surpriseMomentum', 'Average EPS surprise', earnings.avgSurprisePercent, zScoreToPoints(zScore, 2, steepness), 2, 'z-score',
+      { mean: 0, stdDev: 5, zScore }));
+    used.push(`avg surprise ${earnings.avgSurprisePercent >= 0 ? '+' : ''}${earnings.avgSurprisePercent.toFixed(1)}%`);
+  }
+  if (parts.length === 0) return null;
+
+  // Rescale to 4 points over whichever inputs were available
+  const scale = 4 / parts.reduce((sum, part) => sum + part.maxPoints, 0);
+  return {
+    points: parts.reduce((sum, part) => sum + part.points, 0) * scale,
+    contributions: scaleContributions(parts, scale),
+    detail: used.join(', '),
   };
 }
 
@@ -122,18 +378,25 @@ export function calculateIndustryBenchmarks(
  * 
  * Analyzes revenue growth, EPS growth, and margin expansion trends.
  * Compares to industry peers and rewards consistent, stable growth over volatility.
+ * With reported earnings (v8+), beating consensus earns 4 of the 20 points -
+ * companies that keep beating estimates tend to keep growing ahead of them.
  */
 function calculateGrowthScore(
   financials: FinnhubBasicFinancials | null,
   peerMetrics: PeerMetrics[],
-  benchmarks: IndustryBenchmarks
-): { score: number; detail: string; tooltip: string; percentile: number } {
+  benchmarks: IndustryBenchmarks,
+  steepness: number = DEFAULT_Z_STEEPNESS,
+  peerStats: PeerStatistics = CLASSIC_PEER_STATS,
+  trends: CompanyTrends | null = null,
+  earnings?: EarningsSummary
+): { score: number; detail: string; tooltip: string; percentile: number; contributions: MetricContribution[] } {
   if (!financials?.metric) {
     return {
       score: 10,
       detail: 'Limited growth data available',
       tooltip: 'Insufficient data for growth analysis',
       percentile: 50,
+      contributions: neutralContributions('growth', 'Growth data', 'No basic financials - neutral score'),
     };
   }
 
@@ -148,25 +411,26 @@ function calculateGrowthScore(
   const peerEpsGrowth = peerMetrics.map(p => p.epsGrowth).filter(v => v !== undefined) as number[];
 
   // Calculate statistics for z-score
-  const avgRevGrowth = benchmarks.avgRevenueGrowth;
-  const avgEpsGrowth = benchmarks.avgEpsGrowth;
-  
-  const stdDevRevGrowth = Math.sqrt(
-    peerRevGrowth.reduce((sum, v) => sum + Math.pow(v - avgRevGrowth, 2), 0) / Math.max(peerRevGrowth.length, 1)
-  );
-  const stdDevEpsGrowth = Math.sqrt(
-    peerEpsGrowth.reduce((sum, v) => sum + Math.pow(v - avgEpsGrowth, 2), 0) / Math.max(peerEpsGrowth.length, 1)
-  );
+  const revGrowthStats = peerStats('revenueGrowth', peerRevGrowth, { benchmark: benchmarks.avgRevenueGrowth });
+  const epsGrowthStats = peerStats('epsGrowth', peerEpsGrowth, { benchmark: benchmarks.avgEpsGrowth });
+  const avgRevGrowth = revGrowthStats.center;
+  const avgEpsGrowth = epsGrowthStats.center;
+  const stdDevRevGrowth = revGrowthStats.spread;
+  const stdDevEpsGrowth = epsGrowthStats.spread;
 
   // Calculate z-scores
   const revGrowthZScore = calculateZScore(revenueGrowth, avgRevGrowth, stdDevRevGrowth);
   const epsGrowthZScore = calculateZScore(epsGrowth, avgEpsGrowth, stdDevEpsGrowth);
 
-  // Convert to points (10 points each for revenue and EPS)
-  const revPoints = zScoreToPoints(revGrowthZScore, 10);
-  const epsPoints = zScoreToPoints(epsGrowthZScore, 10);
+  // Convert to points (10 points each for revenue and EPS, 8 each next to the surprise component)
+  const surprise = earningsSurpriseGrowth(earnings, steepness);
+  const growthMax = surprise ? 8 : 10;
+  const revPoints = zScoreToPoints(revGrowthZScore, growthMax, steepness);
+  const epsPoints = zScoreToPoints(epsGrowthZScore, growthMax, steepness);
 
-  const totalScore = Math.round(revPoints + epsPoints);
+  // Own-history component (v6+), blended with the peer-relative points
+  const selfRelative = trends ? selfRelativeGrowth(metric, trends, steepness) : null;
+  const totalScore = Math.round(blendSelfRelative(revPoints + epsPoints + (surprise?.points ?? 0), selfRelative));
 
   // Calculate overall percentile
   const compositeGrowth = (revenueGrowth + epsGrowth) / 2;
@@ -178,13 +442,26 @@ function calculateGrowthScore(
   const revComparison = revenueGrowth > avgRevGrowth ? 'above' : 'below';
   const epsComparison = epsGrowth > avgEpsGrowth ? 'above' : 'below';
   
-  const detail = `Revenue: ${revenueGrowth.toFixed(1)}% (${revComparison} industry avg ${avgRevGrowth.toFixed(1)}%), EPS: ${epsGrowth.toFixed(1)}% (${epsComparison} avg ${avgEpsGrowth.toFixed(1)}%)`;
+  const detail = `Revenue: ${revenueGrowth.toFixed(1)}% (${revComparison} industry avg ${avgRevGrowth.toFixed(1)}%), EPS: ${epsGrowth.toFixed(1)}% (${epsComparison} avg ${avgEpsGrowth.toFixed(1)}%)${surprise ? `; ${surprise.detail}` : ''}${selfRelative ? `; ${selfRelative.detail}` : ''}`;
   
   const tooltip = `${percentile}th percentile vs ${benchmarks.peerCount} peers. ${
     totalScore >= 15 ? 'Strong' : totalScore >= 10 ? 'Average' : 'Below average'
   } growth relative to ${benchmarks.industry} sector`;
 
-  return { score: totalScore, detail, tooltip, percentile };
+  const missing = 'Not reported - scored as 0%';
+  const revReported = metric.revenueGrowthQuarterlyYoy ?? metric.revenueGrowthAnnual;
+  const epsReported = metric.epsGrowthQuarterlyYoy ?? metric.epsGrowthAnnual;
+  const contributions = reconcileContributions(blendSelfRelativeContributions([
+    contribution('revenueGrowth', 'Revenue growth', revReported ?? null, revPoints, growthMax, 'z-score',
+      { peers: peerRevGrowth, mean: avgRevGrowth, stdDev: stdDevRevGrowth, zScore: revGrowthZScore, priorWeight: revGrowthStats.priorWeight },
+      revReported === undefined ? missing : undefined),
+    contribution('epsGrowth', 'EPS growth', epsReported ?? null, epsPoints, growthMax, 'z-score',
+      { peers: peerEpsGrowth, mean: avgEpsGrowth, stdDev: stdDevEpsGrowth, zScore: epsGrowthZScore, priorWeight: epsGrowthStats.priorWeight },
+      epsReported === undefined ? missing : undefined),
+    ...(surprise?.contributions ?? []),
+  ], selfRelative), totalScore);
+
+  return { score: totalScore, detail, tooltip, percentile, contributions };
 }
 
 /**
@@ -196,14 +473,18 @@ function calculateGrowthScore(
 function calculateProfitabilityScore(
   financials: FinnhubBasicFinancials | null,
   peerMetrics: PeerMetrics[],
-  benchmarks: IndustryBenchmarks
-): { score: number; detail: string; tooltip: string; percentile: number } {
+  benchmarks: IndustryBenchmarks,
+  steepness: number = DEFAULT_Z_STEEPNESS,
+  peerStats: PeerStatistics = CLASSIC_PEER_STATS,
+  trends: CompanyTrends | null = null
+): { score: number; detail: string; tooltip: string; percentile: number; contributions: MetricContribution[] } {
   if (!financials?.metric) {
     return {
       score: 10,
       detail: 'Limited profitability data available',
       tooltip: 'Insufficient data for profitability analysis',
       percentile: 50,
+      contributions: neutralContributions('profitability', 'Profitability data', 'No basic financials - neutral score'),
     };
   }
 
@@ -218,27 +499,26 @@ function calculateProfitabilityScore(
   const peerOpMargin = peerMetrics.map(p => p.operatingMargin).filter(v => v !== undefined) as number[];
 
   // Calculate statistics
-  const stdDevRoe = Math.sqrt(
-    peerRoe.reduce((sum, v) => sum + Math.pow(v - benchmarks.avgRoe, 2), 0) / Math.max(peerRoe.length, 1)
-  );
-  const stdDevNetMargin = Math.sqrt(
-    peerNetMargin.reduce((sum, v) => sum + Math.pow(v - benchmarks.avgNetMargin, 2), 0) / Math.max(peerNetMargin.length, 1)
-  );
-  const stdDevOpMargin = Math.sqrt(
-    peerOpMargin.reduce((sum, v) => sum + Math.pow(v - benchmarks.avgOperatingMargin, 2), 0) / Math.max(peerOpMargin.length, 1)
-  );
+  const roeStats = peerStats('roe', peerRoe, { benchmark: benchmarks.avgRoe });
+  const netMarginStats = peerStats('netMargin', peerNetMargin, { benchmark: benchmarks.avgNetMargin });
+  const opMarginStats = peerStats('operatingMargin', peerOpMargin, { benchmark: benchmarks.avgOperatingMargin });
+  const stdDevRoe = roeStats.spread;
+  const stdDevNetMargin = netMarginStats.spread;
+  const stdDevOpMargin = opMarginStats.spread;
 
   // Calculate z-scores
-  const roeZScore = calculateZScore(roe, benchmarks.avgRoe, stdDevRoe);
-  const netMarginZScore = calculateZScore(netMargin, benchmarks.avgNetMargin, stdDevNetMargin);
-  const opMarginZScore = calculateZScore(opMargin, benchmarks.avgOperatingMargin, stdDevOpMargin);
+  const roeZScore = calculateZScore(roe, roeStats.center, stdDevRoe);
+  const netMarginZScore = calculateZScore(netMargin, netMarginStats.center, stdDevNetMargin);
+  const opMarginZScore = calculateZScore(opMargin, opMarginStats.center, stdDevOpMargin);
 
   // Convert to points (weighted: ROE 8pts, Net Margin 6pts, Op Margin 6pts)
-  const roePoints = zScoreToPoints(roeZScore, 8);
-  const netMarginPoints = zScoreToPoints(netMarginZScore, 6);
-  const opMarginPoints = zScoreToPoints(opMarginZScore, 6);
+  const roePoints = zScoreToPoints(roeZScore, 8, steepness);
+  const netMarginPoints = zScoreToPoints(netMarginZScore, 6, steepness);
+  const opMarginPoints = zScoreToPoints(opMarginZScore, 6, steepness);
 
-  const totalScore = Math.round(roePoints + netMarginPoints + opMarginPoints);
+  // Own-history component (v6+), blended with the peer-relative points
+  const selfRelative = trends ? selfRelativeProfitability(metric, trends, steepness) : null;
+  const totalScore = Math.round(blendSelfRelative(roePoints + netMarginPoints + opMarginPoints, selfRelative));
 
   // Calculate percentile
   const compositeProfitability = (roe + netMargin + opMargin) / 3;
@@ -247,14 +527,115 @@ function calculateProfitabilityScore(
   );
   const percentile = Math.round(calculatePercentile(compositeProfitability, peerCompositeProfitability));
 
-  const detail = `ROE: ${roe.toFixed(1)}% (avg ${benchmarks.avgRoe.toFixed(1)}%), Net margin: ${netMargin.toFixed(1)}% (avg ${benchmarks.avgNetMargin.toFixed(1)}%)`;
+  const detail = `ROE: ${roe.toFixed(1)}% (avg ${roeStats.center.toFixed(1)}%), Net margin: ${netMargin.toFixed(1)}% (avg ${netMarginStats.center.toFixed(1)}%)${selfRelative ? `; ${selfRelative.detail}` : ''}`;
   const tooltip = `${percentile}th percentile. ${
     totalScore >= 15 ? 'Highly profitable' : totalScore >= 10 ? 'Average profitability' : 'Below average margins'
   } vs ${benchmarks.industry} peers`;
 
-  return { score: totalScore, detail, tooltip, percentile };
+  const missing = 'Not reported - scored as 0%';
+  const contributions = reconcileContributions(blendSelfRelativeContributions([
+    contribution('roe', 'ROE', metric.roeRfy ?? null, roePoints, 8, 'z-score',
+      { peers: peerRoe, mean: roeStats.center, stdDev: stdDevRoe, zScore: roeZScore, priorWeight: roeStats.priorWeight },
+      metric.roeRfy === undefined ? missing : undefined),
+    contribution('netMargin', 'Net margin', metric.netProfitMarginAnnual ?? null, netMarginPoints, 6, 'z-score',
+      { peers: peerNetMargin, mean: netMarginStats.center, stdDev: stdDevNetMargin, zScore: netMarginZScore, priorWeight: netMarginStats.priorWeight },
+      metric.netProfitMarginAnnual === undefined ? missing : undefined),
+    contribution('operatingMargin', 'Operating margin', metric.operatingMarginAnnual ?? null, opMarginPoints, 6, 'z-score',
+      { peers: peerOpMargin, mean: opMarginStats.center, stdDev: stdDevOpMargin, zScore: opMarginZScore, priorWeight: opMarginStats.priorWeight },
+      metric.operatingMarginAnnual === undefined ? missing : undefined),
+  ], selfRelative), totalScore);
+
+  return { score: totalScore, detail, tooltip, percentile, contributions };
 }
 
+/**
+ * How each valuation metric is read, compared with peers and tiered
+ * Yields are higher-is-better, so their peer ratio is inverted (average / value)
+ */
+const VALUATION_METRICS: Record<ValuationMetricKey, {
+  label: string;
+  unit: 'x' | '%';
+  higherIsBetter: boolean;
+  value: (metric: FinnhubBasicFinancials['metric']) => number | undefined;
+  peer: (peer: PeerMetrics) => number | undefined;
+  valid: (value: number) => boolean;
+  benchmark?: (benchmarks: IndustryBenchmarks) => number; // Industry average from the benchmarks instead of the valid peers
+  absoluteTiers: Array<[number, number]>; // [bound, points]: first bound the value is below (above when higher is better)
+  invalidNote: string;
+}> = {
+  pe: {
+    label: 'P/E',
+    unit: 'x',
+    higherIsBetter: false,
+    value: metric => metric.peNormalizedAnnual,
+    peer: peer => peer.pe,
+    valid: value => value > 0 && value < 500,
+    benchmark: benchmarks => benchmarks.avgPe,
+    absoluteTiers: [[15, 18], [25, 15], [35, 12], [50, 10], [Infinity, 8]],
+    invalidNote: 'P/E missing, negative or above 500x - neutral score',
+  },
+  pb: {
+    label: 'P/B',
+    unit: 'x',
+    higherIsBetter: false,
+    value: metric => metric.pbAnnual,
+    peer: peer => peer.pb,
+    valid: value => value > 0,
+    benchmark: benchmarks => benchmarks.avgPb,
+    absoluteTiers: [[1, 18], [1.5, 15], [2, 12], [3, 10], [Infinity, 8]],
+    invalidNote: 'P/B missing or negative - neutral score',
+  },
+  cashFlowYield: {
+    label: 'Cash flow yield',
+    unit: '%',
+    higherIsBetter: true,
+    value: metric => metric.pcfShareTTM && metric.pcfShareTTM > 0 ? 100 / metric.pcfShareTTM : undefined,
+    peer: peer => peer.pcf && peer.pcf > 0 ? 100 / peer.pcf : undefined,
+    valid: value => value > 0 && value < 50, // Below 2x cash flow is a data problem, not a bargain
+    absoluteTiers: [[10, 18], [7, 15], [5, 12], [3, 10], [-Infinity, 8]],
+    invalidNote: 'Price/cash flow missing, negative or below 2x - neutral score',
+  },
+  dividendYield: {
+    label: 'Dividend yield',
+    unit: '%',
+    higherIsBetter: true,
+    value: metric => metric.dividendYieldIndicatedAnnual,
+    peer: peer => peer.dividendYield,
+    valid: value => value > 0 && value < 25,
+    absoluteTiers: [[5, 18], [4, 15], [3, 12], [2, 10], [-Infinity, 8]],
+    invalidNote: 'No dividend reported - neutral score',
+  },
+};
+
+// Points by peer ratio (1.0 = at the industry average, below 1 = cheaper)
+// Primary metric (12 points max) - heavily rewards undervaluation, severely penalizes overvaluation
+const PRIMARY_RATIO_TIERS: Array<[number, number]> = [
+  [0.6, 12], // 40%+ discount to industry = exceptional value
+  [0.75, 11.5], // 25-40% discount = excellent value
+  [0.85, 10.5], // 15-25% discount = very good value
+  [0.95, 9.5], // 5-15% discount = good value
+  [1.05, 8], // Within 5% of industry average = fair/neutral
+  [1.15, 6.5], // 5-15% premium = acceptable if justified
+  [1.30, 4.5], // 15-30% premium = concerning
+  [1.50, 3], // 30-50% premium = expensive
+  [2.0, 1.5], // 50-100% premium = very expensive
+  [Infinity, 0.5], // 100%+ premium = extremely overvalued
+];
+
+// Secondary metric (8 points max) - aggressive industry-relative scoring
+const SECONDARY_RATIO_TIERS: Array<[number, number]> = [
+  [0.6, 8], // Deep discount
+  [0.75, 7.5], // Strong discount
+  [0.9, 6.5], // Good discount
+  [1.0, 5], // Slight discount
+  [1.15, 3.5], // Slight premium
+  [1.35, 2], // Moderate premium
+  [1.6, 1], // High premium
+  [Infinity, 0.5], // Very high premium
+];
+
+const tierPoints = (ratio: number, tiers: Array<[number, number]>) => tiers.find(([bound]) => ratio <= bound)![1];
+
 /**
  * VALUATION SCORE (0-20 points)
  * 
@@ -264,55 +645,66 @@ function calculateProfitabilityScore(
  * 3. PEG ratio (P/E justified by growth) when available
  * 4. Industry context (tech can have higher multiples than banks)
  * 
+ * The sector template swaps the metrics: P/B first for banks and insurers,
+ * cash flow (FFO-style) and dividend yield for REITs, dividend yield for utilities.
+ * 
  * Does NOT blindly penalize valuations above industry average - considers if they're justified.
  */
 function calculateValuationScore(
   financials: FinnhubBasicFinancials | null,
   peerMetrics: PeerMetrics[],
-  benchmarks: IndustryBenchmarks
-): { score: number; detail: string; tooltip: string; percentile: number } {
+  benchmarks: IndustryBenchmarks,
+  template: ValuationTemplate = SECTOR_TEMPLATES.general.valuation,
+  peerStats: PeerStatistics = CLASSIC_PEER_STATS
+): { score: number; detail: string; tooltip: string; percentile: number; contributions: MetricContribution[] } {
   if (!financials?.metric) {
     return {
       score: 10,
       detail: 'Limited valuation data available',
       tooltip: 'Insufficient data for valuation analysis',
       percentile: 50,
+      contributions: neutralContributions('valuation', 'Valuation data', 'No basic financials - neutral score'),
     };
   }
 
   const metric = financials.metric;
-  const pe = metric.peNormalizedAnnual ?? 0;
-  const pb = metric.pbAnnual ?? 0;
-  const peg = metric.pegAnnual;
+  const primarySpec = VALUATION_METRICS[template.primary];
+  const secondarySpec = VALUATION_METRICS[template.secondary];
+  const primary = primarySpec.value(metric) ?? 0;
+  const secondary = secondarySpec.value(metric) ?? 0;
+  const peg = template.peg ? metric.pegAnnual : undefined;
+
+  const format = (spec: typeof primarySpec, value: number) =>
+    spec.unit === 'x' ? `${value.toFixed(1)}x` : `${value.toFixed(1)}%`;
 
-  // Skip scoring if P/E is invalid or extreme
-  if (pe <= 0 || pe > 500) {
+  // Skip scoring if the primary metric is invalid or extreme
+  if (!primarySpec.valid(primary)) {
     return {
       score: 10,
-      detail: 'P/E not meaningful for valuation',
-      tooltip: 'Company may be unprofitable or have unusual earnings',
+      detail: `${primarySpec.label} not meaningful for valuation`,
+      tooltip: template.primary === 'pe'
+        ? 'Company may be unprofitable or have unusual earnings'
+        : `${primarySpec.label} not reported or not meaningful`,
       percentile: 50,
+      contributions: [contribution(template.primary, primarySpec.label, primarySpec.value(metric) ?? null, 10, 20, 'default', {}, primarySpec.invalidNote)],
     };
   }
 
   // Extract peer valuations (filter outliers)
-  const peerPe = peerMetrics
-    .map(p => p.pe)
-    .filter(v => v !== undefined && v > 0 && v < 500) as number[];
-  const peerPb = peerMetrics
-    .map(p => p.pb)
-    .filter(v => v !== undefined && v > 0) as number[];
+  const peerPrimary = peerMetrics
+    .map(primarySpec.peer)
+    .filter(v => v !== undefined && primarySpec.valid(v)) as number[];
+  const peerSecondary = peerMetrics
+    .map(secondarySpec.peer)
+    .filter(v => v !== undefined && secondarySpec.valid(v)) as number[];
 
   // If insufficient peer data, use absolute but generous thresholds
-  if (peerPe.length < 3) {
-    let score = 10; // Start neutral
-    
+  if (peerPrimary.length < 3) {
     // Generous absolute thresholds (industry-agnostic baseline)
-    if (pe < 15) score = 18; // Very cheap
-    else if (pe < 25) score = 15; // Reasonable
-    else if (pe < 35) score = 12; // Fair
-    else if (pe < 50) score = 10; // Slightly expensive
-    else score = 8; // Expensive
+    let score = primarySpec.absoluteTiers.find(([bound]) =>
+      primarySpec.higherIsBetter ? primary >= bound : primary < bound
+    )![1];
+    const absoluteScore = score;
     
     // PEG adjustment if available
     if (peg && peg > 0) {
@@ -320,58 +712,34 @@ function calculateValuationScore(
       else if (peg > 2) score -= 2; // Expensive for growth
     }
 
+    const finalScore = Math.max(0, Math.min(20, score));
+    const contributions = [
+      contribution(template.primary, `${primarySpec.label} (absolute)`, primary, absoluteScore, 18, 'threshold', {}, `Fewer than 3 peers with a valid ${primarySpec.label}`),
+    ];
+    if (peg && peg > 0) {
+      contributions.push(contribution('peg', 'PEG', peg, score - absoluteScore, 2, 'threshold'));
+    }
+
     return {
-      score: Math.max(0, Math.min(20, score)),
-      detail: `P/E: ${pe.toFixed(1)}x, P/B: ${pb.toFixed(1)}x${peg ? `, PEG: ${peg.toFixed(2)}` : ''}`,
+      score: finalScore,
+      detail: `${primarySpec.label}: ${format(primarySpec, primary)}, ${secondarySpec.label}: ${format(secondarySpec, secondary)}${peg ? `, PEG: ${peg.toFixed(2)}` : ''}`,
       tooltip: 'Limited peer data; using absolute valuation assessment',
       percentile: 50,
+      contributions: reconcileContributions(contributions, finalScore),
     };
   }
 
   // Calculate industry statistics
-  const avgPe = benchmarks.avgPe;
-  const stdDevPe = Math.sqrt(
-    peerPe.reduce((sum, v) => sum + Math.pow(v - avgPe, 2), 0) / peerPe.length
-  );
+  const primaryStats = peerStats(template.primary, peerPrimary, { benchmark: primarySpec.benchmark?.(benchmarks) });
+  const avgPrimary = primaryStats.center;
+  const stdDevPrimary = primaryStats.spread;
 
   // Calculate relative valuation (how much above/below industry)
-  const peRatio = pe / avgPe; // 1.0 = at average, 1.2 = 20% premium, 0.8 = 20% discount
-  
-  // Score P/E with AGGRESSIVE non-linear approach (12 points max)
-  // Heavily rewards undervaluation, severely penalizes overvaluation
-  let peScore = 0;
-  
-  if (peRatio <= 0.6) {
-    // 40%+ discount to industry = exceptional value
-    peScore = 12;
-  } else if (peRatio <= 0.75) {
-    // 25-40% discount = excellent value
-    peScore = 11.5;
-  } else if (peRatio <= 0.85) {
-    // 15-25% discount = very good value
-    peScore = 10.5;
-  } else if (peRatio <= 0.95) {
-    // 5-15% discount = good value
-    peScore = 9.5;
-  } else if (peRatio <= 1.05) {
-    // Within 5% of industry average = fair/neutral
-    peScore = 8;
-  } else if (peRatio <= 1.15) {
-    // 5-15% premium = acceptable if justified
-    peScore = 6.5;
-  } else if (peRatio <= 1.30) {
-    // 15-30% premium = concerning
-    peScore = 4.5;
-  } else if (peRatio <= 1.50) {
-    // 30-50% premium = expensive
-    peScore = 3;
-  } else if (peRatio <= 2.0) {
-    // 50-100% premium = very expensive
-    peScore = 1.5;
-  } else {
-    // 100%+ premium = extremely overvalued
-    peScore = 0.5;
-  }
+  // 1.0 = at average, 1.2 = 20% more expensive, 0.8 = 20% cheaper
+  const primaryRatio = primarySpec.higherIsBetter ? avgPrimary / primary : primary / avgPrimary;
+  
+  // Score the primary metric with AGGRESSIVE non-linear approach (12 points max)
+  let primaryScore = tierPoints(primaryRatio, PRIMARY_RATIO_TIERS);
 
   // PEG Ratio Adjustment (can add up to 5 points or subtract up to 4)
   // PEG < 1 means P/E is justified by growth (good value)
@@ -395,43 +763,38 @@ function calculateValuationScore(
     }
   }
 
-  peScore = Math.max(0, Math.min(12, peScore + pegAdjustment));
+  const basePrimaryScore = primaryScore;
+  primaryScore = Math.max(0, Math.min(12, primaryScore + pegAdjustment));
 
-  // Score P/B (8 points max) - aggressive industry-relative scoring
-  let pbScore = 4; // Default neutral (reduced from 6)
-  if (pb > 0 && peerPb.length >= 3) {
-    const avgPb = benchmarks.avgPb;
-    const pbRatio = pb / avgPb;
-    
-    if (pbRatio <= 0.6) pbScore = 8; // Deep discount
-    else if (pbRatio <= 0.75) pbScore = 7.5; // Strong discount
-    else if (pbRatio <= 0.9) pbScore = 6.5; // Good discount
-    else if (pbRatio <= 1.0) pbScore = 5; // Slight discount
-    else if (pbRatio <= 1.15) pbScore = 3.5; // Slight premium
-    else if (pbRatio <= 1.35) pbScore = 2; // Moderate premium
-    else if (pbRatio <= 1.6) pbScore = 1; // High premium
-    else pbScore = 0.5; // Very high premium
+  // Score the secondary metric (8 points max) - industry-relative
+  let secondaryScore = 4; // Default neutral (reduced from 6)
+  const secondaryStats = peerStats(template.secondary, peerSecondary, { benchmark: secondarySpec.benchmark?.(benchmarks) });
+  const avgSecondary = peerSecondary.length >= 3 ? secondaryStats.center : 0;
+  const hasSecondary = secondarySpec.valid(secondary) && peerSecondary.length >= 3;
+  const secondaryRatio = secondarySpec.higherIsBetter ? avgSecondary / secondary : secondary / avgSecondary;
+  if (hasSecondary) {
+    secondaryScore = tierPoints(secondaryRatio, SECONDARY_RATIO_TIERS);
   }
 
-  const totalScore = Math.round(peScore + pbScore);
+  const totalScore = Math.round(primaryScore + secondaryScore);
 
-  // Calculate percentile (inverted - lower P/E = higher percentile)
-  const invertedPercentile = 100 - Math.round(calculatePercentile(pe, peerPe));
-  const percentile = Math.max(0, Math.min(100, invertedPercentile));
+  // Calculate percentile (inverted for multiples - lower P/E = higher percentile)
+  const rawPercentile = Math.round(calculatePercentile(primary, peerPrimary));
+  const percentile = Math.max(0, Math.min(100, primarySpec.higherIsBetter ? rawPercentile : 100 - rawPercentile));
 
   // Generate contextual explanation
-  const peDiff = ((pe - avgPe) / avgPe) * 100;
-  let peRelative: string;
+  const primaryDiff = ((primary - avgPrimary) / avgPrimary) * 100;
+  let primaryRelative: string;
   
-  if (Math.abs(peDiff) < 5) {
-    peRelative = 'in line with';
-  } else if (peDiff < 0) {
-    peRelative = `${Math.abs(peDiff).toFixed(0)}% below`;
+  if (Math.abs(primaryDiff) < 5) {
+    primaryRelative = 'in line with';
+  } else if (primaryDiff < 0) {
+    primaryRelative = `${Math.abs(primaryDiff).toFixed(0)}% below`;
   } else {
-    peRelative = `${peDiff.toFixed(0)}% above`;
+    primaryRelative = `${primaryDiff.toFixed(0)}% above`;
   }
 
-  const detail = `P/E: ${pe.toFixed(1)}x (${peRelative} industry ${avgPe.toFixed(1)}x)${peg ? `, PEG: ${peg.toFixed(2)}` : ''}, P/B: ${pb.toFixed(1)}x`;
+  const detail = `${primarySpec.label}: ${format(primarySpec, primary)} (${primaryRelative} industry ${format(primarySpec, avgPrimary)})${peg ? `, PEG: ${peg.toFixed(2)}` : ''}, ${secondarySpec.label}: ${format(secondarySpec, secondary)}`;
   
   let valuationAssessment: string;
   if (totalScore >= 16) valuationAssessment = 'Excellent value';
@@ -440,9 +803,27 @@ function calculateValuationScore(
   else if (totalScore >= 8) valuationAssessment = 'Slightly expensive';
   else valuationAssessment = 'Premium valuation';
 
-  const tooltip = `${percentile}th percentile. ${valuationAssessment} - ${peRatio < 1 ? 'trading below' : peRatio <= 1.15 ? 'near' : 'above'} ${benchmarks.industry} average`;
+  const tooltip = `${percentile}th percentile. ${valuationAssessment} - ${primaryRatio < 1 ? 'trading below' : primaryRatio <= 1.15 ? 'near' : 'above'} ${benchmarks.industry} average`;
 
-  return { score: totalScore, detail, tooltip, percentile };
+  const relativeNote = (spec: typeof primarySpec, ratio: number) => spec.higherIsBetter
+    ? `${(1 / ratio).toFixed(2)}x the industry average (higher is cheaper)`
+    : `${ratio.toFixed(2)}x the industry average`;
+  const contributions = [
+    contribution(template.primary, `${primarySpec.label} vs industry`, primary, basePrimaryScore, 12, 'peer-ratio',
+      { peers: peerPrimary, mean: avgPrimary, stdDev: stdDevPrimary, zScore: calculateZScore(primary, avgPrimary, stdDevPrimary), lowerIsBetter: !primarySpec.higherIsBetter, priorWeight: primaryStats.priorWeight },
+      relativeNote(primarySpec, primaryRatio)),
+  ];
+  if (peg && peg > 0) {
+    // PEG adjusts the primary points (capped to the primary range)
+    contributions.push(contribution('peg', 'PEG adjustment', peg, primaryScore - basePrimaryScore, 5, 'threshold'));
+  }
+  contributions.push(hasSecondary
+    ? contribution(template.secondary, `${secondarySpec.label} vs industry`, secondary, secondaryScore, 8, 'peer-ratio',
+        { peers: peerSecondary, mean: avgSecondary, lowerIsBetter: !secondarySpec.higherIsBetter, priorWeight: secondaryStats.priorWeight }, relativeNote(secondarySpec, secondaryRatio))
+    : contribution(template.secondary, secondarySpec.label, secondarySpec.valid(secondary) ? secondary : null, secondaryScore, 8, 'default', {},
+        `Too few peers with ${secondarySpec.label} - neutral points`));
+
+  return { score: totalScore, detail, tooltip, percentile, contributions: reconcileContributions(contributions, totalScore) };
 }
 
 /**
@@ -450,23 +831,33 @@ function calculateValuationScore(
  * 
  * Comprehensive 4-component quality analysis:
  * 1. Balance Sheet Strength (5 pts) - D/E, liquidity, interest coverage
- * 2. Earnings Stability (5 pts) - EPS consistency, volatility, positive streak
+ * 2. Earnings Stability (5 pts) - EPS beat rate, average surprise, EPS growth volatility
  * 3. Cash Flow Quality (5 pts) - FCF margin, cash conversion ratio
  * 4. Capital Efficiency (5 pts) - ROIC, ROA, historical stability
  * 
  * Designed to prevent mega-caps with strong fundamentals from scoring below 10/20.
+ * With `fundamentals` from reported statements (v7+), FCF, ROIC and interest
+ * coverage are real; the margin, ROE and low-D/E proxies are the fallbacks.
+ * The sector template sets leverage tolerance (or swaps D/E for the equity
+ * cushion), whether the current ratio counts, the ROE bar and a payout ceiling.
  */
 function calculateQualityScore(
   financials: FinnhubBasicFinancials | null,
   peerMetrics: PeerMetrics[],
-  benchmarks: IndustryBenchmarks
-): { score: number; detail: string; tooltip: string; percentile: number } {
+  benchmarks: IndustryBenchmarks,
+  earnings?: EarningsSummary,
+  steepness: number = DEFAULT_Z_STEEPNESS,
+  template: QualityTemplate = SECTOR_TEMPLATES.general.quality,
+  peerStats: PeerStatistics = CLASSIC_PEER_STATS,
+  fundamentals: ReportedFundamentals | null = null
+): { score: number; detail: string; tooltip: string; percentile: number; contributions: MetricContribution[] } {
   if (!financials?.metric) {
     return {
       score: 10,
       detail: 'Limited quality data available',
       tooltip: 'Measures financial strength, earnings consistency, and capital efficiency relative to peers',
       percentile: 50,
+      contributions: neutralContributions('quality', 'Quality data', 'No basic financials - neutral score'),
     };
   }
 
@@ -477,141 +868,282 @@ function calculateQualityScore(
   
   const debtToEquity = metric.debtEquityAnnual ?? 999;
   const currentRatio = metric.currentRatioAnnual ?? 1.0;
-  // Interest coverage not available in Finnhub basic financials
-  // Use low D/E as proxy for strong balance sheet
-  const hasStrongBalanceSheet = debtToEquity < 0.5; // Low debt = likely good coverage
+  // Interest coverage from reported statements; without them, low D/E is the proxy
+  const interestCoverage = fundamentals?.interestCoverage ?? null;
+  const hasStrongBalanceSheet = interestCoverage !== null
+    ? interestCoverage >= STRONG_INTEREST_COVERAGE
+    : debtToEquity < 0.5; // Low debt = likely good coverage
+  const strongBalanceSheetNote = interestCoverage !== null
+    ? `Interest coverage ${interestCoverage.toFixed(1)}x (≥ ${STRONG_INTEREST_COVERAGE}x) - full marks`
+    : 'Below 0.5x - full marks';
   
   // Extract peer balance sheet metrics
   const peerDebtEquity = peerMetrics.map(p => p.debtEquity).filter(v => v !== undefined && v < 500) as number[];
   const peerCurrentRatio = peerMetrics.map(p => p.currentRatio).filter(v => v !== undefined) as number[];
   
-  const avgDebtEquity = peerDebtEquity.length > 0 
-    ? peerDebtEquity.reduce((a, b) => a + b, 0) / peerDebtEquity.length 
-    : 1.0;
-  const stdDevDebtEquity = peerDebtEquity.length > 0
-    ? Math.sqrt(peerDebtEquity.reduce((sum, v) => sum + Math.pow(v - avgDebtEquity, 2), 0) / peerDebtEquity.length)
-    : 0.5;
+  const debtEquityStats = peerStats('debtEquity', peerDebtEquity, { fallback: { center: 1.0, spread: 0.5 } });
+  const avgDebtEquity = debtEquityStats.center;
+  const stdDevDebtEquity = debtEquityStats.spread;
   
   // D/E scoring with balance sheet strength safeguard (3 points max)
+  // Inverted z-score - lower debt is better
+  const debtZScore = -calculateZScore(debtToEquity, avgDebtEquity, stdDevDebtEquity || 0.5);
   let debtScore = 0;
-  if (hasStrongBalanceSheet) {
-    // If D/E < 0.5 (very low debt), assume strong financial position
+  let debtMethod: MetricContribution['method'] = 'z-score';
+  let debtNote: string | undefined;
+  if (template.leverage !== 'standard') {
+    // Sector templates: leverage judged against the sector, unreported D/E is neutral
+    if (metric.debtEquityAnnual === undefined) {
+      debtScore = 1.5;
+      debtMethod = 'default';
+      debtNote = 'Not reported - neutral points';
+    } else if (debtToEquity <= template.leverageTolerance) {
+      debtScore = 3;
+      debtMethod = 'threshold';
+      debtNote = `At or below ${template.leverageTolerance}x - full marks for the sector`;
+    } else {
+      debtScore = zScoreToPoints(debtZScore, 3, steepness);
+    }
+  } else if (hasStrongBalanceSheet) {
+    // Interest easily covered (or D/E < 0.5 without coverage data) = strong financial position
     // Cap the penalty for D/E ratios below 2x
     if (debtToEquity < 2.0) {
       debtScore = 3; // Perfect score if D/E < 2x and low overall debt
     } else {
       // Still penalize excessive leverage
-      const debtZScore = -calculateZScore(debtToEquity, avgDebtEquity, stdDevDebtEquity || 0.5);
-      debtScore = Math.max(1.5, zScoreToPoints(debtZScore, 3)); // Floor at 1.5
+      debtScore = Math.max(1.5, zScoreToPoints(debtZScore, 3, steepness)); // Floor at 1.5
     }
   } else {
     // Normal D/E scoring (inverted - lower is better)
-    const debtZScore = -calculateZScore(debtToEquity, avgDebtEquity, stdDevDebtEquity || 0.5);
-    debtScore = zScoreToPoints(debtZScore, 3);
+    debtScore = zScoreToPoints(debtZScore, 3, steepness);
   }
   
   // Current ratio scoring (2 points max) - weighted less for mega-caps
-  const avgCurrentRatio = peerCurrentRatio.length > 0
-    ? peerCurrentRatio.reduce((a, b) => a + b, 0) / peerCurrentRatio.length
-    : 1.5;
-  const stdDevCurrentRatio = peerCurrentRatio.length > 0
-    ? Math.sqrt(peerCurrentRatio.reduce((sum, v) => sum + Math.pow(v - avgCurrentRatio, 2), 0) / peerCurrentRatio.length)
-    : 0.5;
+  const currentRatioStats = peerStats('currentRatio', peerCurrentRatio, { fallback: { center: 1.5, spread: 0.5 } });
+  const avgCurrentRatio = currentRatioStats.center;
+  const stdDevCurrentRatio = currentRatioStats.spread;
   const currentRatioZScore = calculateZScore(currentRatio, avgCurrentRatio, stdDevCurrentRatio || 0.5);
-  const liquidityScore = zScoreToPoints(currentRatioZScore, 2);
+  const liquidityScore = zScoreToPoints(currentRatioZScore, 2, steepness);
   
-  const balanceSheetScore = debtScore + liquidityScore; // 0-5 points
+  let balanceSheetScore: number; // 0-5 points
+  let balanceSheetContributions: MetricContribution[];
+  if (template.leverage === 'equity-cushion') {
+    // Deposit-funded balance sheets: equity/assets (= ROA ÷ ROE) instead of D/E,
+    // ≥ 10% full marks, ≤ 4% none
+    const roeValue = metric.roeRfy ?? 0;
+    const roaValue = metric.roaRfy ?? 0;
+    const equityToAssets = roeValue > 0 && roaValue > 0 ? (roaValue / roeValue) * 100 : null;
+    balanceSheetScore = equityToAssets === null ? 2.5 : 5 * Math.min(1, Math.max(0, (equityToAssets - 4) / 6));
+    balanceSheetContributions = [
+      contribution('equityToAssets', 'Equity/assets (ROA ÷ ROE)', equityToAssets === null ? null : round2(equityToAssets),
+        balanceSheetScore, 5, equityToAssets === null ? 'default' : 'threshold', {},
+        equityToAssets === null ? 'Needs positive ROA and ROE - neutral points' : '≥ 10% full marks, ≤ 4% none'),
+    ];
+  } else {
+    // Without a meaningful current ratio, leverage carries the whole 5 points
+    const debtPoints = template.liquidity ? debtScore : debtScore * 5 / 3;
+    balanceSheetScore = debtPoints + (template.liquidity ? liquidityScore : 0);
+    balanceSheetContributions = [
+      template.leverage === 'standard'
+        ? contribution('debtEquity', 'Debt/Equity', metric.debtEquityAnnual ?? null, debtScore, 3,
+            hasStrongBalanceSheet && debtToEquity < 2.0 ? 'threshold' : 'z-score',
+            { peers: peerDebtEquity, mean: avgDebtEquity, stdDev: stdDevDebtEquity, zScore: -debtZScore, lowerIsBetter: true, priorWeight: debtEquityStats.priorWeight },
+            hasStrongBalanceSheet && debtToEquity < 2.0 ? strongBalanceSheetNote : metric.debtEquityAnnual === undefined ? 'Not reported - scored as very high' : undefined)
+        : contribution('debtEquity', 'Debt/Equity', metric.debtEquityAnnual ?? null, debtPoints, template.liquidity ? 3 : 5, debtMethod,
+            { peers: peerDebtEquity, mean: avgDebtEquity, stdDev: stdDevDebtEquity, zScore: -debtZScore, lowerIsBetter: true, priorWeight: debtEquityStats.priorWeight },
+            debtNote),
+    ];
+    if (template.liquidity) {
+      balanceSheetContributions.push(contribution('currentRatio', 'Current ratio', metric.currentRatioAnnual ?? null, liquidityScore, 2, 'z-score',
+        { peers: peerCurrentRatio, mean: avgCurrentRatio, stdDev: stdDevCurrentRatio, zScore: currentRatioZScore, priorWeight: currentRatioStats.priorWeight }));
+    }
+  }
   
   // ===== 2. EARNINGS STABILITY (0-5 points) =====
-  // Uses EPS volatility and consistency over time
+  // Preferred: reported quarterly history (beat rate, average surprise, EPS growth volatility)
+  // Fallback: margins + growth consistency proxy when history is too short
   
-  // Note: Finnhub doesn't provide 5-year EPS history in basic financials
-  // We'll estimate stability using available growth metrics as proxy
   const epsGrowth = metric.epsGrowthAnnual ?? 0;
   const epsGrowthQuarterly = metric.epsGrowthQuarterlyYoy ?? epsGrowth;
   
   let earningsStabilityScore = 2.5; // Default neutral
+  let earningsStabilityInputs: string;
+  let earningsContributions: MetricContribution[];
   
-  // Bonus for consistent positive EPS (proxy using growth and margins)
-  // Since EPS actual values aren't in basic financials, use profitability as proxy
-  const netMargin = metric.netProfitMarginAnnual ?? 0;
-  const hasPositiveEarnings = netMargin > 0 && epsGrowth > -50; // Not massively negative
+  const hasSurpriseHistory = !!earnings && earnings.quarters >= MIN_EARNINGS_QUARTERS;
+  const hasGrowthHistory = !!earnings && earnings.epsGrowthStdDev !== null && earnings.epsGrowthSamples >= MIN_EPS_GROWTH_SAMPLES;
   
-  if (hasPositiveEarnings) {
-    // Positive earnings = bonus
-    earningsStabilityScore += 1.5;
+  if (earnings && (hasSurpriseHistory || hasGrowthHistory)) {
+    let points = 0;
+    let maxPoints = 0;
+    const used: string[] = [];
+    const parts: MetricContribution[] = [];
     
-    // Additional bonus if growth is consistent (quarterly vs annual similar)
-    const growthConsistency = Math.abs(epsGrowth - epsGrowthQuarterly);
-    if (growthConsistency < 10) {
-      earningsStabilityScore += 1; // Consistent growth = +1 bonus
+    if (hasSurpriseHistory && earnings.beatRate !== null) {
+      // Beat rate (2 points) - linear, beating every quarter = full marks
+      const beatPoints = earnings.beatRate * 2;
+      points += beatPoints;
+      maxPoints += 2;
+      used.push(`beat ${Math.round(earnings.beatRate * earnings.quarters)}/${earnings.quarters}Q`);
+      parts.push(contribution('beatRate', 'EPS beat rate', earnings.beatRate * 100, beatPoints, 2, 'threshold', {}, `Last ${earnings.quarters} quarters`));
+    }
+    if (hasSurpriseHistory && earnings.avgSurprisePercent !== null) {
+      // Average surprise (1.5 points) - +5% average surprise ≈ +1 std dev
+      const surpriseZScore = earnings.avgSurprisePercent / 5;
+      const surprisePoints = zScoreToPoints(surpriseZScore, 1.5, steepness);
+      points += surprisePoints;
+      maxPoints += 1.5;
+      used.push(`avg surprise ${earnings.avgSurprisePercent >= 0 ? '+' : ''}${earnings.avgSurprisePercent.toFixed(1)}%`);
+      parts.push(contribution('avgSurprise', 'Average EPS surprise', earnings.avgSurprisePercent, surprisePoints, 1.5, 'z-score',
+        { mean: 0, stdDev: 5, zScore: surpriseZScore }));
     }
+    if (hasGrowthHistory) {
+      // EPS growth volatility (1.5 points) - σ ≤ 10% full marks, σ ≥ 60% none
+      const stdDev = earnings.epsGrowthStdDev as number;
+      const volatilityPoints = 1.5 * Math.min(1, Math.max(0, (60 - stdDev) / 50));
+      points += volatilityPoints;
+      maxPoints += 1.5;
+      used.push(`EPS growth σ ${stdDev.toFixed(0)}%`);
+      parts.push(contribution('epsGrowthVolatility', 'EPS growth volatility (σ)', stdDev, volatilityPoints, 1.5, 'threshold', {}, 'σ ≤ 10% full marks, ≥ 60% none'));
+    }
+    
+    // Rescale to 5 points over whichever inputs were available
+    earningsStabilityScore = (points / maxPoints) * 5;
+    earningsStabilityInputs = used.join(', ');
+    const scale = 5 / maxPoints;
+    earningsContributions = parts.map(part => ({
+      ...part,
+      points: round2(part.points * scale),
+      maxPoints: round2(part.maxPoints * scale),
+    }));
   } else {
-    // Negative earnings = penalty
-    earningsStabilityScore = Math.max(0, earningsStabilityScore - 1.5);
+    // Bonus for consistent positive EPS (proxy using growth and margins)
+    // Since EPS actual values aren't in basic financials, use profitability as proxy
+    const netMargin = metric.netProfitMarginAnnual ?? 0;
+    const hasPositiveEarnings = netMargin > 0 && epsGrowth > -50; // Not massively negative
+    
+    if (hasPositiveEarnings) {
+      // Positive earnings = bonus
+      earningsStabilityScore += 1.5;
+      
+      // Additional bonus if growth is consistent (quarterly vs annual similar)
+      const growthConsistency = Math.abs(epsGrowth - epsGrowthQuarterly);
+      if (growthConsistency < 10) {
+        earningsStabilityScore += 1; // Consistent growth = +1 bonus
+      }
+    } else {
+      // Negative earnings = penalty
+      earningsStabilityScore = Math.max(0, earningsStabilityScore - 1.5);
+    }
+    earningsStabilityInputs = 'proxy: margins + growth consistency';
+    earningsContributions = [
+      contribution('earningsStabilityProxy', 'Earnings stability (proxy)', metric.netProfitMarginAnnual ?? null,
+        Math.min(5, Math.max(0, earningsStabilityScore)), 5, 'threshold', {},
+        'Net margin + EPS growth consistency; too little reported earnings history'),
+    ];
   }
   
   earningsStabilityScore = Math.min(5, Math.max(0, earningsStabilityScore)); // Clamp 0-5
   
   // ===== 3. CASH FLOW QUALITY (0-5 points) =====
-  // Since FCF data isn't in basic financials, use profitability margins as proxy
-  // Companies with high operating margins typically generate strong cash flow
+  // Preferred: reported free cash flow (FCF margin, cash conversion)
+  // Fallback: profitability margins as proxy - companies with high operating
+  // margins typically generate strong cash flow
   
   const operatingMargin = metric.operatingMarginAnnual ?? 0;
   const netProfitMargin = metric.netProfitMarginAnnual ?? 0;
+  const fcfMargin = fundamentals?.fcfMargin ?? null;
   
   let cashFlowScore = 2.5; // Default neutral
+  let cashFlowContributions: MetricContribution[];
   
-  // Use operating margin as FCF proxy (companies with high operating margins usually have strong FCF)
-  if (operatingMargin > 20 && netProfitMargin > 10) {
-    // Very high margins = excellent cash generation potential
-    cashFlowScore = 5;
-  } else if (operatingMargin > 15 && netProfitMargin > 8) {
-    // Strong margins = strong cash flow
-    cashFlowScore = 4;
-  } else if (operatingMargin > 10 && netProfitMargin > 5) {
-    // Good margins = adequate cash flow
-    cashFlowScore = 3.5;
-  } else if (operatingMargin > 5 && netProfitMargin > 2) {
-    // Modest margins = modest cash flow
-    cashFlowScore = 2;
-  } else if (operatingMargin < 0 || netProfitMargin < 0) {
-    // Negative margins = cash flow concerns
-    cashFlowScore = 0.5;
+  if (fundamentals && fcfMargin !== null) {
+    // FCF margin (3.5 points)
+    const marginPoints = fcfMargin > 15 ? 3.5 : fcfMargin > 10 ? 3 : fcfMargin > 5 ? 2.5 : fcfMargin > 0 ? 1.5 : 0;
+    let points = marginPoints;
+    let maxPoints = 3.5;
+    const parts = [
+      contribution('fcfMargin', 'Free cash flow margin', fcfMargin, marginPoints, 3.5, 'threshold', {},
+        `>15% full marks; fiscal ${fundamentals.year} filing`),
+    ];
+    if (fundamentals.cashConversion !== null) {
+      // Cash conversion (1.5 points) - FCF at least net income = full marks, under half = none
+      const conversion = fundamentals.cashConversion;
+      const conversionPoints = conversion >= 1 ? 1.5 : conversion >= 0.8 ? 1 : conversion >= 0.5 ? 0.5 : 0;
+      points += conversionPoints;
+      maxPoints += 1.5;
+      parts.push(contribution('cashConversion', 'Cash conversion (FCF ÷ net income)', conversion, conversionPoints, 1.5, 'threshold', {},
+        '≥ 1.0x full marks, < 0.5x none'));
+    }
+    
+    // Rescale to 5 points over whichever inputs were available
+    cashFlowScore = (points / maxPoints) * 5;
+    cashFlowContributions = scaleContributions(parts, 5 / maxPoints);
+  } else {
+    // Use operating margin as FCF proxy (companies with high operating margins usually have strong FCF)
+    if (operatingMargin > 20 && netProfitMargin > 10) {
+      // Very high margins = excellent cash generation potential
+      cashFlowScore = 5;
+    } else if (operatingMargin > 15 && netProfitMargin > 8) {
+      // Strong margins = strong cash flow
+      cashFlowScore = 4;
+    } else if (operatingMargin > 10 && netProfitMargin > 5) {
+      // Good margins = adequate cash flow
+      cashFlowScore = 3.5;
+    } else if (operatingMargin > 5 && netProfitMargin > 2) {
+      // Modest margins = modest cash flow
+      cashFlowScore = 2;
+    } else if (operatingMargin < 0 || netProfitMargin < 0) {
+      // Negative margins = cash flow concerns
+      cashFlowScore = 0.5;
+    }
+    cashFlowContributions = [
+      contribution('cashFlowProxy', 'Cash flow (margin proxy)', metric.operatingMarginAnnual ?? null, cashFlowScore, 5, 'threshold', {},
+        'Operating and net margin tiers'),
+    ];
   }
   
+  // Sector payout ceiling (utilities) - paying out nearly everything leaves little to reinvest
+  const payoutRatio = metric.payoutRatioAnnual;
+  const payoutPenalty = template.payoutCeiling !== undefined && payoutRatio !== undefined && payoutRatio > template.payoutCeiling
+    ? Math.min(1.5, cashFlowScore)
+    : 0;
+  cashFlowScore -= payoutPenalty;
+  
   // ===== 4. CAPITAL EFFICIENCY (0-5 points) =====
   // Uses ROIC (or ROE as proxy) and ROA
   
   const roa = metric.roaRfy ?? 0;
   const roe = metric.roeRfy ?? 0;
-  // ROIC not in basic financials, use ROE as proxy (highly correlated)
-  const roic = roe;
+  // Reported ROIC when available, otherwise ROE as proxy (highly correlated);
+  // sector templates judge ROE itself
+  const reportedRoic = template.leverage === 'standard' ? fundamentals?.roic ?? null : null;
+  const roic = reportedRoic ?? roe;
+  // ROE bar for the sector (generic: 15/10/5%)
+  const [excellentRoe, strongRoe, adequateRoe] = template.roeTiers;
   
   let capitalEfficiencyScore = 0;
   
   // ROIC scoring (3 points)
-  if (roic > 15) {
+  if (roic > excellentRoe) {
     capitalEfficiencyScore += 3; // Excellent
-  } else if (roic > 10) {
+  } else if (roic > strongRoe) {
     capitalEfficiencyScore += 2.5; // Strong
-  } else if (roic > 5) {
+  } else if (roic > adequateRoe) {
     capitalEfficiencyScore += 1.5; // Adequate
   } else if (roic > 0) {
     capitalEfficiencyScore += 0.5; // Weak
   }
   // ROIC < 0 = 0 points
+  const roicScore = capitalEfficiencyScore;
   
   // ROA scoring (2 points) - relative to industry
   const peerRoa = peerMetrics.map(p => p.roa).filter(v => v !== undefined) as number[];
-  const avgRoa = peerRoa.length > 0
-    ? peerRoa.reduce((a, b) => a + b, 0) / peerRoa.length
-    : benchmarks.avgRoe * 0.5;
-  const stdDevRoa = peerRoa.length > 0
-    ? Math.sqrt(peerRoa.reduce((sum, v) => sum + Math.pow(v - avgRoa, 2), 0) / peerRoa.length)
-    : 2;
+  const roaStats = peerStats('roa', peerRoa, { fallback: { center: benchmarks.avgRoe * 0.5, spread: 2 } });
+  const avgRoa = roaStats.center;
+  const stdDevRoa = roaStats.spread;
   const roaZScore = calculateZScore(roa, avgRoa, stdDevRoa);
-  const roaScore = zScoreToPoints(roaZScore, 2);
+  const roaScore = zScoreToPoints(roaZScore, 2, steepness);
   
   capitalEfficiencyScore += roaScore;
   capitalEfficiencyScore = Math.min(5, capitalEfficiencyScore); // Cap at 5
@@ -654,11 +1186,35 @@ function calculateQualityScore(
     : finalScore >= 7 ? 'below average quality'
     : 'quality concerns';
   
-  const detail = `Balance sheet: ${balanceSheetScore.toFixed(1)}/5, Earnings stability: ${earningsStabilityScore.toFixed(1)}/5, Cash flow: ${cashFlowScore.toFixed(1)}/5, Capital efficiency: ${capitalEfficiencyScore.toFixed(1)}/5`;
+  const detail = `Balance sheet: ${balanceSheetScore.toFixed(1)}/5, Earnings stability: ${earningsStabilityScore.toFixed(1)}/5 (${earningsStabilityInputs}), Cash flow: ${cashFlowScore.toFixed(1)}/5${fcfMargin !== null ? ` (FCF margin ${fcfMargin.toFixed(1)}%)` : ''}, Capital efficiency: ${capitalEfficiencyScore.toFixed(1)}/5`;
   
   const tooltip = `${percentile}th percentile. ${qualityLevel.charAt(0).toUpperCase() + qualityLevel.slice(1)} - Measures financial strength, earnings consistency, and capital efficiency relative to ${benchmarks.peerCount} peers`;
 
-  return { score: finalScore, detail, tooltip, percentile };
+  const contributions: MetricContribution[] = [
+    ...balanceSheetContributions,
+    ...earningsContributions,
+    ...cashFlowContributions,
+  ];
+  if (payoutPenalty > 0) {
+    contributions.push(contribution('payoutRatio', `Payout above ${template.payoutCeiling}%`, metric.payoutRatioAnnual ?? null, -payoutPenalty, 0, 'adjustment'));
+  }
+  contributions.push(
+    contribution('roic', reportedRoic !== null ? 'ROIC' : template.leverage === 'standard' ? 'ROIC (ROE proxy)' : 'ROE',
+      reportedRoic ?? metric.roeRfy ?? null, roicScore, 3, 'threshold', {}, `>${excellentRoe}% full marks`),
+    contribution('roa', 'ROA', metric.roaRfy ?? null, roaScore, 2, 'z-score',
+      { peers: peerRoa, mean: avgRoa, stdDev: stdDevRoa, zScore: roaZScore, priorWeight: roaStats.priorWeight }),
+  );
+  if (roicScore + roaScore > 5) {
+    contributions.push(contribution('capitalEfficiencyCap', 'Capital efficiency cap', null, 5 - (roicScore + roaScore), 0, 'adjustment'));
+  }
+
+  return {
+    score: finalScore,
+    detail,
+    tooltip,
+    percentile,
+    contributions: reconcileContributions(contributions, finalScore, finalScore > totalScore ? 'Mega-cap floor' : 'Rounding'),
+  };
 }
 
 /**
@@ -670,11 +1226,12 @@ function calculateAnalystScore(
   quote: FinnhubQuote,
   recommendations: FinnhubRecommendationTrend[],
   priceTarget: FinnhubPriceTarget | null
-): { score: number; detail: string; tooltip: string; percentile: number } {
+): { score: number; detail: string; tooltip: string; percentile: number; contributions: MetricContribution[] } {
   let score = 10; // Default neutral score
   let detail = 'Limited analyst coverage';
   let tooltip = 'Insufficient analyst data';
   let percentile = 50;
+  let contributions = neutralContributions('analyst', 'Analyst coverage', 'No analyst ratings - neutral score');
 
   // Analyst recommendations (0-15 points)
   if (recommendations.length > 0) {
@@ -704,8 +1261,9 @@ function calculateAnalystScore(
 
       // Price target upside (0-5 points) - MORE AGGRESSIVE
       let targetPoints = 1; // Default neutral (reduced from 2.5)
+      let upside: number | null = null;
       if (priceTarget?.targetMean) {
-        const upside = ((priceTarget.targetMean - quote.c) / quote.c) * 100;
+        upside = ((priceTarget.targetMean - quote.c) / quote.c) * 100;
         
         if (upside > 30) targetPoints = 5; // Huge upside
         else if (upside > 20) targetPoints = 4.5; // Large upside
@@ -722,6 +1280,11 @@ function calculateAnalystScore(
 
       score = Math.round(recPoints + targetPoints);
       percentile = Math.round(bullishPct);
+      contributions = reconcileContributions([
+        contribution('bullishPercent', 'Buy/Strong Buy share', bullishPct, recPoints, 15, 'threshold', {}, `${total} analysts`),
+        contribution('priceTargetUpside', 'Upside to mean target', upside, targetPoints, 5, upside === null ? 'default' : 'threshold', {},
+          upside === null ? 'No price target - default points' : undefined),
+      ], score);
       
       tooltip = bearishPct > 30
         ? `${bearishPct.toFixed(0)}% bearish - analyst concerns present`
@@ -731,11 +1294,139 @@ function calculateAnalystScore(
     }
   }
 
-  return { score, detail, tooltip, percentile };
+  return { score, detail, tooltip, percentile, contributions };
+}
+
+/**
+ * MOMENTUM SCORE (0-20 points) - OPTIONAL SIXTH FACTOR
+ * 
+ * Price trend built from real daily closes:
+ * 1. Trend vs industry (12 pts) - 3M, 6M and 12M returns z-scored against peers (4 pts each)
+ * 2. Relative strength vs market (8 pts) - 6M and 12M excess return over SPY (4 pts each)
+ * 
+ * 1M return is reported but not scored (too noisy / prone to short-term reversal).
+ * Without SPY data the industry component is scaled up to the full 20 points.
+ */
+function calculateMomentumScore(
+  momentum: MomentumInputs,
+  peerMetrics: PeerMetrics[],
+  benchmarks: IndustryBenchmarks,
+  steepness: number = DEFAULT_Z_STEEPNESS,
+  peerStats: PeerStatistics = CLASSIC_PEER_STATS
+): { score: number; detail: string; tooltip: string; percentile: number; contributions: MetricContribution[] } {
+  const { company, market } = momentum;
+
+  const periods = [
+    { key: 'momentum3M', label: '3M', avg: benchmarks.avgMomentum3M },
+    { key: 'momentum6M', label: '6M', avg: benchmarks.avgMomentum6M },
+    { key: 'momentum12M', label: '12M', avg: benchmarks.avgMomentum12M },
+  ] as const;
+
+  // ===== 1. TREND VS INDUSTRY =====
+  let industryPoints = 0;
+  let industryMax = 0;
+  const parts: MetricContribution[] = [];
+  for (const period of periods) {
+    const value = company[period.key];
+    const peerValues = peerMetrics.map(p => p[period.key]).filter(v => v !== undefined) as number[];
+    if (value === undefined || peerValues.length === 0) continue;
+
+    const stats = peerStats(period.key, peerValues, { benchmark: period.avg });
+    const stdDev = stats.spread;
+    const zScore = calculateZScore(value, stats.center, stdDev);
+    const points = zScoreToPoints(zScore, 4, steepness);
+    industryPoints += points;
+    industryMax += 4;
+    parts.push(contribution(period.key, `${period.label} return vs industry`, value, points, 4, 'z-score',
+      { peers: peerValues, mean: stats.center, stdDev, zScore, priorWeight: stats.priorWeight }));
+  }
+
+  // ===== 2. RELATIVE STRENGTH VS MARKET =====
+  // Excess return over SPY; ~15% outperformance treated as one standard deviation
+  let marketPoints = 0;
+  let marketMax = 0;
+  const excessReturns: string[] = [];
+  for (const key of ['momentum6M', 'momentum12M'] as const) {
+    const value = company[key];
+    const marketValue = market?.[key];
+    if (value === undefined || marketValue === undefined) continue;
+
+    const excess = value - marketValue;
+    const points = zScoreToPoints(excess / 15, 4, steepness);
+    marketPoints += points;
+    marketMax += 4;
+    parts.push(contribution(`${key}VsMarket`, `${key === 'momentum6M' ? '6M' : '12M'} excess return vs SPY`, excess, points, 4, 'z-score',
+      { mean: 0, stdDev: 15, zScore: excess / 15 }));
+    excessReturns.push(`${excess >= 0 ? '+' : ''}${excess.toFixed(1)}% vs SPY (${key === 'momentum6M' ? '6M' : '12M'})`);
+  }
+
+  const availableMax = industryMax + marketMax;
+  if (availableMax === 0) {
+    return {
+      score: 10,
+      detail: 'Limited price history available',
+      tooltip: 'Insufficient price history for momentum analysis',
+      percentile: 50,
+      contributions: neutralContributions('momentum', 'Price history', 'No peer or market returns to compare - neutral score'),
+    };
+  }
+
+  // Re-scale whatever components were available to 0-20
+  const totalScore = Math.round(((industryPoints + marketPoints) / availableMax) * 20);
+
+  // Calculate percentile of the average available return vs peers
+  const composite = (returns: Partial<Record<'momentum3M' | 'momentum6M' | 'momentum12M', number>>) => {
+    const values = periods.map(p => returns[p.key]).filter(v => v !== undefined) as number[];
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+  };
+  const companyComposite = composite(company) ?? 0;
+  const peerComposite = peerMetrics.map(p => composite(p)).filter(v => v !== undefined) as number[];
+  const percentile = Math.round(calculatePercentile(companyComposite, peerComposite));
+
+  const returnsText = [
+    company.momentum1M !== undefined ? `1M ${company.momentum1M.toFixed(1)}%` : null,
+    ...periods.map(p => company[p.key] !== undefined
+      ? `${p.label} ${company[p.key]!.toFixed(1)}% (avg ${p.avg.toFixed(1)}%)`
+      : null),
+  ].filter(Boolean).join(', ');
+
+  const detail = `${returnsText}${excessReturns.length > 0 ? `; ${excessReturns.join(', ')}` : ''}`;
+  const tooltip = `${percentile}th percentile. ${
+    totalScore >= 15 ? 'Strong uptrend' : totalScore >= 10 ? 'Neutral trend' : 'Lagging price trend'
+  } vs ${benchmarks.industry} peers${marketMax > 0 ? ' and the S&P 500' : ''}`;
+
+  // Components are re-scaled with the score when some were unavailable
+  const scale = 20 / availableMax;
+  const contributions = reconcileContributions(parts.map(part => ({
+    ...part,
+    points: round2(part.points * scale),
+    maxPoints: round2(part.maxPoints * scale),
+  })), totalScore);
+
+  return { score: totalScore, detail, tooltip, percentile, contributions };
 }
 
 /**
  * Main function: Calculate comprehensive, context-aware stock score
+ * 
+ * When `momentum` contains any trailing returns, price momentum is scored as a
+ * sixth factor and the factor total is re-normalized so the score stays 0-100.
+ * `earnings` (reported quarterly history) feeds the quality factor's earnings
+ * stability component; without it a margin-based proxy is used. From v8 on it
+ * also feeds a beat rate/surprise component of growth.
+ * `profile` sets factor weights, bonus/penalty rules and the z-curve
+ * steepness (default: balanced, i.e. equal weights).
+ * `model` reproduces a registered scoring model version (default: current,
+ * see lib/scoringModels); inputs an older version didn't use are ignored.
+ * From v4 on, valuation and quality use the sector template for `industry`
+ * (lib/sectorTemplates), reported as peerContext.sectorTemplate.
+ * From v5 on, peer benchmarks and spreads are winsorized medians/MADs shrunk
+ * toward sector priors (lib/peerStatistics), reported as breakdown.statistics.
+ * From v6 on, growth and profitability blend in a self-relative component from
+ * the company's own annual series (lib/trends), reported as breakdown.trends.
+ * From v7 on, quality uses FCF, ROIC and interest coverage derived from the
+ * latest annual filing (`fundamentals`, lib/financialStatements), reported as
+ * breakdown.fundamentals; without them the proxies are used.
  */
 export function calculateIntelligentStockScore(
   symbol: string,
@@ -744,57 +1435,106 @@ export function calculateIntelligentStockScore(
   recommendations: FinnhubRecommendationTrend[],
   priceTarget: FinnhubPriceTarget | null,
   peerMetrics: PeerMetrics[],
-  industry: string
+  industry: string,
+  momentum?: MomentumInputs,
+  earnings?: EarningsSummary,
+  profile: ScoringProfile = SCORING_PROFILES[DEFAULT_SCORING_PROFILE],
+  model: ScoringModel = SCORING_MODELS[CURRENT_SCORING_MODEL],
+  fundamentals?: ReportedFundamentals | null
 ): { score: number; breakdown: ScoreBreakdown; benchmarks: IndustryBenchmarks } {
   
   // Calculate industry benchmarks
-  const benchmarks = calculateIndustryBenchmarks(peerMetrics, industry);
+  const benchmarks = calculateIndustryBenchmarks(peerMetrics, industry, model);
+  const steepness = profile.zCurveSteepness;
+  const template = model.sectorTemplates ? sectorTemplateFor(industry) : SECTOR_TEMPLATES.general;
+  const peerStats = peerStatistics(model.statistics, template.id);
+  const trends = model.selfRelativeTrends ? computeCompanyTrends(parseFinancialSeries(financials)) : null;
+  const reported = model.reportedFundamentals ? fundamentals ?? null : null;
 
   // Calculate each component score
-  const growth = calculateGrowthScore(financials, peerMetrics, benchmarks);
-  const profitability = calculateProfitabilityScore(financials, peerMetrics, benchmarks);
-  const valuation = calculateValuationScore(financials, peerMetrics, benchmarks);
-  const quality = calculateQualityScore(financials, peerMetrics, benchmarks);
+  const growth = calculateGrowthScore(financials, peerMetrics, benchmarks, steepness, peerStats, trends,
+    model.earningsSurpriseGrowth ? earnings : undefined);
+  const profitability = calculateProfitabilityScore(financials, peerMetrics, benchmarks, steepness, peerStats, trends);
+  const valuation = calculateValuationScore(financials, peerMetrics, benchmarks, template.valuation, peerStats);
+  const quality = calculateQualityScore(
+    financials,
+    peerMetrics,
+    benchmarks,
+    model.reportedEarningsStability ? earnings : undefined,
+    steepness,
+    template.quality,
+    peerStats,
+    reported
+  );
   const analyst = calculateAnalystScore(quote, recommendations, priceTarget);
 
-  // Calculate base total score
-  let totalScore = growth.score + profitability.score + valuation.score + quality.score + analyst.score;
+  // Optional sixth factor - only when we have real price history for the company
+  const hasMomentum = model.momentumFactor && !!momentum && [
+    momentum.company.momentum3M,
+    momentum.company.momentum6M,
+    momentum.company.momentum12M,
+  ].some(v => v !== undefined);
+  const momentumResult = hasMomentum ? calculateMomentumScore(momentum!, peerMetrics, benchmarks, steepness, peerStats) : null;
 
-  // COMPOUND EXCELLENCE MULTIPLIER
-  // Companies that excel in multiple areas get a bonus boost
-  // This pushes truly exceptional companies from 70-75 range into 80-95 range
-  const scores = [growth.score, profitability.score, valuation.score, quality.score, analyst.score];
-  const strongScores = scores.filter(s => s >= 15).length; // Count metrics scoring 15+ (75th percentile)
-  const excellentScores = scores.filter(s => s >= 17).length; // Count metrics scoring 17+ (85th percentile)
-  
-  let multiplierBonus = 0;
-  
-  if (excellentScores >= 4) {
-    // 4-5 excellent scores = elite company, add +15 bonus
-    multiplierBonus = 15;
-  } else if (excellentScores >= 3) {
-    // 3 excellent scores = very strong company, add +12 bonus
-    multiplierBonus = 12;
-  } else if (strongScores >= 4) {
-    // 4-5 strong scores = strong company, add +8 bonus
-    multiplierBonus = 8;
-  } else if (strongScores >= 3) {
-    // 3 strong scores = above average company, add +5 bonus
-    multiplierBonus = 5;
+  // Calculate base total score as the profile-weighted factor average (0-100;
+  // re-normalized when momentum adds a sixth factor)
+  const factorScores: Array<[ScoreFactor, number]> = [
+    ['growth', growth.score],
+    ['profitability', profitability.score],
+    ['valuation', valuation.score],
+    ['quality', quality.score],
+    ['analyst', analyst.score],
+  ];
+  if (momentumResult) {
+    factorScores.push(['momentum', momentumResult.score]);
   }
-  
-  // Also penalize companies with multiple weak areas
-  const weakScores = scores.filter(s => s <= 5).length; // Count metrics scoring ≤5 (25th percentile)
-  
-  if (weakScores >= 3) {
-    // 3+ weak areas = serious concerns, subtract -10
-    multiplierBonus -= 10;
-  } else if (weakScores >= 2) {
-    // 2 weak areas = concerning, subtract -5
-    multiplierBonus -= 5;
+  const scores = factorScores.map(([, score]) => score);
+  const weightedPoints = factorScores.reduce((sum, [factor, score]) => sum + profile.weights[factor] * score, 0);
+  const weightedMax = factorScores.reduce((sum, [factor]) => sum + profile.weights[factor] * 20, 0);
+  const baseScore = (weightedPoints / weightedMax) * 100;
+
+  // COMPOUND EXCELLENCE MULTIPLIER
+  // Companies that excel in multiple areas get a bonus boost; with the balanced
+  // profile this pushes truly exceptional companies from 70-75 into 80-95
+  const { compound } = profile;
+  const strongScores = scores.filter(s => s >= compound.strongAt).length;
+  const excellentScores = scores.filter(s => s >= compound.excellentAt).length;
+  const weakScores = scores.filter(s => s <= compound.weakAt).length;
+
+  // First matching bonus, then first matching penalty for multiple weak areas
+  const bonus = compound.bonuses.find(rule =>
+    (rule.excellent === undefined || excellentScores >= rule.excellent) &&
+    (rule.strong === undefined || strongScores >= rule.strong)
+  );
+  const penalty = compound.penalties.find(rule => weakScores >= rule.weak);
+  let multiplierBonus = (bonus?.points ?? 0) + (penalty?.points ?? 0);
+
+  // Style-specific metric rules (e.g. dividend yield for the income profile)
+  const appliedRules: string[] = [];
+  for (const rule of profile.metricRules) {
+    const value = financials?.metric?.[rule.metric] ?? rule.missingAs;
+    if (value === undefined) continue;
+    if ((rule.min === undefined || value >= rule.min) && (rule.max === undefined || value < rule.max)) {
+      multiplierBonus += rule.points;
+      appliedRules.push(`${rule.points > 0 ? '+' : ''}${rule.points} ${rule.label}`);
+    }
   }
-  
-  totalScore = Math.max(0, Math.min(100, totalScore + multiplierBonus));
+
+  const totalScore = Math.max(0, Math.min(100, baseScore + multiplierBonus));
+  const compoundPoints = (bonus?.points ?? 0) + (penalty?.points ?? 0);
+  const adjustments = [
+    compoundPoints !== 0 ? `${compoundPoints > 0 ? '+' : ''}${compoundPoints} compound ${compoundPoints > 0 ? 'excellence' : 'concern'} adjustment` : null,
+    ...appliedRules,
+  ].filter(Boolean);
+
+  const contributions: ScoreBreakdown['contributions'] = {
+    growth: growth.contributions,
+    profitability: profitability.contributions,
+    valuation: valuation.contributions,
+    quality: quality.contributions,
+    analyst: analyst.contributions,
+    momentum: momentumResult?.contributions,
+  };
 
   const breakdown: ScoreBreakdown = {
     growthScore: growth.score,
@@ -802,30 +1542,45 @@ export function calculateIntelligentStockScore(
     valuationScore: valuation.score,
     qualityScore: quality.score,
     analystScore: analyst.score,
-    description: `Context-aware analysis vs ${benchmarks.peerCount} ${industry} peers using z-score normalization${multiplierBonus !== 0 ? ` (${multiplierBonus > 0 ? '+' : ''}${multiplierBonus} compound ${multiplierBonus > 0 ? 'excellence' : 'concern'} adjustment)` : ''}`,
+    momentumScore: momentumResult?.score,
+    baseScore: Math.round(baseScore * 10) / 10,
+    compoundAdjustment: multiplierBonus,
+    profile: profile.id,
+    weights: profile.weights,
+    modelVersion: model.version,
+    statistics: model.statistics,
+    ...(trends ? { trends } : {}),
+    ...(reported ? { fundamentals: reported } : {}),
+    description: `Context-aware ${scores.length}-factor ${profile.id === DEFAULT_SCORING_PROFILE ? '' : `${profile.name.toLowerCase()}-weighted `}analysis vs ${benchmarks.peerCount} ${industry} peers${template.id === 'general' ? '' : ` (${template.name.toLowerCase()} template)`} using ${describeStatistics(model.statistics)}${adjustments.length > 0 ? ` (${adjustments.join(', ')})` : ''}`,
     details: {
       growth: growth.detail,
       profitability: profitability.detail,
       valuation: valuation.detail,
       quality: quality.detail,
       analyst: analyst.detail,
+      momentum: momentumResult?.detail,
     },
+    contributions,
+    confidence: assessConfidence(contributions, peerMetrics, benchmarks, profile.weights),
     tooltips: {
       growth: growth.tooltip,
       profitability: profitability.tooltip,
       valuation: valuation.tooltip,
       quality: quality.tooltip,
       analyst: analyst.tooltip,
+      momentum: momentumResult?.tooltip,
     },
     peerContext: {
       industry: benchmarks.industry,
       peerCount: benchmarks.peerCount,
+      sectorTemplate: template.id,
       percentileRanks: {
         growth: growth.percentile,
         profitability: profitability.percentile,
         valuation: valuation.percentile,
         quality: quality.percentile,
         analyst: analyst.percentile,
+        momentum: momentumResult?.percentile,
       },
     },
   };
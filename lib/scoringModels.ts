@@ -0,0 +1,153 @@
+/**
+ * Scoring Model Versions
+ *
+ * Every change that moves scores for the same inputs gets a new version here
+ * instead of silently retuning lib/scoring.ts. Older versions stay registered
+ * as switches on the scoring engine, so any version can still be reproduced
+ * (`/api/stock?model=v2`) and compared against a candidate on a fixture
+ * universe before it ships (`/api/model-compare`, lib/modelComparison).
+ *
+ * Adding a version: put the new behaviour behind a flag (or setting) on ScoringModel,
+ * register the version with the flag on (older versions off), add it to
+ * ScoringModelVersion and point CURRENT_SCORING_MODEL at it.
+ * Pure data - safe to import from client components.
+ */
+
+import type { ScoreSnapshot, ScoringModelVersion, StatisticsMethod } from '@/types/stock';
+import { CLASSIC_STATISTICS, ROBUST_STATISTICS } from '@/lib/peerStatistics';
+
+export interface ScoringModel {
+  version: ScoringModelVersion;
+  description: string; // What changed from the previous version
+  momentumFactor: boolean; // Score price momentum as an optional sixth factor
+  reportedEarningsStability: boolean; // Earnings stability from reported quarters (beat rate, surprise, EPS σ) instead of the margin proxy
+  sectorTemplates: boolean; // Bank/insurer/REIT/utility valuation and quality templates (lib/sectorTemplates)
+  statistics: StatisticsMethod; // Peer averages and z-score spreads (lib/peerStatistics)
+  selfRelativeTrends: boolean; // Blend own multi-year trends into growth and profitability (lib/trends)
+  reportedFundamentals: boolean; // Quality from reported FCF, ROIC and interest coverage instead of proxies (lib/financialStatements)
+  earningsSurpriseGrowth: boolean; // Growth scores EPS beat rate and average surprise next to revenue and EPS growth
+}
+
+export const SCORING_MODELS: Record<ScoringModelVersion, ScoringModel> = {
+  v1: {
+    version: 'v1',
+    description: 'Five peer-relative factors; earnings stability estimated from margins and growth consistency',
+    momentumFactor: false,
+    reportedEarningsStability: false,
+    sectorTemplates: false,
+    statistics: CLASSIC_STATISTICS,
+    selfRelativeTrends: false,
+    reportedFundamentals: false,
+    earningsSurpriseGrowth: false,
+  },
+  v2: {
+    version: 'v2',
+    description: 'Adds 3/6/12 month price momentum and relative strength vs SPY as a sixth factor',
+    momentumFactor: true,
+    reportedEarningsStability: false,
+    sectorTemplates: false,
+    statistics: CLASSIC_STATISTICS,
+    selfRelativeTrends: false,
+    reportedFundamentals: false,
+    earningsSurpriseGrowth: false,
+  },
+  v3: {
+    version: 'v3',
+    description: 'Earnings stability from reported EPS beat rate, average surprise and EPS growth volatility',
+    momentumFactor: true,
+    reportedEarningsStability: true,
+    sectorTemplates: false,
+    statistics: CLASSIC_STATISTICS,
+    selfRelativeTrends: false,
+    reportedFundamentals: false,
+    earningsSurpriseGrowth: false,
+  },
+  v4: {
+    version: 'v4',
+    description: 'Sector templates: banks and insurers valued on P/B, REITs on cash flow yield, utilities with leverage and payout tolerance',
+    momentumFactor: true,
+    reportedEarningsStability: true,
+    sectorTemplates: true,
+    statistics: CLASSIC_STATISTICS,
+    selfRelativeTrends: false,
+    reportedFundamentals: false,
+    earningsSurpriseGrowth: false,
+  },
+  v5: {
+    version: 'v5',
+    description: 'Robust peer statistics: medians and MAD instead of means and σ, 10% winsorized, shrunk toward sector/market priors for small peer sets',
+    momentumFactor: true,
+    reportedEarningsStability: true,
+    sectorTemplates: true,
+    statistics: ROBUST_STATISTICS,
+    selfRelativeTrends: false,
+    reportedFundamentals: false,
+    earningsSurpriseGrowth: false,
+  },
+  v6: {
+    version: 'v6',
+    description: 'Growth and profitability blend in 30% self-relative scoring vs own history: growth vs multi-year CAGR, margin level, trajectory and stability',
+    momentumFactor: true,
+    reportedEarningsStability: true,
+    sectorTemplates: true,
+    statistics: ROBUST_STATISTICS,
+    selfRelativeTrends: true,
+    reportedFundamentals: false,
+    earningsSurpriseGrowth: false,
+  },
+  v7: {
+    version: 'v7',
+    description: 'Quality scored on free cash flow margin and conversion, ROIC and interest coverage from reported statements; margin, ROE and D/E proxies only as fallbacks',
+    momentumFactor: true,
+    reportedEarningsStability: true,
+    sectorTemplates: true,
+    statistics: ROBUST_STATISTICS,
+    selfRelativeTrends: true,
+    reportedFundamentals: true,
+    earningsSurpriseGrowth: false,
+  },
+  v8: {
+    version: 'v8',
+    description: 'Growth gives 4 of its 20 points to beating consensus (EPS beat rate and average surprise); revenue and EPS growth 8 each',
+    momentumFactor: true,
+    reportedEarningsStability: true,
+    sectorTemplates: true,
+    statistics: ROBUST_STATISTICS,
+    selfRelativeTrends: true,
+    reportedFundamentals: true,
+    earningsSurpriseGrowth: true,
+  },
+};
+
+export const CURRENT_SCORING_MODEL: ScoringModelVersion = 'v8';
+
+// Snapshots recorded before versioning carry no version; they were all scored with v3
+const UNVERSIONED_SNAPSHOT_MODEL: ScoringModelVersion = 'v3';
+
+/**
+ * Look up a model by version (case-insensitive, "3" = "v3"); undefined for
+ * unknown versions
+ */
+export function getScoringModel(version: string | null | undefined): ScoringModel | undefined {
+  const raw = (version || CURRENT_SCORING_MODEL).toLowerCase();
+  const key = raw.startsWith('v') ? raw : `v${raw}`;
+  return Object.prototype.hasOwnProperty.call(SCORING_MODELS, key)
+    ? SCORING_MODELS[key as ScoringModelVersion]
+    : undefined;
+}
+
+/**
+ * Model version a recorded snapshot was scored with
+ */
+export function snapshotModelVersion(snapshot: ScoreSnapshot): ScoringModelVersion {
+  return snapshot.scoreModelVersion ?? UNVERSIONED_SNAPSHOT_MODEL;
+}
+
+/**
+ * The version registered just before `version` (undefined for the first)
+ */
+export function previousScoringModel(version: ScoringModelVersion): ScoringModelVersion | undefined {
+  const versions = Object.keys(SCORING_MODELS) as ScoringModelVersion[];
+  const index = versions.indexOf(version);
+  return index > 0 ? versions[index - 1] : undefined;
+}
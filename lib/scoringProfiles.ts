@@ -0,0 +1,151 @@
+/**
+ * Scoring Profiles
+ *
+ * Named investing styles for the FactorFive score. A profile sets:
+ * - factor weights: how much each 0-20 factor counts towards the 0-100 total
+ * - compound rules: bonus for several strong/excellent factors, penalty for
+ *   several weak ones (first matching rule of each table applies)
+ * - metric rules: style-specific adjustments on raw metrics (e.g. dividend yield)
+ * - z-curve steepness: how sharply z-scores are turned into points
+ *
+ * "balanced" is the default and reproduces the original equal-weight model.
+ * Pure data - safe to import from client components.
+ */
+
+import type { FinnhubBasicFinancials, ScoreFactor, ScoringProfileId } from '@/types/stock';
+
+export interface CompoundRules {
+  strongAt: number; // Factor score counted as strong (0-20)
+  excellentAt: number;
+  weakAt: number; // Factor score counted as weak (at or below)
+  bonuses: Array<{ excellent?: number; strong?: number; points: number }>;
+  penalties: Array<{ weak: number; points: number }>;
+}
+
+export interface MetricRule {
+  metric: keyof FinnhubBasicFinancials['metric'];
+  min?: number; // Inclusive
+  max?: number; // Exclusive
+  missingAs?: number; // Value to assume when the metric isn't reported (rule skipped otherwise)
+  points: number;
+  label: string;
+}
+
+export interface ScoringProfile {
+  id: ScoringProfileId;
+  name: string;
+  description: string;
+  weights: Record<ScoreFactor, number>;
+  zCurveSteepness: number;
+  compound: CompoundRules;
+  metricRules: MetricRule[];
+}
+
+// Original bonus/penalty table: pushes companies that excel across the
+// board from the 70-75 range into 80-95 and penalizes multiple weak areas
+const STANDARD_COMPOUND: CompoundRules = {
+  strongAt: 15, // ~75th percentile
+  excellentAt: 17, // ~85th percentile
+  weakAt: 5, // ~25th percentile
+  bonuses: [
+    { excellent: 4, points: 15 }, // Elite company
+    { excellent: 3, points: 12 }, // Very strong company
+    { strong: 4, points: 8 }, // Strong company
+    { strong: 3, points: 5 }, // Above average company
+  ],
+  penalties: [
+    { weak: 3, points: -10 }, // Serious concerns
+    { weak: 2, points: -5 }, // Concerning
+  ],
+};
+
+export const SCORING_PROFILES: Record<ScoringProfileId, ScoringProfile> = {
+  balanced: {
+    id: 'balanced',
+    name: 'Balanced',
+    description: 'Equal weight on every factor (the standard FactorFive score)',
+    weights: { growth: 1, profitability: 1, valuation: 1, quality: 1, analyst: 1, momentum: 1 },
+    zCurveSteepness: 2.5,
+    compound: STANDARD_COMPOUND,
+    metricRules: [],
+  },
+  value: {
+    id: 'value',
+    name: 'Value',
+    description: 'Cheap versus peers and financially sound; growth and trend matter less',
+    weights: { growth: 0.5, profitability: 1, valuation: 2, quality: 1.5, analyst: 0.75, momentum: 0.5 },
+    zCurveSteepness: 2,
+    compound: {
+      ...STANDARD_COMPOUND,
+      bonuses: [
+        { excellent: 3, points: 8 },
+        { strong: 3, points: 4 },
+      ],
+    },
+    metricRules: [
+      { metric: 'peNormalizedAnnual', max: 0, points: -5, label: 'negative earnings' },
+    ],
+  },
+  growth: {
+    id: 'growth',
+    name: 'Growth',
+    description: 'Revenue/EPS growth and price trend first; tolerates rich valuations',
+    weights: { growth: 2, profitability: 1, valuation: 0.5, quality: 0.75, analyst: 1, momentum: 1.5 },
+    zCurveSteepness: 3,
+    compound: {
+      ...STANDARD_COMPOUND,
+      penalties: [
+        { weak: 3, points: -5 },
+      ],
+    },
+    metricRules: [],
+  },
+  quality: {
+    id: 'quality',
+    name: 'Quality',
+    description: 'Balance sheet strength, earnings stability and margins; weak spots cost more',
+    weights: { growth: 1, profitability: 1.5, valuation: 1, quality: 2, analyst: 0.75, momentum: 0.5 },
+    zCurveSteepness: 2,
+    compound: {
+      ...STANDARD_COMPOUND,
+      penalties: [
+        { weak: 3, points: -12 },
+        { weak: 2, points: -8 },
+        { weak: 1, points: -3 },
+      ],
+    },
+    metricRules: [],
+  },
+  income: {
+    id: 'income',
+    name: 'Income',
+    description: 'Sustainable dividends from stable, reasonably priced companies',
+    weights: { growth: 0.5, profitability: 1.5, valuation: 1.5, quality: 2, analyst: 0.5, momentum: 0.5 },
+    zCurveSteepness: 2,
+    compound: {
+      ...STANDARD_COMPOUND,
+      bonuses: [
+        { excellent: 3, points: 6 },
+        { strong: 3, points: 3 },
+      ],
+    },
+    metricRules: [
+      { metric: 'dividendYieldIndicatedAnnual', min: 4, points: 6, label: 'dividend yield 4%+' },
+      { metric: 'dividendYieldIndicatedAnnual', min: 2.5, max: 4, points: 3, label: 'dividend yield 2.5-4%' },
+      { metric: 'dividendYieldIndicatedAnnual', max: 1, missingAs: 0, points: -5, label: 'little or no dividend' },
+      { metric: 'payoutRatioAnnual', min: 90, points: -4, label: 'payout ratio 90%+' },
+    ],
+  },
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfileId = 'balanced';
+
+/**
+ * Look up a profile by id (case-insensitive); undefined for unknown ids
+ */
+export function getScoringProfile(id: string | null | undefined): ScoringProfile | undefined {
+  const key = (id || DEFAULT_SCORING_PROFILE).toLowerCase();
+  return Object.prototype.hasOwnProperty.call(SCORING_PROFILES, key)
+    ? SCORING_PROFILES[key as ScoringProfileId]
+    : undefined;
+}
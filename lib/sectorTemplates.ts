@@ -0,0 +1,96 @@
+/**
+ * Sector Scoring Templates
+ *
+ * Industry-specific swaps for the valuation and quality factors, for sectors
+ * where the generic metrics mislead: bank "debt" is mostly deposits, REIT
+ * earnings are depressed by depreciation, utilities run high leverage and
+ * payouts by design. A template is picked from the company's Finnhub industry
+ * (profile.finnhubIndustry); everything else scores with "general", which is
+ * the original generic model.
+ *
+ * Used from scoring model v4 on (see lib/scoringModels).
+ * Pure data - safe to import from client components.
+ */
+
+import type { SectorTemplateId } from '@/types/stock';
+
+// Valuation metrics a template can score (see VALUATION_METRICS in lib/scoring)
+// cashFlowYield = 1 / (price / cash flow per share), the FFO-style yield for REITs
+export type ValuationMetricKey = 'pe' | 'pb' | 'cashFlowYield' | 'dividendYield';
+
+export interface ValuationTemplate {
+  primary: ValuationMetricKey; // 12 points vs the industry average (absolute tiers with fewer than 3 peers)
+  secondary: ValuationMetricKey; // 8 points vs the industry average
+  peg: boolean; // Adjust the primary points by PEG
+}
+
+export interface QualityTemplate {
+  // standard: D/E vs peers, unreported D/E scored as very high
+  // peer-relative: D/E vs peers with full marks up to the tolerance, unreported D/E neutral
+  // equity-cushion: equity/assets (ROA ÷ ROE) instead of D/E, for balance sheets funded by deposits
+  leverage: 'standard' | 'peer-relative' | 'equity-cushion';
+  leverageTolerance: number; // D/E at or below this scores full marks
+  liquidity: boolean; // Score the current ratio (its points go to leverage otherwise)
+  roeTiers: [number, number, number]; // ROE (%) earning 3 / 2.5 / 1.5 capital efficiency points
+  payoutCeiling?: number; // Payout ratio (%) above which cash flow quality is docked
+}
+
+export interface SectorTemplate {
+  id: SectorTemplateId;
+  name: string;
+  description: string;
+  industries: RegExp; // Matched against profile.finnhubIndustry
+  valuation: ValuationTemplate;
+  quality: QualityTemplate;
+}
+
+export const SECTOR_TEMPLATES: Record<SectorTemplateId, SectorTemplate> = {
+  general: {
+    id: 'general',
+    name: 'General',
+    description: 'P/E and P/B vs peers; balance sheet from D/E and current ratio',
+    industries: /$^/, // Fallback only
+    valuation: { primary: 'pe', secondary: 'pb', peg: true },
+    quality: { leverage: 'standard', leverageTolerance: 0.5, liquidity: true, roeTiers: [15, 10, 5] },
+  },
+  bank: {
+    id: 'bank',
+    name: 'Bank',
+    description: 'Valued on P/B, then P/E; equity cushion instead of D/E (deposits are not debt); ROE bar set for banks',
+    industries: /bank/i,
+    valuation: { primary: 'pb', secondary: 'pe', peg: false },
+    quality: { leverage: 'equity-cushion', leverageTolerance: 0, liquidity: false, roeTiers: [13, 10, 7] },
+  },
+  insurance: {
+    id: 'insurance',
+    name: 'Insurer',
+    description: 'Valued on P/B, then P/E; D/E vs other insurers, no current ratio',
+    industries: /insurance/i,
+    valuation: { primary: 'pb', secondary: 'pe', peg: false },
+    quality: { leverage: 'peer-relative', leverageTolerance: 0.5, liquidity: false, roeTiers: [12, 9, 6] },
+  },
+  reit: {
+    id: 'reit',
+    name: 'REIT',
+    description: 'Valued on cash flow (FFO-style) yield and dividend yield; higher leverage tolerated, payouts not penalized',
+    industries: /real estate|reit/i,
+    valuation: { primary: 'cashFlowYield', secondary: 'dividendYield', peg: false },
+    quality: { leverage: 'peer-relative', leverageTolerance: 1, liquidity: false, roeTiers: [8, 5, 2] },
+  },
+  utility: {
+    id: 'utility',
+    name: 'Utility',
+    description: 'Valued on P/E and dividend yield; D/E up to 1.5x tolerated, payout above 85% docked',
+    industries: /utilit/i,
+    valuation: { primary: 'pe', secondary: 'dividendYield', peg: false },
+    quality: { leverage: 'peer-relative', leverageTolerance: 1.5, liquidity: false, roeTiers: [10, 8, 6], payoutCeiling: 85 },
+  },
+};
+
+/**
+ * Template for a Finnhub industry ("general" when no sector template matches)
+ */
+export function sectorTemplateFor(industry: string | null | undefined): SectorTemplate {
+  const match = Object.values(SECTOR_TEMPLATES).find(template => template.id !== 'general' && template.industries.test(industry ?? ''));
+  return match ?? SECTOR_TEMPLATES.general;
+}
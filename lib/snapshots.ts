@@ -0,0 +1,171 @@
+/**
+ * Score Snapshots
+ *
+ * Daily record of every scored symbol: total score, factor scores, percentile
+ * ranks, peer set and the key metrics behind them. One snapshot per symbol per
+ * UTC day - re-scoring the same day replaces it - so the history shows how a
+ * score moved over time.
+ *
+ * Stored as one JSON file per symbol under SNAPSHOT_DIR (default
+ * `.data/snapshots`, or the OS temp dir on Vercel). Files are loaded lazily
+ * and the most recently used are kept in memory; writes for a symbol are
+ * serialized.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ScoreBreakdown, ScoreSnapshot } from '@/types/stock';
+import type { ScoringInputs } from '@/lib/stockScore';
+
+// ~5 years of daily snapshots per symbol
+const MAX_SNAPSHOTS_PER_SYMBOL = 5 * 366;
+
+// Symbols whose history is kept in memory; the least recently used are dropped and re-read on demand
+const MAX_LOADED_SYMBOLS = 500;
+
+function resolveSnapshotDir(): string {
+  if (process.env.SNAPSHOT_DIR) return process.env.SNAPSHOT_DIR;
+  // Serverless platforms only allow writes under the OS temp dir
+  return process.env.VERCEL
+    ? path.join(os.tmpdir(), 'factorfive-snapshots')
+    : path.join(process.cwd(), '.data', 'snapshots');
+}
+
+const snapshotDir = resolveSnapshotDir();
+// Map iteration order doubles as LRU order (oldest first)
+const loaded = new Map<string, Promise<ScoreSnapshot[]>>();
+const pendingWrites = new Map<string, Promise<void>>();
+
+const fileFor = (symbol: string) => path.join(snapshotDir, `${symbol.replace(/[^A-Za-z0-9._-]/g, '_')}.json`);
+
+/**
+ * Snapshots for a symbol, oldest first (loaded from disk on first use)
+ */
+function loadSnapshots(symbol: string): Promise<ScoreSnapshot[]> {
+  let snapshots = loaded.get(symbol);
+  if (snapshots) {
+    loaded.delete(symbol); // Re-inserted below as most recently used
+  } else {
+    snapshots = fs.promises
+      .readFile(fileFor(symbol), 'utf8')
+      .then(raw => (JSON.parse(raw) as ScoreSnapshot[]).sort((a, b) => a.date.localeCompare(b.date)))
+      .catch(() => [] as ScoreSnapshot[]); // Missing or corrupt file - start empty
+  }
+  loaded.set(symbol, snapshots);
+
+  for (const key of loaded.keys()) {
+    if (loaded.size <= MAX_LOADED_SYMBOLS) break;
+    // Keep symbols with a write in flight - re-reading the file could miss it
+    if (!pendingWrites.has(key)) loaded.delete(key);
+  }
+  return snapshots;
+}
+
+/**
+ * Write a symbol's snapshots to disk, after any write already in progress
+ */
+function persist(symbol: string, snapshots: ScoreSnapshot[]): Promise<void> {
+  const previous = pendingWrites.get(symbol) ?? Promise.resolve();
+  const write = previous.then(async () => {
+    await fs.promises.mkdir(snapshotDir, { recursive: true });
+    // Write-then-rename so a crash never leaves a half-written file
+    const tmpFile = `${fileFor(symbol)}.tmp`;
+    await fs.promises.writeFile(tmpFile, JSON.stringify(snapshots), 'utf8');
+    await fs.promises.rename(tmpFile, fileFor(symbol));
+  });
+  const settled = write.catch(error => console.warn(`[Snapshots] Failed to persist ${symbol}:`, error));
+  pendingWrites.set(symbol, settled);
+  settled.finally(() => {
+    if (pendingWrites.get(symbol) === settled) pendingWrites.delete(symbol);
+  });
+  return settled;
+}
+
+/**
+ * Build today's snapshot from a scoring run
+ */
+export function buildScoreSnapshot(
+  inputs: ScoringInputs,
+  result: { score: number; breakdown: ScoreBreakdown },
+  peers: string[],
+  now: Date = new Date()
+): ScoreSnapshot {
+  const { breakdown } = result;
+  const metric = inputs.financials?.metric;
+  const latestRatings = inputs.recommendations[0];
+
+  return {
+    symbol: inputs.symbol,
+    date: now.toISOString().split('T')[0],
+    recordedAt: now.toISOString(),
+    stockScore: result.score,
+    scoreModelVersion: breakdown.modelVersion,
+    baseScore: breakdown.baseScore,
+    compoundAdjustment: breakdown.compoundAdjustment,
+    subScores: {
+      growth: breakdown.growthScore,
+      profitability: breakdown.profitabilityScore,
+      valuation: breakdown.valuationScore,
+      quality: breakdown.qualityScore,
+      analyst: breakdown.analystScore,
+      momentum: breakdown.momentumScore,
+    },
+    percentileRanks: breakdown.peerContext.percentileRanks,
+    industry: breakdown.peerContext.industry,
+    peers,
+    metrics: {
+      price: inputs.quote.c,
+      pe: metric?.peNormalizedAnnual,
+      pb: metric?.pbAnnual,
+      roe: metric?.roeRfy,
+      netMargin: metric?.netProfitMarginAnnual,
+      operatingMargin: metric?.operatingMarginAnnual,
+      revenueGrowth: metric?.revenueGrowthQuarterlyYoy ?? metric?.revenueGrowthAnnual,
+      epsGrowth: metric?.epsGrowthQuarterlyYoy ?? metric?.epsGrowthAnnual,
+      debtEquity: metric?.debtEquityAnnual,
+      currentRatio: metric?.currentRatioAnnual,
+      priceTargetMean: inputs.priceTarget?.targetMean,
+      analystStrongBuy: latestRatings?.strongBuy,
+      analystBuy: latestRatings?.buy,
+      analystHold: latestRatings?.hold,
+      analystSell: latestRatings?.sell,
+      analystStrongSell: latestRatings?.strongSell,
+      momentum6M: inputs.momentum.momentum6M,
+      momentum12M: inputs.momentum.momentum12M,
+    },
+  };
+}
+
+/**
+ * Save a snapshot, replacing any earlier snapshot for the same day
+ * Never throws - a failed write only loses that day's history point.
+ */
+export async function recordScoreSnapshot(snapshot: ScoreSnapshot): Promise<void> {
+  try {
+    const snapshots = await loadSnapshots(snapshot.symbol);
+    const existing = snapshots.findIndex(s => s.date === snapshot.date);
+
+    if (existing >= 0) {
+      snapshots[existing] = snapshot;
+    } else {
+      snapshots.push(snapshot);
+      snapshots.sort((a, b) => a.date.localeCompare(b.date));
+      if (snapshots.length > MAX_SNAPSHOTS_PER_SYMBOL) {
+        snapshots.splice(0, snapshots.length - MAX_SNAPSHOTS_PER_SYMBOL);
+      }
+    }
+
+    await persist(snapshot.symbol, [...snapshots]);
+  } catch (error) {
+    console.warn(`[Snapshots] Failed to record ${snapshot.symbol}:`, error);
+  }
+}
+
+/**
+ * Snapshots for a symbol between two YYYY-MM-DD dates (inclusive), oldest first
+ */
+export async function getScoreHistory(symbol: string, from?: string, to?: string): Promise<ScoreSnapshot[]> {
+  const snapshots = await loadSnapshots(symbol);
+  return snapshots.filter(s => (!from || s.date >= from) && (!to || s.date <= to));
+}
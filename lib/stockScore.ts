@@ -0,0 +1,234 @@
+/**
+ * Stock Score Inputs
+ *
+ * Fetches everything the scoring model needs for one symbol through the
+ * market data provider, and scores it against a peer set. Shared by the
+ * single-stock route and the multi-symbol routes (batch, compare) so they
+ * all score identically.
+ */
+
+import type {
+  FinnhubQuote,
+  FinnhubProfile,
+  FinnhubBasicFinancials,
+  FinnhubRecommendationTrend,
+  FinnhubPriceTarget,
+  MomentumReturns,
+  EarningsData,
+  PeerMetrics,
+  ReportedFundamentals,
+  ScoreBreakdown,
+  IndustryBenchmarks,
+} from '@/types/stock';
+import type { MarketDataProvider } from '@/lib/providers';
+import { calculateIntelligentStockScore, calculateIndustryBenchmarks } from '@/lib/scoring';
+import { fetchMomentum } from '@/lib/candles';
+import { fetchEarnings } from '@/lib/earnings';
+import { fetchFundamentals } from '@/lib/financialStatements';
+import { buildScoreSnapshot, recordScoreSnapshot } from '@/lib/snapshots';
+import { DEFAULT_SCORING_PROFILE, SCORING_PROFILES, ScoringProfile } from '@/lib/scoringProfiles';
+import { CURRENT_SCORING_MODEL, SCORING_MODELS, ScoringModel } from '@/lib/scoringModels';
+import { fetchIndustryPeerMetrics } from '@/lib/peerStore';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { withUpstreamPriority } from '@/lib/upstream';
+
+// Broad market benchmark for relative-strength momentum
+export const MARKET_BENCHMARK_SYMBOL = 'SPY';
+
+// Industry used when the profile does not report one
+export const DEFAULT_INDUSTRY = 'Technology';
+
+export interface ScoringInputs {
+  symbol: string;
+  quote: FinnhubQuote;
+  profile: FinnhubProfile;
+  financials: FinnhubBasicFinancials | null;
+  recommendations: FinnhubRecommendationTrend[];
+  priceTarget: FinnhubPriceTarget | null;
+  momentum: MomentumReturns;
+  earnings: EarningsData | null;
+  fundamentals: ReportedFundamentals | null;
+}
+
+/**
+ * Fetch the scoring inputs for a symbol in parallel
+ * Quote and profile are CRITICAL (errors propagate); everything else
+ * degrades gracefully to an empty value.
+ */
+export async function fetchScoringInputs(provider: MarketDataProvider, symbol: string): Promise<ScoringInputs> {
+  const [quote, profile, financials, recommendations, priceTarget, momentum, earnings, fundamentals] = await Promise.all([
+    // Quote - current price and daily change (CRITICAL - no fallback)
+    provider.getQuote(symbol),
+    // Profile - company information (CRITICAL - no fallback)
+    provider.getProfile(symbol),
+    // Basic financials - comprehensive metrics (NON-CRITICAL - graceful degradation)
+    provider.getBasicFinancials(symbol).catch((): FinnhubBasicFinancials | null => null),
+    // Recommendation trends - analyst ratings (NON-CRITICAL - graceful degradation)
+    provider.getRecommendations(symbol).catch((): FinnhubRecommendationTrend[] => []),
+    // Price target - analyst consensus targets (NON-CRITICAL - graceful degradation)
+    provider.getPriceTarget(symbol).catch((): FinnhubPriceTarget | null => null),
+    // Daily candles - 1/3/6/12 month momentum (NON-CRITICAL - empty on failure)
+    fetchMomentum(provider, symbol),
+    // Earnings history - beat rate/surprise inputs for quality (NON-CRITICAL)
+    fetchEarnings(provider, symbol).catch((): EarningsData | null => null),
+    // Latest annual filing - FCF, ROIC and interest coverage for quality (NON-CRITICAL)
+    fetchFundamentals(provider, symbol).catch((): ReportedFundamentals | null => null),
+  ]);
+
+  return { symbol, quote, profile, financials, recommendations, priceTarget, momentum, earnings, fundamentals };
+}
+
+/**
+ * Fetch trailing returns for the market benchmark (SPY)
+ */
+export function fetchMarketMomentum(provider: MarketDataProvider): Promise<MomentumReturns> {
+  return fetchMomentum(provider, MARKET_BENCHMARK_SYMBOL);
+}
+
+/**
+ * Industry label used for benchmarking
+ */
+export function industryOf(profile: FinnhubProfile): string {
+  return profile.finnhubIndustry || DEFAULT_INDUSTRY;
+}
+
+/**
+ * Score a symbol's inputs against a peer set
+ * Every default-profile score under the current model against the symbol's own
+ * provider peers (`defaultPeers`) is also recorded as its daily snapshot
+ * (lib/snapshots); other profiles, older models, user-chosen or pooled industry
+ * peers would make the history inconsistent.
+ */
+export function scoreStock(
+  inputs: ScoringInputs,
+  peerMetrics: PeerMetrics[],
+  marketMomentum?: MomentumReturns,
+  profile: ScoringProfile = SCORING_PROFILES[DEFAULT_SCORING_PROFILE],
+  model: ScoringModel = SCORING_MODELS[CURRENT_SCORING_MODEL],
+  defaultPeers: boolean = true
+): { score: number; breakdown: ScoreBreakdown; benchmarks: IndustryBenchmarks } {
+  const result = calculateIntelligentStockScore(
+    inputs.symbol,
+    inputs.quote,
+    inputs.financials,
+    inputs.recommendations,
+    inputs.priceTarget,
+    peerMetrics,
+    industryOf(inputs.profile),
+    { company: inputs.momentum, market: marketMomentum },
+    inputs.earnings?.summary,
+    profile,
+    model,
+    inputs.fundamentals
+  );
+
+  // Fire-and-forget: history must never slow down or fail a response
+  if (profile.id === DEFAULT_SCORING_PROFILE && model.version === CURRENT_SCORING_MODEL && defaultPeers) {
+    void recordScoreSnapshot(buildScoreSnapshot(inputs, result, peerMetrics.map(peer => peer.symbol)));
+  }
+
+  return result;
+}
+
+export interface ScoredSymbol {
+  symbol: string;
+  ok: true;
+  inputs: ScoringInputs;
+  industry: string;
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+export interface FailedSymbol {
+  symbol: string;
+  ok: false;
+  error: string;
+  details?: string;
+}
+
+export interface IndustryPeerSet {
+  peers: string[];
+  benchmarks: IndustryBenchmarks;
+}
+
+/**
+ * Score several symbols at once
+ *
+ * Inputs are fetched with at most `concurrency` symbols in flight. Symbols in
+ * the same industry share one peer set, so peer metrics are fetched once and
+ * every symbol in the industry is scored against the same benchmarks.
+ * A symbol that fails is returned as a FailedSymbol in its slot; results keep
+ * the order of `symbols`. These scores are not recorded in the score history.
+ */
+export async function scoreSymbols(
+  provider: MarketDataProvider,
+  symbols: string[],
+  concurrency: number
+): Promise<{ results: Array<ScoredSymbol | FailedSymbol>; industries: Record<string, IndustryPeerSet> }> {
+  // SPY momentum is the same for every symbol - fetch it once
+  const marketMomentumPromise = fetchMarketMomentum(provider);
+
+  // 1. Per-symbol inputs; failures stay per symbol
+  const inputs = await mapWithConcurrency(symbols, concurrency, async (symbol): Promise<ScoringInputs | FailedSymbol> => {
+    try {
+      const data = await fetchScoringInputs(provider, symbol);
+      if (!data.profile.name) {
+        return { symbol, ok: false, error: 'Invalid symbol', details: `No data found for symbol: ${symbol}` };
+      }
+      return data;
+    } catch (error) {
+      return {
+        symbol,
+        ok: false,
+        error: 'Failed to fetch stock data',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  });
+
+  // 2. Group by industry and build one peer set + benchmarks per industry
+  const byIndustry = new Map<string, ScoringInputs[]>();
+  for (const entry of inputs) {
+    if ('ok' in entry) continue;
+    const industry = industryOf(entry.profile);
+    byIndustry.set(industry, [...(byIndustry.get(industry) ?? []), entry]);
+  }
+
+  const peerMetricsByIndustry = new Map<string, PeerMetrics[]>();
+  const industries: Record<string, IndustryPeerSet> = {};
+
+  await mapWithConcurrency(Array.from(byIndustry.entries()), concurrency, async ([industry, members]) => {
+    // Peer calls run at low priority so interactive quote/profile calls go first
+    const peerSet = await withUpstreamPriority('low', () =>
+      fetchIndustryPeerMetrics(provider, members.map(member => member.symbol))
+    );
+    peerMetricsByIndustry.set(industry, peerSet.metrics);
+    industries[industry] = {
+      peers: peerSet.peers,
+      benchmarks: {
+        ...calculateIndustryBenchmarks(peerSet.metrics, industry),
+        peers: peerSet.peers.map(symbol => ({ symbol, source: 'provider' as const })),
+      },
+    };
+  });
+
+  // 3. Score every symbol against its industry's shared peer set
+  const marketMomentum = await marketMomentumPromise;
+  const results = inputs.map((entry): ScoredSymbol | FailedSymbol => {
+    if ('ok' in entry) return entry;
+
+    const industry = industryOf(entry.profile);
+    // Pooled industry peers differ from the symbol's own - keep them out of the history
+    const { score, breakdown } = scoreStock(
+      entry,
+      peerMetricsByIndustry.get(industry) ?? [],
+      marketMomentum,
+      SCORING_PROFILES[DEFAULT_SCORING_PROFILE],
+      SCORING_MODELS[CURRENT_SCORING_MODEL],
+      false
+    );
+    return { symbol: entry.symbol, ok: true, inputs: entry, industry, score, breakdown };
+  });
+
+  return { results, industries };
+}
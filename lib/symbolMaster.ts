@@ -0,0 +1,289 @@
+/**
+ * Symbol Master & Search
+ *
+ * Local index of listed symbols (symbol, name, exchange, type) used for
+ * ticker/company search. The full US list is fetched from the market data
+ * provider, cached for a month (refreshed in the background after a day, and
+ * persisted with CACHE_DRIVER=file) and searched in memory. Without a
+ * provider, while the first load is still running, or when it fails, a
+ * built-in list of popular symbols is used instead.
+ *
+ * Matching is fuzzy on both ticker and company name, so "appl" and "apple"
+ * both find AAPL.
+ */
+
+import type { FinnhubSymbol, SymbolRecord, SymbolSearchResult } from '@/types/stock';
+import type { MarketDataProvider } from '@/lib/providers';
+import { createCache } from '@/lib/cache';
+
+// Exchange code passed to the provider's symbol list endpoint
+const SYMBOL_EXCHANGE = 'US';
+
+// Background refresh interval; on-demand refreshes are held to it too
+const SYMBOL_MASTER_REFRESH_MINUTES = 24 * 60;
+
+// Listing types worth searching (skips warrants, rights, units, ...)
+const SEARCHABLE_TYPES = new Set(['Common Stock', 'ADR', 'ETP', 'REIT']);
+
+// Friendly names for market identifier codes
+const EXCHANGE_NAMES: Record<string, string> = {
+  XNAS: 'NASDAQ',
+  XNYS: 'NYSE',
+  XASE: 'NYSE American',
+  ARCX: 'NYSE Arca',
+  BATS: 'Cboe BZX',
+  OOTC: 'OTC',
+};
+
+/**
+ * Popular symbols - offline fallback and a ranking boost in the full index
+ */
+const SEED_SYMBOLS: SymbolRecord[] = [
+  { symbol: 'AAPL', name: 'Apple Inc', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'MSFT', name: 'Microsoft Corp', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'GOOGL', name: 'Alphabet Inc Class A', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'AMZN', name: 'Amazon.com Inc', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'NVDA', name: 'NVIDIA Corp', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'META', name: 'Meta Platforms Inc', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'TSLA', name: 'Tesla Inc', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'F', name: 'Ford Motor Co', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'GM', name: 'General Motors Co', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'RIVN', name: 'Rivian Automotive Inc', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'JPM', name: 'JPMorgan Chase & Co', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'BAC', name: 'Bank of America Corp', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'GS', name: 'Goldman Sachs Group Inc', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'V', name: 'Visa Inc', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'MA', name: 'Mastercard Inc', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'JNJ', name: 'Johnson & Johnson', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'UNH', name: 'UnitedHealth Group Inc', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'PFE', name: 'Pfizer Inc', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'MRNA', name: 'Moderna Inc', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'DIS', name: 'Walt Disney Co', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'NFLX', name: 'Netflix Inc', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'SPOT', name: 'Spotify Technology SA', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'AMD', name: 'Advanced Micro Devices Inc', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'INTC', name: 'Intel Corp', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'TSM', name: 'Taiwan Semiconductor Manufacturing Co Ltd', exchange: 'NYSE', type: 'ADR' },
+  { symbol: 'QCOM', name: 'Qualcomm Inc', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'WMT', name: 'Walmart Inc', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'TGT', name: 'Target Corp', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'COST', name: 'Costco Wholesale Corp', exchange: 'NASDAQ', type: 'Common Stock' },
+  { symbol: 'HD', name: 'Home Depot Inc', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'XOM', name: 'Exxon Mobil Corp', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'CVX', name: 'Chevron Corp', exchange: 'NYSE', type: 'Common Stock' },
+  { symbol: 'BP', name: 'BP PLC', exchange: 'NYSE', type: 'ADR' },
+  { symbol: 'SPY', name: 'SPDR S&P 500 ETF Trust', exchange: 'NYSE Arca', type: 'ETP' },
+];
+
+const POPULAR = new Set(SEED_SYMBOLS.map(record => record.symbol));
+
+export interface SymbolMaster {
+  records: SymbolRecord[];
+  source: 'provider' | 'seed';
+  asOf?: string; // When the provider list was fetched
+}
+
+const SEED_MASTER: SymbolMaster = { records: SEED_SYMBOLS, source: 'seed' };
+
+const symbolMasterCache = createCache<SymbolMaster>('symbol-master', {
+  ttlMinutes: 30 * 24 * 60, // Hard limit: a month
+  staleAfterMinutes: SYMBOL_MASTER_REFRESH_MINUTES, // New listings show up within a day
+  maxEntries: 4,
+});
+
+/**
+ * Map the provider's symbol list to searchable records
+ */
+function toSymbolRecords(symbols: FinnhubSymbol[]): SymbolRecord[] {
+  return symbols
+    .filter(entry => entry.symbol && entry.description && SEARCHABLE_TYPES.has(entry.type))
+    .map(entry => ({
+      symbol: entry.symbol,
+      name: entry.description,
+      exchange: EXCHANGE_NAMES[entry.mic] || entry.mic,
+      type: entry.type,
+    }));
+}
+
+async function loadSymbolMaster(provider: MarketDataProvider): Promise<SymbolMaster> {
+  const records = toSymbolRecords(await provider.getSymbols(SYMBOL_EXCHANGE));
+  return { records, source: 'provider', asOf: new Date().toISOString() };
+}
+
+/**
+ * Get the symbol master
+ * The full list is several MB, so search never waits for it: until the first
+ * provider fetch completes (or when it fails) the popular list is served and
+ * the fetch continues in the background.
+ */
+export async function getSymbolMaster(provider: MarketDataProvider): Promise<SymbolMaster> {
+  if (!provider.isConfigured()) {
+    return SEED_MASTER;
+  }
+
+  const pending = symbolMasterCache.getOrFetch(
+    `${provider.name}_${SYMBOL_EXCHANGE}`,
+    () => loadSymbolMaster(provider),
+    master => master.records.length > 0
+  );
+
+  // getOrFetch resolves immediately on a cache hit (fresh or stale)
+  const timeout = new Promise<null>(resolve => setTimeout(() => resolve(null), 250).unref?.());
+  try {
+    const master = await Promise.race([pending, timeout]);
+    if (master && master.records.length > 0) {
+      return master;
+    }
+  } catch (error) {
+    console.warn('Failed to load symbol master, using popular symbols:', error);
+    return SEED_MASTER;
+  }
+
+  pending.catch(error => console.warn('Failed to load symbol master, using popular symbols:', error));
+  return SEED_MASTER;
+}
+
+/**
+ * When the symbol list may next be re-fetched on demand (null: now)
+ * The list is several MB and costs rate-limit budget, so on-demand refreshes
+ * wait out the background refresh interval since the last fetch.
+ */
+export function nextSymbolMasterRefresh(provider: MarketDataProvider, now: Date = new Date()): string | null {
+  const entry = symbolMasterCache.getEntry(`${provider.name}_${SYMBOL_EXCHANGE}`);
+  if (!entry) return null;
+  const next = entry.timestamp + SYMBOL_MASTER_REFRESH_MINUTES * 60 * 1000;
+  return next > now.getTime() ? new Date(next).toISOString() : null;
+}
+
+/**
+ * Re-fetch the symbol list from the provider now (ignores the cache)
+ */
+export async function refreshSymbolMaster(provider: MarketDataProvider): Promise<SymbolMaster> {
+  const master = await loadSymbolMaster(provider);
+  if (master.records.length > 0) {
+    symbolMasterCache.set(`${provider.name}_${SYMBOL_EXCHANGE}`, master);
+  }
+  return master;
+}
+
+interface IndexEntry {
+  record: SymbolRecord;
+  symbol: string; // Upper-case ticker
+  name: string; // Upper-case name, punctuation stripped
+  words: string[];
+}
+
+// Built once per master; the master object changes when the list is refreshed
+const indexes = new WeakMap<SymbolMaster, IndexEntry[]>();
+
+const normalize = (text: string) => text.toUpperCase().replace(/[^A-Z0-9. ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+function getIndex(master: SymbolMaster): IndexEntry[] {
+  let index = indexes.get(master);
+  if (!index) {
+    index = master.records.map(record => {
+      const name = normalize(record.name);
+      return { record, symbol: record.symbol.toUpperCase(), name, words: name.split(' ') };
+    });
+    indexes.set(master, index);
+  }
+  return index;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein + adjacent transpositions)
+ * Stops early once the distance exceeds `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, rows[i - 2][j - 2] + 1);
+      }
+      rows[i][j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+  }
+
+  return rows[a.length][b.length];
+}
+
+/**
+ * Relevance of one entry for a normalized query (0 = no match)
+ *
+ * Exact ticker > ticker prefix > company name prefix > name word prefix >
+ * one-typo ticker > name substring > typo in a name word.
+ */
+function scoreEntry(entry: IndexEntry, query: string): { score: number; matchedOn: 'symbol' | 'name' } {
+  const compactQuery = query.replace(/ /g, '');
+  let best = { score: 0, matchedOn: 'symbol' as 'symbol' | 'name' };
+  const consider = (score: number, matchedOn: 'symbol' | 'name') => {
+    if (score > best.score) best = { score, matchedOn };
+  };
+
+  // Ticker matches
+  if (entry.symbol === compactQuery) {
+    consider(1000, 'symbol');
+  } else if (entry.symbol.startsWith(compactQuery)) {
+    consider(800 - (entry.symbol.length - compactQuery.length) * 10, 'symbol');
+  } else if (compactQuery.length >= 3 && editDistance(compactQuery, entry.symbol, 1) <= 1) {
+    consider(500, 'symbol');
+  }
+
+  // Name matches
+  if (entry.name.startsWith(query)) {
+    consider(700, 'name');
+  } else if (entry.words.some(word => word.startsWith(query))) {
+    consider(600, 'name');
+  } else if (query.length >= 3 && entry.name.includes(query)) {
+    consider(400, 'name');
+  } else if (query.length >= 4) {
+    // Tolerate one typo (two for long queries) against the start of a name word
+    const maxTypos = query.length >= 7 ? 2 : 1;
+    if (entry.words.some(word => editDistance(query, word.slice(0, query.length), maxTypos) <= maxTypos)) {
+      consider(300, 'name');
+    }
+  }
+
+  if (best.score > 0) {
+    // Popular symbols and plain common stock first among similar matches
+    if (POPULAR.has(entry.symbol)) best.score += 50;
+    if (entry.record.type === 'Common Stock') best.score += 20;
+  }
+
+  return best;
+}
+
+/**
+ * Fuzzy search on ticker and company name, best matches first
+ */
+export function searchSymbols(master: SymbolMaster, rawQuery: string, limit: number): SymbolSearchResult[] {
+  const query = normalize(rawQuery);
+  if (!query) return [];
+
+  const matches: SymbolSearchResult[] = [];
+  for (const entry of getIndex(master)) {
+    const { score, matchedOn } = scoreEntry(entry, query);
+    if (score > 0) {
+      matches.push({ ...entry.record, matchedOn, score });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.symbol.length - b.symbol.length || a.symbol.localeCompare(b.symbol))
+    .slice(0, limit);
+}
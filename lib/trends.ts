@@ -0,0 +1,120 @@
+/**
+ * Company Trends
+ *
+ * Multi-year trends from a company's own annual financial series
+ * (lib/financialSeries): sales per share and EPS CAGR, the variability of
+ * year-over-year growth, and the trajectory (least-squares slope per year),
+ * average and variability of operating and net margins. The scoring model
+ * compares current growth and margins with these to score a company against
+ * its own history as well as its peers.
+ * Pure functions only.
+ */
+
+import type { CompanyTrends, MetricTrend } from '@/types/stock';
+import type { FinancialSeries, SeriesPoint } from '@/lib/financialSeries';
+
+// Annual periods looked at (5 years of changes)
+export const TREND_PERIODS = 6;
+
+// Fewest annual periods a trend is computed from
+export const MIN_TREND_PERIODS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const yearsBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / (365.25 * DAY_MS);
+
+const stdDev = (values: number[]) => {
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length);
+};
+
+/**
+ * Latest TREND_PERIODS points, or null when there are fewer than MIN_TREND_PERIODS
+ */
+function recent(points: SeriesPoint[] | undefined): SeriesPoint[] | null {
+  if (!points || points.length < MIN_TREND_PERIODS) return null;
+  return points.slice(-TREND_PERIODS);
+}
+
+/**
+ * Compound annual growth rate (%) between the first and latest point
+ * Null when either end is not positive (growth from a loss has no rate).
+ */
+export function cagr(points: SeriesPoint[]): number | null {
+  const first = points[0];
+  const last = points[points.length - 1];
+  const years = yearsBetween(first.period, last.period);
+  if (first.value <= 0 || last.value <= 0 || years <= 0) return null;
+  return (Math.pow(last.value / first.value, 1 / years) - 1) * 100;
+}
+
+/**
+ * Year-over-year growth (%) between consecutive points with a positive base
+ */
+function yearOverYear(points: SeriesPoint[]): number[] {
+  const growth: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const base = points[i - 1].value;
+    if (base > 0) growth.push((points[i].value / base - 1) * 100);
+  }
+  return growth;
+}
+
+/**
+ * Least-squares slope of value against time, per year
+ */
+function slopePerYear(points: SeriesPoint[]): number {
+  const xs = points.map(p => yearsBetween(points[0].period, p.period));
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = points.reduce((sum, p) => sum + p.value, 0) / points.length;
+  const covariance = points.reduce((sum, p, i) => sum + (xs[i] - meanX) * (p.value - meanY), 0);
+  const variance = xs.reduce((sum, x) => sum + Math.pow(x - meanX, 2), 0);
+  return variance > 0 ? covariance / variance : 0;
+}
+
+/**
+ * Level, trajectory and variability of one metric
+ */
+export function metricTrend(points: SeriesPoint[] | undefined): MetricTrend | null {
+  const window = recent(points);
+  if (!window) return null;
+  return {
+    periods: window.length,
+    from: window[0].period,
+    to: window[window.length - 1].period,
+    latest: round(window[window.length - 1].value),
+    average: round(window.reduce((sum, p) => sum + p.value, 0) / window.length),
+    slope: round(slopePerYear(window)),
+    stdDev: round(stdDev(window.map(p => p.value))),
+  };
+}
+
+/**
+ * Multi-year trends from the annual series; null when no series is long enough
+ */
+export function computeCompanyTrends(series: FinancialSeries): CompanyTrends | null {
+  const sales = recent(series.annual.salesPerShare);
+  const eps = recent(series.annual.eps);
+  const operatingMargin = metricTrend(series.annual.operatingMargin);
+  const netMargin = metricTrend(series.annual.netMargin);
+
+  const windows = [sales, eps, recent(series.annual.operatingMargin), recent(series.annual.netMargin)]
+    .filter((window): window is SeriesPoint[] => window !== null);
+  if (windows.length === 0) return null;
+
+  const salesGrowth = sales ? yearOverYear(sales) : [];
+  const epsGrowth = eps ? yearOverYear(eps) : [];
+  const revenueCagr = sales ? cagr(sales) : null;
+  const epsCagr = eps ? cagr(eps) : null;
+
+  return {
+    years: round(Math.max(...windows.map(w => yearsBetween(w[0].period, w[w.length - 1].period)))),
+    revenueCagr: revenueCagr === null ? null : round(revenueCagr),
+    epsCagr: epsCagr === null ? null : round(epsCagr),
+    revenueGrowthStdDev: salesGrowth.length >= 2 ? round(stdDev(salesGrowth)) : null,
+    epsGrowthStdDev: epsGrowth.length >= 2 ? round(stdDev(epsGrowth)) : null,
+    operatingMargin,
+    netMargin,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Per-request upstream call accounting
+ *
+ * Each API request runs inside an AsyncLocalStorage context that counts the
+ * upstream HTTP calls (Finnhub, NewsAPI, ...) made on its behalf, including
+ * retries. withUpstreamAccounting() reports the total in an
+ * `X-Upstream-Calls` response header. The same context carries the request
+ * priority used by the shared rate limiter.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { RequestPriority } from '@/lib/rateLimiter';
+
+interface UpstreamCounter {
+  calls: number;
+  bySource: Record<string, number>;
+}
+
+interface UpstreamContext {
+  counter: UpstreamCounter;
+  priority?: RequestPriority;
+}
+
+const storage = new AsyncLocalStorage<UpstreamContext>();
+
+/**
+ * Count one upstream call against the current request (no-op outside a request)
+ */
+export function recordUpstreamCall(source: string): void {
+  const context = storage.getStore();
+  if (!context) return;
+  const { counter } = context;
+  counter.calls += 1;
+  counter.bySource[source] = (counter.bySource[source] ?? 0) + 1;
+}
+
+/**
+ * Priority set by the nearest enclosing withUpstreamPriority(), if any
+ */
+export function getUpstreamPriority(): RequestPriority | undefined {
+  return storage.getStore()?.priority;
+}
+
+/**
+ * Run `fn` with a different rate-limiter priority (calls still count toward the request)
+ */
+export function withUpstreamPriority<T>(priority: RequestPriority, fn: () => Promise<T>): Promise<T> {
+  // Share the parent's counter, override only the priority
+  const counter = storage.getStore()?.counter ?? { calls: 0, bySource: {} };
+  return storage.run({ counter, priority }, fn);
+}
+
+/**
+ * Wrap a route handler so its response carries `X-Upstream-Calls`
+ */
+export function withUpstreamAccounting<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<Response>
+): (...args: Args) => Promise<Response> {
+  return (...args: Args) => {
+    const counter: UpstreamCounter = { calls: 0, bySource: {} };
+
+    return storage.run({ counter }, async () => {
+      const response = await handler(...args);
+      response.headers.set('X-Upstream-Calls', String(counter.calls));
+      const breakdown = Object.entries(counter.bySource).map(([source, count]) => `${source}=${count}`);
+      if (breakdown.length > 0) {
+        response.headers.set('X-Upstream-Calls-By-Source', breakdown.join(', '));
+      }
+      return response;
+    });
+  };
+}
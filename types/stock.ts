@@ -58,6 +58,132 @@ export interface EarningsEvent {
   year: number;
 }
 
+// Finnhub Earnings Surprises entry (/stock/earnings)
+export interface FinnhubEarningsSurprise {
+  actual: number | null;
+  estimate: number | null;
+  period: string; // Fiscal quarter end, YYYY-MM-DD
+  quarter: number;
+  surprise: number | null;
+  surprisePercent: number | null;
+  symbol: string;
+  year: number;
+}
+
+// One reported quarter, EPS and revenue vs. consensus
+export interface EarningsQuarter {
+  year: number;
+  quarter: number; // Fiscal quarter
+  period?: string; // Fiscal quarter end, YYYY-MM-DD
+  reportDate?: string; // YYYY-MM-DD
+  epsActual: number | null;
+  epsEstimate: number | null;
+  epsSurprisePercent: number | null;
+  revenueActual: number | null;
+  revenueEstimate: number | null;
+  revenueSurprisePercent: number | null;
+  flags: string[]; // Plausibility / cross-check warnings
+}
+
+// high: calendar date confirmed by the reporting cadence
+// medium: calendar date that could not be cross-checked or is a little off
+// low: projected from past report dates only, or failed plausibility checks
+export type EarningsDateConfidence = 'high' | 'medium' | 'low';
+
+export interface NextEarnings {
+  date: string; // YYYY-MM-DD
+  hour: string; // "bmo", "amc", "dmh" or "" when unknown
+  year?: number;
+  quarter?: number;
+  epsEstimate: number | null;
+  revenueEstimate: number | null;
+  source: 'calendar' | 'projected';
+  confidence: EarningsDateConfidence;
+  checks: string[]; // Human-readable results of the cross-checks
+}
+
+// Aggregates over EarningsData.history used by the quality score
+export interface EarningsSummary {
+  quarters: number; // Quarters with both EPS actual and estimate
+  beatRate: number | null; // 0-1, share of those quarters with actual > estimate
+  avgSurprisePercent: number | null; // Mean EPS surprise, flagged rows excluded
+  epsGrowthStdDev: number | null; // Std dev of YoY quarterly EPS growth (%)
+  epsGrowthSamples: number;
+}
+
+export interface EarningsData {
+  next: NextEarnings | null;
+  history: EarningsQuarter[]; // Most recent first, up to 8 quarters
+  summary: EarningsSummary;
+  asOf: string; // ISO timestamp
+}
+
+// Finnhub Stock Symbols endpoint entry (/stock/symbol?exchange=US)
+export interface FinnhubSymbol {
+  currency: string;
+  description: string; // Company name
+  displaySymbol: string;
+  figi?: string;
+  mic: string; // Market identifier code (e.g. XNAS, XNYS)
+  symbol: string;
+  type: string; // e.g. "Common Stock", "ADR", "ETP"
+}
+
+// One entry of the local symbol master used by /api/search
+export interface SymbolRecord {
+  symbol: string;
+  name: string;
+  exchange: string;
+  type: string;
+}
+
+export interface SymbolSearchResult extends SymbolRecord {
+  matchedOn: 'symbol' | 'name';
+  score: number; // Relevance, higher is better
+}
+
+// GET /api/search response
+export interface SymbolSearchResponse {
+  query: string;
+  results: SymbolSearchResult[];
+  source: 'provider' | 'seed'; // Full provider list, or the built-in popular list
+  indexSize: number;
+  indexAsOf?: string; // ISO timestamp of the last provider refresh
+}
+
+// Finnhub Stock Candles endpoint response (parallel arrays, one entry per bar)
+export interface FinnhubCandles {
+  c: number[]; // Close prices
+  h: number[]; // High prices
+  l: number[]; // Low prices
+  o: number[]; // Open prices
+  t: number[]; // Bar timestamps (Unix seconds)
+  v: number[]; // Volumes
+  s: 'ok' | 'no_data'; // Status
+}
+
+// Candle resolutions supported by Finnhub
+export type CandleResolution = '1' | '5' | '15' | '30' | '60' | 'D' | 'W' | 'M';
+
+// Single OHLCV bar returned by /api/candles
+export interface CandleBar {
+  time: number; // Unix seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Trailing price returns computed from daily closes (percent)
+export interface MomentumReturns {
+  momentum1M?: number;
+  momentum3M?: number;
+  momentum6M?: number;
+  momentum12M?: number;
+  asOf?: string; // Date of the latest close used (YYYY-MM-DD)
+}
+
 // Peer comparison data for relative analysis
 export interface PeerMetrics {
   symbol: string;
@@ -71,8 +197,13 @@ export interface PeerMetrics {
   pb?: number;
   debtEquity?: number;
   currentRatio?: number;
-  momentum1M?: number;
-  momentum3M?: number;
+  pcf?: number; // Price to cash flow per share (TTM)
+  dividendYield?: number; // Indicated annual dividend yield (%)
+  momentum1M?: number; // 1-month price return (%)
+  momentum3M?: number; // 3-month price return (%)
+  momentum6M?: number; // 6-month price return (%)
+  momentum12M?: number; // 12-month price return (%)
+  asOf?: string; // ISO timestamp when these metrics were fetched
 }
 
 // Industry benchmark statistics
@@ -88,45 +219,398 @@ export interface IndustryBenchmarks {
   avgPb: number;
   avgMomentum1M: number;
   avgMomentum3M: number;
+  avgMomentum6M: number;
+  avgMomentum12M: number;
+  peerDataAsOf?: { // Age range of the peer metrics used (from the peer store)
+    oldest: string;
+    newest: string;
+  };
+  statistics?: StatisticsMethod; // How the averages were computed (medians, shrinkage, ...)
+  peers?: IndustryPeer[]; // Peers behind the benchmarks, user-chosen first
+  excludedPeers?: string[]; // Peers the exclusion list removed
+}
+
+// Where a benchmark peer came from: the request or a saved peer group (user),
+// or the market data provider's peer list (provider)
+export type PeerSource = 'user' | 'provider';
+
+export interface IndustryPeer {
+  symbol: string;
+  source: PeerSource;
+}
+
+// Saved named peer group (see lib/peerGroups)
+export interface PeerGroup {
+  name: string; // Lowercase slug, used as ?peerGroup=
+  peers: string[]; // Always included
+  exclude: string[]; // Never included, even when the provider lists them
+  includeProviderPeers: boolean; // Top up with provider peers to the peer limit
+  updatedAt: string; // ISO timestamp
 }
 
 // Enhanced score breakdown with relative context
+// The five core factors plus optional momentum
+export type ScoreFactor = 'growth' | 'profitability' | 'valuation' | 'quality' | 'analyst' | 'momentum';
+
+// Named scoring style (see lib/scoringProfiles)
+export type ScoringProfileId = 'balanced' | 'value' | 'growth' | 'quality' | 'income';
+
+// Registered scoring model version (see lib/scoringModels)
+export type ScoringModelVersion = 'v1' | 'v2' | 'v3' | 'v4' | 'v5' | 'v6' | 'v7' | 'v8';
+
+// Industry-specific scoring template (see lib/sectorTemplates)
+export type SectorTemplateId = 'general' | 'bank' | 'insurance' | 'reit' | 'utility';
+
+// How peer values are summarized into the benchmark and spread that z-scores
+// and industry averages use (see lib/peerStatistics)
+export interface StatisticsMethod {
+  center: 'mean' | 'median';
+  spread: 'stdDev' | 'mad'; // MAD is scaled by 1.4826 to match σ for normal data
+  winsorize: number | null; // Share of peers clamped at each tail first (e.g. 0.1), null = off
+  priorStrength: number; // Pseudo-peers of sector/market prior blended in (0 = no shrinkage)
+}
+
+// How one metric moved over the company's own annual history (see lib/trends)
+export interface MetricTrend {
+  periods: number; // Annual periods used
+  from: string; // First fiscal period end (YYYY-MM-DD)
+  to: string; // Latest fiscal period end
+  latest: number;
+  average: number;
+  slope: number; // Least-squares change per year (percentage points for margins)
+  stdDev: number;
+}
+
+// Multi-year trends from the company's annual financial series (see lib/trends)
+export interface CompanyTrends {
+  years: number; // Span of the longest series used, in years
+  revenueCagr: number | null; // Sales per share CAGR (%)
+  epsCagr: number | null; // EPS CAGR (%), null unless first and latest EPS are positive
+  revenueGrowthStdDev: number | null; // σ of year-over-year sales per share growth (pp)
+  epsGrowthStdDev: number | null; // σ of year-over-year EPS growth (pp)
+  operatingMargin: MetricTrend | null;
+  netMargin: MetricTrend | null;
+}
+
+// Points one metric earned within a factor score
+export interface MetricContribution {
+  key: string; // Stable id, e.g. 'revenueGrowth'
+  metric: string; // Display name
+  value: number | null; // Raw company value (null when not reported)
+  peerMean: number | null; // Peer benchmark it was compared against (the median under robust statistics)
+  peerStdDev: number | null; // Peer spread (scaled MAD under robust statistics)
+  priorWeight?: number; // Share of the benchmark taken from the sector/market prior (0-1)
+  zScore: number | null; // Only for z-scored metrics
+  percentile: number | null; // 0-100, higher = more favourable (inverted for lower-is-better metrics)
+  points: number; // Points awarded (negative for penalties/adjustments)
+  maxPoints: number; // Points available (0 for adjustments)
+  method: 'z-score' | 'threshold' | 'peer-ratio' | 'default' | 'adjustment';
+  note?: string;
+}
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+// How far a factor score rests on real data (see lib/confidence)
+export interface FactorConfidence {
+  level: ConfidenceLevel;
+  score: number; // 0-1
+  coverage: number; // Share of the factor's points scored from reported data rather than defaults (0-1)
+  peers: number | null; // Peers with this factor's metrics (null for factors not benchmarked against peers)
+  mostlyDefaults: boolean; // Over half the factor's points are neutral defaults
+  reasons: string[];
+}
+
+export interface ScoreConfidence {
+  level: ConfidenceLevel;
+  score: number; // 0-1, weighted like the factor scores
+  peerDataAgeDays: number | null; // Age of the oldest peer metrics used
+  factors: {
+    growth: FactorConfidence;
+    profitability: FactorConfidence;
+    valuation: FactorConfidence;
+    quality: FactorConfidence;
+    analyst: FactorConfidence;
+    momentum?: FactorConfidence;
+  };
+  reasons: string[];
+}
+
 export interface ScoreBreakdown {
   growthScore: number; // 0-20
   profitabilityScore: number; // 0-20
   valuationScore: number; // 0-20
-  qualityScore: number; // 0-20 (replaces momentum)
+  qualityScore: number; // 0-20
   analystScore: number; // 0-20
+  momentumScore?: number; // 0-20, optional sixth factor (only when price history is available)
+  baseScore: number; // 0-100 factor average, before the compound adjustment
+  compoundAdjustment: number; // Compound excellence bonus (+) or multiple-weakness penalty (-), plus profile metric rules, in points
+  profile: ScoringProfileId; // Scoring profile used
+  weights: Record<ScoreFactor, number>; // Factor weights of that profile
+  modelVersion: ScoringModelVersion; // Scoring model the score was computed with
+  statistics: StatisticsMethod; // Peer statistics that model uses
+  trends?: CompanyTrends; // Own multi-year trends, when the model scores them and the series are available
+  fundamentals?: ReportedFundamentals; // Statement-derived quality inputs, when the model scores them and filings are available
   description: string;
   details: {
     growth: string;
     profitability: string;
     valuation: string;
-    quality: string; // replaces momentum
+    quality: string;
     analyst: string;
+    momentum?: string;
+  };
+  // Per-metric points behind each factor score (sums to the factor score)
+  contributions: {
+    growth: MetricContribution[];
+    profitability: MetricContribution[];
+    valuation: MetricContribution[];
+    quality: MetricContribution[];
+    analyst: MetricContribution[];
+    momentum?: MetricContribution[];
   };
+  confidence: ScoreConfidence; // Data completeness behind the score, per factor and overall
   // Contextual explanations for each score
   tooltips: {
     growth: string;
     profitability: string;
     valuation: string;
-    quality: string; // replaces momentum
+    quality: string;
     analyst: string;
+    momentum?: string;
   };
   // Peer comparison context
   peerContext: {
     industry: string;
     peerCount: number;
+    sectorTemplate: SectorTemplateId; // Valuation/quality template picked from the industry
     percentileRanks: {
       growth: number; // 0-100
       profitability: number;
       valuation: number;
-      quality: number; // replaces momentum
+      quality: number;
       analyst: number;
+      momentum?: number;
     };
   };
 }
 
+// Key inputs captured with each daily score snapshot
+export interface SnapshotMetrics {
+  price: number;
+  pe?: number;
+  pb?: number;
+  roe?: number;
+  netMargin?: number;
+  operatingMargin?: number;
+  revenueGrowth?: number;
+  epsGrowth?: number;
+  debtEquity?: number;
+  currentRatio?: number;
+  priceTargetMean?: number;
+  analystStrongBuy?: number;
+  analystBuy?: number;
+  analystHold?: number;
+  analystSell?: number;
+  analystStrongSell?: number;
+  momentum6M?: number;
+  momentum12M?: number;
+}
+
+// One symbol's score on one day (the last scoring of the day wins)
+export interface ScoreSnapshot {
+  symbol: string;
+  date: string; // YYYY-MM-DD (UTC)
+  recordedAt: string; // ISO timestamp
+  stockScore: number;
+  scoreModelVersion?: ScoringModelVersion; // Not recorded by older snapshots (all scored with v3)
+  baseScore?: number; // Not recorded by older snapshots
+  compoundAdjustment?: number;
+  subScores: {
+    growth: number;
+    profitability: number;
+    valuation: number;
+    quality: number;
+    analyst: number;
+    momentum?: number;
+  };
+  percentileRanks: ScoreBreakdown['peerContext']['percentileRanks'];
+  industry: string;
+  peers: string[]; // Peer symbols the score was benchmarked against
+  metrics: SnapshotMetrics;
+}
+
+// GET /api/score-history response
+export interface ScoreHistoryResponse {
+  symbol: string;
+  from?: string;
+  to?: string;
+  snapshots: ScoreSnapshot[]; // Oldest first
+}
+
+// Factor-level change between two snapshots
+export interface FactorChange {
+  factor: ScoreFactor;
+  label: string;
+  from?: number; // 0-20, undefined when the factor wasn't scored
+  to?: number;
+  percentileFrom?: number;
+  percentileTo?: number;
+  points: number; // Contribution to the 0-100 score change
+}
+
+// Underlying metric change between two snapshots
+export interface MetricChange {
+  key: keyof SnapshotMetrics;
+  label: string;
+  factor: FactorChange['factor'] | null; // Factor the metric feeds (null = context only)
+  from?: number;
+  to?: number;
+  change?: number;
+  changePercent?: number; // Relative change, when both values are non-zero
+}
+
+// One human-readable reason the score moved, largest impact first
+export interface ScoreDriver {
+  kind: 'factor' | 'metric' | 'peers' | 'analyst' | 'compound' | 'industry' | 'model';
+  factor?: FactorChange['factor'];
+  points?: number; // Score impact, when it can be attributed
+  description: string;
+}
+
+// GET /api/score-diff response
+export interface ScoreDiff {
+  symbol: string;
+  from: string; // Snapshot dates actually compared
+  to: string;
+  fromScore: number;
+  toScore: number;
+  change: number;
+  factors: FactorChange[];
+  compoundAdjustment: { from?: number; to?: number; change: number };
+  unattributed: number; // Rounding/clamping left over after factor + compound attribution
+  peers: { added: string[]; removed: string[]; fromCount: number; toCount: number };
+  industry: { from: string; to: string };
+  scoreModelVersion: { from: ScoringModelVersion; to: ScoringModelVersion };
+  metrics: MetricChange[];
+  drivers: ScoreDriver[];
+}
+
+// Backtest rebalance schedule
+export type BacktestRebalance = 'weekly' | 'monthly' | 'quarterly';
+
+// A symbol's score as known on a date - the backtest's ranking input
+export interface ScoreObservation {
+  date: string; // YYYY-MM-DD
+  symbol: string;
+  score: number; // 0-100
+}
+
+// Daily (or coarser) closes, oldest first
+export type PriceHistory = Record<string, Array<{ date: string; close: number }>>;
+
+// Scoring inputs for one symbol as they were known on one date
+export interface PointInTimeRecord {
+  date: string; // YYYY-MM-DD
+  symbol: string;
+  industry?: string;
+  score?: number; // Pre-computed 0-100 score - used as-is instead of re-scoring
+  metric?: FinnhubBasicFinancials['metric'];
+  series?: FinnhubBasicFinancials['series']; // Annual history up to the last fiscal year closed by that date
+  earnings?: EarningsSummary; // Reported quarterly history known on that date
+  fundamentals?: ReportedFundamentals; // Latest annual statements filed by that date
+  recommendation?: Pick<FinnhubRecommendationTrend, 'strongBuy' | 'buy' | 'hold' | 'sell' | 'strongSell'>;
+  priceTargetMean?: number;
+}
+
+// Offline backtest data set (fixtures/backtest/<name>.json)
+export interface BacktestFixture {
+  name: string;
+  description?: string;
+  universe: string[];
+  prices: PriceHistory; // May include SPY for market-relative momentum
+  records: PointInTimeRecord[];
+}
+
+// One holding period between two rebalance dates
+export interface BacktestPeriod {
+  date: string; // Portfolios formed at this date's scores and closes
+  nextDate: string; // Held until this date's closes
+  ranked: number; // Symbols with both a score and a forward return
+  top: string[]; // Highest-scoring quantile
+  bottom: string[]; // Lowest-scoring quantile
+  topReturn: number; // Equal-weighted forward return (%)
+  bottomReturn: number;
+  universeReturn: number;
+  spread: number; // Top minus bottom (%)
+  ic: number | null; // Spearman rank correlation of score vs forward return
+  topHitRate: number; // Share of top-quantile names beating the universe average (0-1)
+}
+
+export interface BacktestPortfolioStats {
+  cumulativeReturn: number; // %
+  annualizedReturn: number; // %
+  avgPeriodReturn: number; // %
+  maxDrawdown: number; // % (<= 0)
+}
+
+// GET /api/backtest response
+export interface BacktestResult {
+  source: 'fixture' | 'snapshots';
+  fixture?: string;
+  scoreModelVersion: ScoringModelVersion; // Model used to re-score the fixture, or the latest one found in the snapshots
+  universe: string[];
+  rebalance: BacktestRebalance;
+  quantiles: number; // 5 = top/bottom quintile
+  from: string | null; // First/last rebalance date actually used
+  to: string | null;
+  periods: BacktestPeriod[];
+  summary: {
+    top: BacktestPortfolioStats;
+    bottom: BacktestPortfolioStats;
+    longShort: BacktestPortfolioStats; // Top minus bottom, rebalanced each period
+    universe: BacktestPortfolioStats;
+    hitRate: number; // Share of periods where the top quantile beat the bottom (0-1)
+    topHitRate: number; // Average share of top-quantile names beating the universe (0-1)
+    meanIC: number | null;
+    icStdDev: number | null;
+    icTStat: number | null;
+    positiveICRate: number | null; // Share of periods with IC > 0 (0-1)
+  };
+  equityCurve: Array<{ date: string; top: number; bottom: number; longShort: number; universe: number }>; // Growth of 1
+  warnings: string[];
+}
+
+// One symbol ranked under two scoring models
+export interface ModelComparisonRow {
+  symbol: string;
+  industry: string;
+  baseScore: number;
+  candidateScore: number;
+  scoreChange: number;
+  baseRank: number; // 1 = highest score
+  candidateRank: number;
+  rankChange: number; // Positive = moved up under the candidate
+}
+
+// GET /api/model-compare response
+export interface ModelComparison {
+  fixture: string;
+  base: ScoringModelVersion;
+  candidate: ScoringModelVersion;
+  date: string; // Fixture date the rows rank
+  quantiles: number;
+  rows: ModelComparisonRow[]; // Candidate rank order
+  summary: {
+    rankCorrelation: number | null; // Spearman correlation of the two rankings
+    meanAbsScoreChange: number;
+    meanAbsRankChange: number;
+    symbolsReordered: number; // Symbols whose rank changed
+    topQuantileOverlap: number; // Share of the base top quantile still in the candidate's (0-1)
+    bottomQuantileOverlap: number;
+  };
+  dates: Array<{ date: string; symbols: number; rankCorrelation: number | null; meanAbsRankChange: number }>; // Every fixture date
+}
+
 // Combined Stock Data returned by our API
 export interface StockData {
   symbol: string;
@@ -135,13 +619,64 @@ export interface StockData {
   news: FinnhubNewsArticle[];
   newsAPIArticles?: NewsAPIArticle[]; // Top 20 from NewsAPI
   sentiment?: SentimentAnalysis; // News sentiment analysis
-  earnings: EarningsEvent | null; // Next upcoming earnings
+  earnings: EarningsData | null; // Next report date + last 8 quarters
   financials: FinnhubBasicFinancials | null;
   recommendations: FinnhubRecommendationTrend[];
   priceTarget: FinnhubPriceTarget | null;
   stockScore: number; // 0-100
+  scoreModelVersion: ScoringModelVersion;
   scoreBreakdown: ScoreBreakdown;
   industryBenchmarks?: IndustryBenchmarks;
+  momentum?: MomentumReturns; // Trailing 1/3/6/12 month returns from daily closes
+}
+
+// Slim per-symbol result returned by the batch endpoint
+export type StockSummary = Pick<StockData, 'symbol' | 'profile' | 'quote' | 'stockScore' | 'scoreBreakdown'> & {
+  industry: string; // Key into BatchStockResponse.industries
+};
+
+export type BatchStockResult =
+  | { symbol: string; ok: true; data: StockSummary }
+  | { symbol: string; ok: false; error: string; details?: string };
+
+// POST /api/stock/batch response
+export interface BatchStockResponse {
+  results: BatchStockResult[]; // Same order as the requested symbols
+  industries: Record<string, { peers: string[]; benchmarks: IndustryBenchmarks }>; // Shared per industry
+  succeeded: number;
+  failed: number;
+  scoreModelVersion: ScoringModelVersion;
+}
+
+// One column of the /compare table
+export interface CompareColumn {
+  symbol: string;
+  name: string;
+  logo?: string;
+  industry: string;
+  price: number;
+  changePercent: number;
+  stockScore: number;
+}
+
+// One row of the /compare table - `values` line up with CompareResponse.columns
+export interface CompareRow {
+  key: string;
+  label: string;
+  group: 'score' | 'valuation' | 'profitability' | 'growth' | 'health' | 'analyst';
+  format: 'score' | 'percent' | 'ratio' | 'currency';
+  better: 'higher' | 'lower' | null; // null = informational, not ranked
+  positiveOnly?: boolean; // Rank only values > 0 (e.g. a negative P/E is not "cheap")
+  values: Array<number | null>;
+}
+
+// GET /api/compare response
+export interface CompareResponse {
+  columns: CompareColumn[];
+  breakdowns: ScoreBreakdown[]; // Aligned with columns
+  rows: CompareRow[];
+  errors: Array<{ symbol: string; error: string; details?: string }>;
+  scoreModelVersion: ScoringModelVersion;
 }
 
 // Finnhub Basic Financials (annual and quarterly metrics)
@@ -169,18 +704,135 @@ export interface FinnhubBasicFinancials {
     currentRatioAnnual?: number; // Current ratio
     debtEquityAnnual?: number; // Debt to Equity
     quickRatioAnnual?: number; // Quick ratio
+
+    // Dividends
+    pcfShareTTM?: number; // Price to cash flow per share (TTM)
+    dividendYieldIndicatedAnnual?: number; // Indicated annual dividend yield (%)
+    payoutRatioAnnual?: number; // Dividend payout ratio (%)
     
     // Momentum
     '52WeekHigh'?: number;
     '52WeekLow'?: number;
     beta?: number;
   };
-  series?: {
-    annual?: Record<string, any>;
-    quarterly?: Record<string, any>;
+  series?: { // Per-metric history, e.g. annual.netMargin (parse with lib/financialSeries)
+    annual?: Record<string, FinnhubSeriesPoint[]>;
+    quarterly?: Record<string, FinnhubSeriesPoint[]>;
+  };
+}
+
+// One period of a Finnhub financial series (ratios as fractions, e.g. 0.25 = 25%)
+export interface FinnhubSeriesPoint {
+  period: string; // YYYY-MM-DD fiscal period end
+  v: number;
+}
+
+// Finnhub Financials As Reported (/stock/financials-reported) - one entry per filing
+export interface FinnhubReportedFinancials {
+  cik?: string;
+  symbol?: string;
+  data: FinnhubFiling[];
+}
+
+export interface FinnhubFiling {
+  accessNumber?: string;
+  symbol?: string;
+  year: number; // Fiscal year
+  quarter: number; // Fiscal quarter, 0 for annual filings
+  form: string; // 10-K, 10-Q, 20-F, ...
+  startDate: string; // "YYYY-MM-DD HH:mm:ss"
+  endDate: string;
+  filedDate: string;
+  report: {
+    bs?: FinnhubReportedLineItem[]; // Balance sheet
+    ic?: FinnhubReportedLineItem[]; // Income statement
+    cf?: FinnhubReportedLineItem[]; // Cash flow statement
   };
 }
 
+export interface FinnhubReportedLineItem {
+  concept: string; // XBRL concept, e.g. us-gaap_Revenues
+  label: string;
+  unit: string; // e.g. usd, usd/shares
+  value: number | string;
+}
+
+export type FinancialStatementType = 'income' | 'balance' | 'cashflow';
+export type StatementFrequency = 'annual' | 'quarterly';
+
+// Fiscal period a statement covers
+export interface StatementPeriod {
+  year: number; // Fiscal year
+  quarter: number; // Fiscal quarter, 0 for annual
+  form: string;
+  periodStart: string; // YYYY-MM-DD
+  periodEnd: string; // YYYY-MM-DD
+  filedDate: string; // YYYY-MM-DD
+}
+
+// Line items are in reporting currency; null = not reported under a recognized concept
+export interface IncomeStatement extends StatementPeriod {
+  revenue: number | null;
+  costOfRevenue: number | null;
+  grossProfit: number | null;
+  operatingIncome: number | null;
+  interestExpense: number | null;
+  pretaxIncome: number | null;
+  incomeTax: number | null;
+  netIncome: number | null;
+  epsBasic: number | null;
+  epsDiluted: number | null;
+}
+
+export interface BalanceSheet extends StatementPeriod {
+  cashAndEquivalents: number | null;
+  currentAssets: number | null;
+  totalAssets: number | null;
+  currentLiabilities: number | null;
+  totalLiabilities: number | null;
+  shortTermDebt: number | null; // Including the current portion of long-term debt
+  longTermDebt: number | null;
+  totalEquity: number | null;
+}
+
+// Quarterly cash flows are fiscal year-to-date, as filed
+export interface CashFlowStatement extends StatementPeriod {
+  operatingCashFlow: number | null;
+  capitalExpenditure: number | null; // Cash spent on property, plant and equipment (positive)
+  freeCashFlow: number | null; // Operating cash flow - capital expenditure
+  investingCashFlow: number | null;
+  financingCashFlow: number | null;
+  dividendsPaid: number | null; // Positive
+  shareRepurchases: number | null; // Positive
+}
+
+export interface FinancialStatementMap {
+  income: IncomeStatement;
+  balance: BalanceSheet;
+  cashflow: CashFlowStatement;
+}
+
+// Quality inputs derived from the latest annual statements (lib/financialStatements)
+export interface ReportedFundamentals {
+  year: number; // Fiscal year
+  periodEnd: string; // YYYY-MM-DD
+  freeCashFlow: number | null;
+  fcfMargin: number | null; // Free cash flow / revenue (%)
+  cashConversion: number | null; // Free cash flow / net income (null when net income ≤ 0)
+  roic: number | null; // After-tax operating income / (equity + debt - cash) (%)
+  interestCoverage: number | null; // Operating income / interest expense (null without interest expense)
+}
+
+// GET /api/financials response
+export interface FinancialStatementsResponse<S extends FinancialStatementType = FinancialStatementType> {
+  symbol: string;
+  statement: S;
+  freq: StatementFrequency;
+  currency: string | null; // Unit of the monetary line items, e.g. USD
+  periods: Array<FinancialStatementMap[S]>; // Most recent first
+  fundamentals?: ReportedFundamentals; // Annual requests only
+}
+
 // Finnhub Recommendation Trends (analyst ratings)
 export interface FinnhubRecommendationTrend {
   buy: number;
@@ -216,6 +868,22 @@ export interface NewsAPIArticle {
   content?: string | null;
 }
 
+// Economic event parsed from news by /api/calendar
+// (the static calendar in lib/marketCalendar has its own MarketEvent)
+export interface MarketEvent {
+  id: string;
+  date: string; // ISO format YYYY-MM-DD
+  displayDate: string;
+  time?: string;
+  title: string;
+  description: string;
+  category: 'monetary' | 'inflation' | 'employment' | 'consumer' | 'growth' | 'other';
+  impact: 'High' | 'Medium' | 'Low';
+  icon: string;
+  sources: string[]; // News sources that mentioned this event
+  confidence: 'Verified' | 'Estimated'; // Verified if 2+ sources confirm
+}
+
 // Sentiment analysis result
 export interface SentimentAnalysis {
   newsScore: number; // 0-20 points